@@ -0,0 +1,39 @@
+/**
+ * Rebuilds the daily and monthly rollups from the raw metrics. Pass months to
+ * limit the rebuild, e.g. `npm run rollups:backfill -- 2024-01 2024-06`; with
+ * no months every metric is read. Uses application default credentials, or the
+ * emulator when FIRESTORE_EMULATOR_HOST is set. Pause imports while it runs.
+ */
+const { initializeApp } = require("firebase-admin/app");
+const { getFirestore } = require("firebase-admin/firestore");
+
+initializeApp({ projectId: process.env.GCLOUD_PROJECT || "twodegrees-retail" });
+
+const { rebuildRollups } = require("../lib/rollups/backfill");
+
+const MONTH_PATTERN = /^(\d{4})-(\d{2})$/;
+
+const parseMonth = (value, endOfMonth) => {
+  if (!value) return undefined;
+  const match = value.match(MONTH_PATTERN);
+  if (!match) throw new Error(`Expected a month like 2024-01, got "${value}"`);
+  const year = Number(match[1]);
+  const month = Number(match[2]);
+  // Midday keeps the date inside the same month in New Zealand
+  return endOfMonth ? new Date(Date.UTC(year, month, 0, 12)) : new Date(Date.UTC(year, month - 1, 1, 12));
+};
+
+const main = async () => {
+  const [from, to] = process.argv.slice(2);
+  const result = await rebuildRollups(getFirestore(), {
+    start: parseMonth(from, false),
+    end: parseMonth(to || from, true),
+  });
+  console.log(JSON.stringify(result, null, 2));
+  process.exit(0);
+};
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,34 @@
+/**
+ * Exercises the scheduled drop-folder import against the local emulators:
+ * uploads fixtures/pos-export-sample.csv into the drop folder, then runs the
+ * import once. Start the emulators first with `npm run emulators`.
+ */
+const path = require("path");
+
+process.env.FIRESTORE_EMULATOR_HOST = process.env.FIRESTORE_EMULATOR_HOST || "127.0.0.1:8080";
+process.env.FIREBASE_STORAGE_EMULATOR_HOST = process.env.FIREBASE_STORAGE_EMULATOR_HOST || "127.0.0.1:9199";
+
+const { initializeApp } = require("firebase-admin/app");
+const { getStorage } = require("firebase-admin/storage");
+
+initializeApp({
+  projectId: process.env.GCLOUD_PROJECT || "twodegrees-retail",
+  storageBucket: process.env.IMPORT_DROP_BUCKET || "twodegrees-retail.firebasestorage.app",
+});
+
+const { importDropFolder } = require("../lib/imports/scheduledImport");
+
+const main = async () => {
+  const folder = (process.env.IMPORT_DROP_FOLDER || "drop").replace(/\/+$/, "");
+  const fixture = path.join(__dirname, "..", "fixtures", "pos-export-sample.csv");
+  await getStorage().bucket().upload(fixture, { destination: `${folder}/pos-export-sample.csv` });
+
+  const result = await importDropFolder();
+  console.log(JSON.stringify(result, null, 2));
+  process.exit(result.failed.length ? 1 : 0);
+};
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
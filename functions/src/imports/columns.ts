@@ -0,0 +1,175 @@
+// Server copy of the column rules in src/utils/validation/columnDefinitions.ts.
+// Supplier columns come from the suppliers collection, as they do in the
+// browser.
+
+import {Firestore} from "firebase-admin/firestore";
+
+export type ColumnType = "date" | "string" | "quantity" | "amount";
+export type SupplierMeasure = "quantity" | "sales" | "margin";
+
+export interface ImportColumn {
+  field: string;
+  name: string;
+  aliases: string[];
+  type: ColumnType;
+  // The file may leave this column out entirely
+  optional?: boolean;
+  // Set on supplier columns
+  supplierId?: number;
+  measure?: SupplierMeasure;
+}
+
+// The import-related fields of a document in the suppliers collection
+export interface ImportSupplier {
+  id: number;
+  name: string;
+  importKey: string;
+  importColumns: SupplierMeasure[];
+  importAliases?: Partial<Record<SupplierMeasure, string[]>>;
+  optionalImportColumns?: SupplierMeasure[];
+}
+
+// Matches DEFAULT_SUPPLIERS in src/data/suppliers.ts, used while the
+// collection is empty
+export const DEFAULT_IMPORT_SUPPLIERS: ImportSupplier[] = [
+  {
+    id: 1,
+    name: "Cellnet",
+    importKey: "cellnet",
+    importColumns: ["quantity", "sales", "margin"],
+    importAliases: {
+      quantity: ["Cellnet Qty", "Cellnet Units"],
+      sales: ["Cellnet Sales Value", "Cellnet Revenue"],
+      margin: ["Cellnet GP"],
+    },
+  },
+  {
+    id: 2,
+    name: "Likewize Acc",
+    importKey: "likewizeAcc",
+    importColumns: ["quantity", "sales", "margin"],
+    importAliases: {
+      quantity: ["Likewize Accessories Quantity", "Likewize Acc Qty"],
+      sales: ["Likewize Accessories Sales", "Likewize Acc Sales Value"],
+      margin: ["Likewize Accessories Margin", "Likewize Acc GP"],
+    },
+  },
+  {
+    id: 3,
+    name: "Pacificomm",
+    importKey: "pacificomm",
+    importColumns: ["quantity", "sales", "margin"],
+    importAliases: {
+      quantity: ["Pacificomm Qty", "Pacificomm Units"],
+      sales: ["Pacificomm Sales Value", "Pacificomm Revenue"],
+      margin: ["Pacificomm GP"],
+    },
+  },
+  {
+    id: 4,
+    name: "Studiotech",
+    importKey: "studiotech",
+    importColumns: ["quantity", "sales", "margin"],
+    importAliases: {
+      quantity: ["Studiotech Qty", "Studiotech Units"],
+      sales: ["Studiotech Sales Value", "Studiotech Revenue"],
+      margin: ["Studiotech GP"],
+    },
+  },
+  {
+    id: 5,
+    name: "Likewize Device",
+    importKey: "likewizeDevice",
+    importColumns: ["quantity", "sales", "margin"],
+    importAliases: {
+      quantity: ["Likewize Device Qty", "Device Quantity", "Devices"],
+      sales: ["Likewize Device Sales Value", "Device Sales", "Device Revenue"],
+      margin: ["Likewize Device GP", "Device Margin"],
+    },
+    // Exports from before device sales were reported have the quantity alone
+    optionalImportColumns: ["sales", "margin"],
+  },
+];
+
+const BASE_COLUMNS: ImportColumn[] = [
+  {
+    field: "date",
+    name: "Date",
+    aliases: ["Transaction Date", "Sale Date", "Trans Date"],
+    type: "date",
+  },
+  {
+    field: "branchNumber",
+    name: "Branch Number",
+    aliases: ["Branch", "Branch No", "Store Number", "Store No"],
+    type: "string",
+  },
+  {
+    field: "staffCode",
+    name: "Staff Code",
+    aliases: ["Staff", "Salesperson Code", "Employee Code"],
+    type: "string",
+  },
+];
+
+const MEASURE_SUFFIXES: Record<SupplierMeasure, string> = {
+  quantity: "Quantity",
+  sales: "Sales",
+  margin: "Margin",
+};
+
+/**
+ * Date, branch and staff code followed by each supplier's columns, named as in
+ * getColumnDefinitions so saved mapping profiles apply on both sides.
+ *
+ * @param {ImportSupplier[]} suppliers The supplier catalogue.
+ * @return {ImportColumn[]} The columns an import file can have.
+ */
+export const buildImportColumns = (
+  suppliers: ImportSupplier[]
+): ImportColumn[] => [
+  ...BASE_COLUMNS,
+  ...suppliers.flatMap((supplier) =>
+    supplier.importColumns.map((measure): ImportColumn => ({
+      field: `${supplier.importKey}${MEASURE_SUFFIXES[measure]}`,
+      name: `${supplier.name} ${MEASURE_SUFFIXES[measure]}`,
+      aliases: supplier.importAliases?.[measure] || [],
+      type: measure === "quantity" ? "quantity" : "amount",
+      optional: supplier.optionalImportColumns?.includes(measure),
+      supplierId: supplier.id,
+      measure,
+    }))
+  ),
+];
+
+// Reads the supplier catalogue, falling back to the built-in suppliers
+export const loadImportSuppliers = async (
+  db: Firestore
+): Promise<ImportSupplier[]> => {
+  const snapshot = await db.collection("suppliers").get();
+  const suppliers = snapshot.docs
+    .map((doc) => {
+      const data = doc.data();
+      return {
+        id: Number(data.id ?? doc.id),
+        name: String(data.name || "").trim(),
+        importKey: String(data.importKey || `supplier${doc.id}`),
+        importColumns: Array.isArray(data.importColumns) ?
+          data.importColumns :
+          ["quantity", "sales", "margin"],
+        importAliases: data.importAliases || {},
+        optionalImportColumns: Array.isArray(data.optionalImportColumns) ?
+          data.optionalImportColumns :
+          undefined,
+      } as ImportSupplier;
+    })
+    .filter((supplier) => supplier.name && !isNaN(supplier.id))
+    .sort((a, b) => a.id - b.id);
+
+  return suppliers.length ? suppliers : DEFAULT_IMPORT_SUPPLIERS;
+};
+
+export const MAX_DECIMAL_PLACES = 2;
+export const MAX_BRANCH_NUMBER_LENGTH = 10;
+export const MAX_STAFF_CODE_LENGTH = 20;
+export const VALID_CODE_PATTERN = /^[a-zA-Z0-9-]+$/;
@@ -0,0 +1,62 @@
+import {describe, it, expect} from "vitest";
+import {ParsedRow, parseImportSheets} from "./parser";
+import {buildImportColumns, DEFAULT_IMPORT_SUPPLIERS} from "./columns";
+import {
+  IMPORT_RULE_CASES,
+  ImportRuleCase,
+} from "../../../src/utils/excel/__fixtures__/importRules";
+
+const COLUMNS = buildImportColumns(DEFAULT_IMPORT_SUPPLIERS);
+const HEADER = COLUMNS.map((col) => col.name);
+
+const ruleSheet = ({field, cell}: ImportRuleCase) => {
+  const cells: Record<string, string> = {
+    date: "15/10/2024",
+    branchNumber: "101",
+    staffCode: "ST001",
+    cellnetQuantity: "2",
+    cellnetSales: "59.98",
+    cellnetMargin: "24.10",
+  };
+  cells[field === "quantity" ? "cellnetQuantity" :
+    field === "salesAmount" ? "cellnetSales" : field] = cell;
+  return {
+    name: "Sheet1",
+    data: [HEADER, COLUMNS.map((col) => cells[col.field] ?? "")],
+  };
+};
+
+const readValue = ({field}: ImportRuleCase, row: ParsedRow): unknown => {
+  switch (field) {
+  case "date":
+    return [row.date.year, row.date.month, row.date.day];
+  case "branchNumber":
+  case "staffCode":
+    return row[field];
+  default:
+    return row.values[1][field];
+  }
+};
+
+// The same cases run against the browser's validateRow and parseSalesRow
+describe("shared import rules", () => {
+  IMPORT_RULE_CASES.forEach((ruleCase) => {
+    const {field, cell, expected} = ruleCase;
+    const verb = expected === null ? "rejects" : "reads";
+
+    it(`${verb} ${field} "${cell}"`, () => {
+      const result = parseImportSheets([ruleSheet(ruleCase)], {
+        columns: COLUMNS,
+        allowPartial: true,
+      });
+
+      if (expected === null) {
+        expect(result.rows).toEqual([]);
+        expect(result.rejected.map((reject) => reject.row)).toEqual([2]);
+      } else {
+        expect(result.rejected).toEqual([]);
+        expect(readValue(ruleCase, result.rows[0])).toEqual(expected);
+      }
+    });
+  });
+});
@@ -0,0 +1,387 @@
+import * as XLSX from "xlsx";
+import {
+  ImportColumn,
+  buildImportColumns,
+  DEFAULT_IMPORT_SUPPLIERS,
+  MAX_BRANCH_NUMBER_LENGTH,
+  MAX_STAFF_CODE_LENGTH,
+  VALID_CODE_PATTERN,
+} from "./columns";
+
+export interface ImportSheet {
+  name: string;
+  data: unknown[][];
+}
+
+// Calendar day of a sale; stored as midnight in New Zealand
+export interface SaleDay {
+  year: number;
+  month: number;
+  day: number;
+}
+
+export interface ParsedRow {
+  date: SaleDay;
+  branchNumber: string;
+  staffCode: string;
+  // Values per supplier ID
+  values: Record<number, SupplierValues>;
+}
+
+export interface SupplierValues {
+  quantity: number;
+  salesAmount: number;
+  marginAmount: number;
+}
+
+export interface RejectedRow {
+  sheet?: string;
+  row: number;
+  errors: string[];
+}
+
+export interface ParseOptions {
+  // Columns built from the supplier catalogue; the built-in suppliers when
+  // unset
+  columns?: ImportColumn[];
+  // Sheets to import; all sheets when empty
+  sheetNames?: string[];
+  // Extra header names per field, as confirmed in the column mapping step
+  aliases?: Record<string, string[]>;
+  // Set failing rows aside instead of failing the whole import
+  allowPartial?: boolean;
+  // Known branch numbers and staff codes; not checked when unset
+  references?: ImportReferences;
+}
+
+export interface ImportReferences {
+  branchNumbers: string[];
+  staffCodes: string[];
+}
+
+export interface ParseResult {
+  rows: ParsedRow[];
+  rejected: RejectedRow[];
+  // Problems that stop the import, such as missing columns
+  errors: string[];
+  // Rows that are imported but look wrong, such as future dates
+  warnings: string[];
+}
+
+const TEXT_EXTENSIONS = [".csv", ".tsv"];
+
+const isEmpty = (value: unknown): boolean =>
+  value === undefined || value === null || value === "";
+
+const normalizeHeader = (header: unknown): string =>
+  String(header ?? "").toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/**
+ * Reads every sheet of an uploaded workbook, or the single sheet of a CSV/TSV
+ * file, with the same options as the browser import.
+ *
+ * @param {Buffer} buffer The file contents.
+ * @param {string} fileName The file name, used to tell CSV/TSV from Excel.
+ * @return {ImportSheet[]} The rows of each sheet.
+ */
+export const readSheets = (
+  buffer: Buffer,
+  fileName: string
+): ImportSheet[] => {
+  const extension = fileName.slice(fileName.lastIndexOf(".")).toLowerCase();
+  const readOptions = {cellDates: true, dateNF: "dd/mm/yyyy"};
+  const workbook = TEXT_EXTENSIONS.includes(extension) ?
+    XLSX.read(buffer.toString("utf8"), {...readOptions, type: "string"}) :
+    XLSX.read(buffer, {...readOptions, type: "buffer"});
+
+  return workbook.SheetNames.map((name) => ({
+    name,
+    data: XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[name], {
+      header: 1,
+      raw: false,
+      dateNF: "dd/mm/yyyy",
+      defval: "",
+      rawNumbers: false,
+    }),
+  }));
+};
+
+const detectMapping = (
+  columns: ImportColumn[],
+  headerRow: unknown[],
+  aliases: Record<string, string[]> = {}
+): { mapping: Record<string, number>; missing: string[] } => {
+  const headers = (headerRow || []).map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping: Record<string, number> = {};
+
+  columns.forEach((col) => {
+    const candidates = [...(aliases[col.field] || []), col.name, ...col.aliases]
+      .map(normalizeHeader);
+    const index = candidates
+      .map((candidate) => headers.findIndex((header, i) =>
+        header === candidate && !used.has(i)
+      ))
+      .find((i) => i !== -1);
+
+    if (index !== undefined) {
+      mapping[col.field] = index;
+      used.add(index);
+    }
+  });
+
+  const missing = columns
+    .filter((col) => !col.optional && mapping[col.field] === undefined)
+    .map((col) => col.name);
+  return {mapping, missing};
+};
+
+const parseDay = (value: unknown): SaleDay | null => {
+  if (value instanceof Date && !isNaN(value.getTime())) {
+    return {
+      year: value.getFullYear(),
+      month: value.getMonth() + 1,
+      day: value.getDate(),
+    };
+  }
+
+  const text = String(value ?? "").trim();
+  let parts: number[] | null = null;
+  const ddmmyyyy = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ].*)?$/);
+  if (ddmmyyyy) {
+    // Years outside 1900-2100 are rejected, as in parseDateString
+    const year = Number(ddmmyyyy[3]);
+    if (year < 1900 || year > 2100) return null;
+    parts = [year, Number(ddmmyyyy[2]), Number(ddmmyyyy[1])];
+  } else if (iso) {
+    parts = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (/^\d+(\.\d+)?$/.test(text)) {
+    // Excel serial date, counted from 30/12/1899
+    const date = new Date(Date.UTC(1899, 11, 30 + Math.floor(Number(text))));
+    parts = [date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate()];
+  }
+  if (!parts) return null;
+
+  const [year, month, day] = parts;
+  const check = new Date(Date.UTC(year, month - 1, day));
+  if (check.getUTCFullYear() !== year || check.getUTCMonth() !== month - 1 ||
+    check.getUTCDate() !== day) {
+    return null; // Rolled over, e.g. 31/04
+  }
+  return {year, month, day};
+};
+
+const todayInNZ = (): SaleDay => {
+  const [day, month, year] = new Intl.DateTimeFormat("en-NZ", {
+    timeZone: "Pacific/Auckland",
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+  }).format(new Date()).split("/").map(Number);
+  return {year, month, day};
+};
+
+const compareDays = (a: SaleDay, b: SaleDay): number =>
+  a.year - b.year || a.month - b.month || a.day - b.day;
+
+const parseNumber = (
+  value: unknown,
+  name: string,
+  quantity: boolean
+): number => {
+  if (isEmpty(value)) return 0;
+
+  // Thousands separators are ignored, as they are by readNumber
+  const num = Number(String(value).replace(/,/g, "").trim());
+  if (isNaN(num) || !isFinite(num)) {
+    throw new Error(`Invalid ${name}: ${value}`);
+  }
+  if (quantity && !Number.isInteger(num)) {
+    throw new Error(`${name} must be a whole number: ${value}`);
+  }
+  return quantity ? num : Number(num.toFixed(2));
+};
+
+const checkCode = (value: string, name: string, maxLength: number): void => {
+  if (value.length > maxLength) {
+    throw new Error(`${name} must be ${maxLength} characters or less`);
+  }
+  if (!VALID_CODE_PATTERN.test(value)) {
+    throw new Error(`${name} must contain only letters, numbers, and hyphens`);
+  }
+};
+
+const MEASURE_FIELDS = {
+  quantity: "quantity",
+  sales: "salesAmount",
+  margin: "marginAmount",
+} as const;
+
+// Validates and parses one row whose cells are in `columns` order, with the
+// same rules as validateRow and parseSalesRow in the browser
+const parseRow = (
+  columns: ImportColumn[],
+  cells: unknown[]
+): ParsedRow => {
+  const row: ParsedRow = {
+    date: {year: 0, month: 0, day: 0},
+    branchNumber: "",
+    staffCode: "",
+    values: {},
+  };
+
+  columns.forEach((col, index) => {
+    const value = cells[index];
+    switch (col.type) {
+    case "date": {
+      const day = parseDay(value);
+      if (!day) {
+        throw new Error(
+          `Invalid ${col.name}: ${value}. Expected dd/mm/yyyy, ` +
+          "yyyy-mm-dd or an Excel date"
+        );
+      }
+      row.date = day;
+      break;
+    }
+    case "string": {
+      if (isEmpty(value)) throw new Error(`${col.name} is required`);
+      const text = String(value).trim();
+      if (col.field === "branchNumber") {
+        checkCode(text, "Branch number", MAX_BRANCH_NUMBER_LENGTH);
+        row.branchNumber = text;
+      } else {
+        checkCode(text, "Staff code", MAX_STAFF_CODE_LENGTH);
+        row.staffCode = text;
+      }
+      break;
+    }
+    default: {
+      const supplierId = col.supplierId as number;
+      const values = row.values[supplierId] ||
+        {quantity: 0, salesAmount: 0, marginAmount: 0};
+      values[MEASURE_FIELDS[col.measure || "quantity"]] =
+        parseNumber(value, col.name, col.type === "quantity");
+      row.values[supplierId] = values;
+    }
+    }
+  });
+
+  return row;
+};
+
+const normalizeCode = (value: string): string => value.trim().toLowerCase();
+
+// Unknown branch numbers and staff codes, as findUnknownReferences reports them
+const checkReferences = (
+  row: ParsedRow,
+  known: { branchNumbers: Set<string>; staffCodes: Set<string> }
+): string[] => {
+  const errors: string[] = [];
+  if (!known.branchNumbers.has(normalizeCode(row.branchNumber))) {
+    errors.push(`Unknown branch number "${row.branchNumber}"`);
+  }
+  if (!known.staffCodes.has(normalizeCode(row.staffCode))) {
+    errors.push(`Unknown staff code "${row.staffCode}"`);
+  }
+  return errors;
+};
+
+/**
+ * Maps, validates and parses the selected sheets with the same rules as the
+ * browser import. Without `allowPartial` any failing row fails the import, as
+ * it does in the browser.
+ *
+ * @param {ImportSheet[]} sheets The sheets read from the file.
+ * @param {ParseOptions} options The columns, sheets and rules to apply.
+ * @return {ParseResult} The parsed rows, rejects, errors and warnings.
+ */
+export const parseImportSheets = (
+  sheets: ImportSheet[],
+  options: ParseOptions = {}
+): ParseResult => {
+  const selected = options.sheetNames?.length ?
+    sheets.filter((sheet) => options.sheetNames?.includes(sheet.name)) :
+    sheets;
+  const tagSheet = selected.length > 1;
+  const today = todayInNZ();
+  const columns = options.columns ||
+    buildImportColumns(DEFAULT_IMPORT_SUPPLIERS);
+  const known = options.references && {
+    branchNumbers: new Set(options.references.branchNumbers.map(normalizeCode)),
+    staffCodes: new Set(options.references.staffCodes.map(normalizeCode)),
+  };
+  const result: ParseResult = {
+    rows: [],
+    rejected: [],
+    errors: [],
+    warnings: [],
+  };
+
+  if (!selected.length) {
+    result.errors.push("No sheets to import");
+    return result;
+  }
+
+  selected.forEach((sheet) => {
+    const sheetName = tagSheet ? sheet.name : undefined;
+    const prefix = sheetName ? `Sheet "${sheetName}": ` : "";
+    if (sheet.data.length < 2) {
+      result.errors.push(`${prefix}No data rows found`);
+      return;
+    }
+
+    const {mapping, missing} =
+      detectMapping(columns, sheet.data[0], options.aliases);
+    if (missing.length) {
+      result.errors.push(`${prefix}Missing columns: ${missing.join(", ")}`);
+      return;
+    }
+
+    sheet.data.slice(1).forEach((cells, index) => {
+      if (!cells || cells.every(isEmpty)) return;
+      const canonical = columns.map((col) => cells[mapping[col.field]] ?? "");
+
+      try {
+        const row = parseRow(columns, canonical);
+        const referenceErrors = known ? checkReferences(row, known) : [];
+        if (referenceErrors.length) {
+          result.rejected.push({
+            sheet: sheetName,
+            row: index + 2,
+            errors: referenceErrors,
+          });
+          return;
+        }
+
+        // Imported, but flagged as detectAnomalies does in the browser
+        if (compareDays(row.date, today) > 0) {
+          const {day, month, year} = row.date;
+          result.warnings.push(
+            `${prefix}Row ${index + 2}: Date ${day}/${month}/${year} ` +
+            "is in the future"
+          );
+        }
+        result.rows.push(row);
+      } catch (error) {
+        result.rejected.push({
+          sheet: sheetName,
+          row: index + 2,
+          errors: [(error as Error).message],
+        });
+      }
+    });
+  });
+
+  if (result.rejected.length && !options.allowPartial) {
+    result.errors.push(
+      ...result.rejected.slice(0, 50).map((reject) => {
+        const sheet = reject.sheet ? `Sheet "${reject.sheet}" ` : "";
+        return `${sheet}Row ${reject.row}: ${reject.errors.join(", ")}`;
+      })
+    );
+  }
+
+  return result;
+};
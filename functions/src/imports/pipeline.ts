@@ -0,0 +1,193 @@
+import {
+  getFirestore,
+  FieldValue,
+  Firestore,
+  QueryDocumentSnapshot,
+} from "firebase-admin/firestore";
+import {logOperation} from "../utils/logging";
+import {
+  readSheets,
+  parseImportSheets,
+  ParseOptions,
+  ParseResult,
+  ImportReferences,
+} from "./parser";
+import {buildImportColumns, loadImportSuppliers} from "./columns";
+import {writeMetrics} from "./writer";
+
+const MAX_REPORTED_ERRORS = 50;
+
+export type ImportStatus = "uploaded" | "processing" | "completed" | "failed";
+export type ImportSource = "upload" | "scheduled";
+
+// The fields of imports/{importId} that control how a file is imported
+export interface ImportRequest {
+  fileName: string;
+  source: ImportSource;
+  sheetNames?: string[];
+  aliases?: Record<string, string[]>;
+  allowPartial?: boolean;
+  createdBy?: string | null;
+}
+
+// Branch numbers of every store and staff codes of every user and
+// salesperson, as fetchImportMasterData loads them in the browser
+const loadImportReferences = async (
+  db: Firestore
+): Promise<ImportReferences> => {
+  const [stores, users, salespeople] = await Promise.all([
+    db.collection("stores").get(),
+    db.collection("users").get(),
+    db.collection("salespeople").get(),
+  ]);
+  const readField = (docs: QueryDocumentSnapshot[], field: string) =>
+    docs.map((doc) => String(doc.get(field) || "").trim()).filter(Boolean);
+
+  return {
+    branchNumbers: readField(stores.docs, "branchNumber"),
+    staffCodes: readField([...users.docs, ...salespeople.docs], "staffCode"),
+  };
+};
+
+/**
+ * Maps, validates and parses a file with the same rules as the browser
+ * import, including the check of branch numbers and staff codes against
+ * stores and team members.
+ *
+ * @param {Buffer} buffer The file contents.
+ * @param {string} fileName The file name, used to tell CSV/TSV from Excel.
+ * @param {ParseOptions} options The sheets, aliases and partial import flag.
+ * @return {Promise<ParseResult>} The parsed rows, rejects and import errors.
+ */
+export const parseImportFile = async (
+  buffer: Buffer,
+  fileName: string,
+  options: Omit<ParseOptions, "columns" | "references"> = {}
+): Promise<ParseResult> => {
+  const db = getFirestore();
+  const [suppliers, references] = await Promise.all([
+    loadImportSuppliers(db),
+    loadImportReferences(db),
+  ]);
+  return parseImportSheets(readSheets(buffer, fileName), {
+    ...options,
+    columns: buildImportColumns(suppliers),
+    references,
+  });
+};
+
+/**
+ * Loads and writes one import, reporting progress on imports/{importId} and
+ * recording the outcome in importHistory under the same ID. Returns whether
+ * the import succeeded; failures are recorded, not thrown.
+ *
+ * @param {string} importId The ID of imports/{importId}.
+ * @param {ImportRequest} request The file and who asked for the import.
+ * @param {Function} load Reads the rows to write.
+ * @return {Promise<boolean>} Whether the import succeeded.
+ */
+export const runImport = async (
+  importId: string,
+  request: ImportRequest,
+  load: () => Promise<ParseResult>
+): Promise<boolean> => {
+  const db = getFirestore();
+  const importRef = db.collection("imports").doc(importId);
+
+  const recordHistory = (data: Record<string, unknown>) =>
+    db.collection("importHistory").doc(importId).set({
+      fileName: request.fileName,
+      userId: request.createdBy || null,
+      source: request.source,
+      ...data,
+      timestamp: FieldValue.serverTimestamp(),
+    });
+
+  try {
+    logOperation("runImport", "start", {
+      importId,
+      fileName: request.fileName,
+      source: request.source,
+    });
+    const parsed = await load();
+    const rowsRejected = parsed.rejected.length;
+
+    if (parsed.errors.length) {
+      await importRef.update({
+        status: "failed" as ImportStatus,
+        currentStep: "Validation failed",
+        errors: parsed.errors.slice(0, MAX_REPORTED_ERRORS),
+        rowsRejected,
+        completedAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      await recordHistory({
+        success: false,
+        rowsProcessed: 0,
+        rowsRejected,
+        error: parsed.errors[0],
+      });
+      logOperation("runImport", "warning", {
+        importId,
+        errors: parsed.errors.length,
+      });
+      return false;
+    }
+
+    await importRef.update({
+      currentStep: "Importing data...",
+      totalRows: parsed.rows.length,
+      rowsRejected,
+      rejected: parsed.rejected.slice(0, MAX_REPORTED_ERRORS),
+      warnings: parsed.warnings.slice(0, MAX_REPORTED_ERRORS),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+
+    const rowCount = parsed.rows.length;
+    const summary = await writeMetrics(
+      db,
+      importId,
+      parsed.rows,
+      async (committed, total) => {
+        await importRef.update({
+          progress: total ? committed / total : 1,
+          processedRows: total ?
+            Math.floor(rowCount * committed / total) :
+            rowCount,
+          currentStep: `Writing ${committed} of ${total} changes...`,
+          updatedAt: FieldValue.serverTimestamp(),
+        });
+      }
+    );
+
+    await recordHistory({
+      success: true,
+      rowsProcessed: parsed.rows.length,
+      rowsRejected,
+      ...summary,
+    });
+    await importRef.update({
+      status: "completed" as ImportStatus,
+      currentStep: "Import complete",
+      progress: 1,
+      processedRows: parsed.rows.length,
+      summary,
+      completedAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    logOperation("runImport", "success", {importId, ...summary});
+    return true;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Import failed";
+    logOperation("runImport", "error", {importId, error});
+    await importRef.update({
+      status: "failed" as ImportStatus,
+      currentStep: "Import failed",
+      errors: [message],
+      completedAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    await recordHistory({success: false, rowsProcessed: 0, error: message});
+    return false;
+  }
+};
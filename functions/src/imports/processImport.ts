@@ -0,0 +1,75 @@
+import {onObjectFinalized} from "firebase-functions/v2/storage";
+import {getFirestore, FieldValue} from "firebase-admin/firestore";
+import {getStorage} from "firebase-admin/storage";
+import {logOperation} from "../utils/logging";
+import {
+  runImport,
+  parseImportFile,
+  ImportRequest,
+  ImportStatus,
+} from "./pipeline";
+
+// Uploads land at imports/{importId}/{fileName}; imports/{importId} holds the
+// request and its progress
+const UPLOAD_PATH = /^imports\/([^/]+)\/([^/]+)$/;
+
+/**
+ * Runs an uploaded sales file through the same mapping, validation and write
+ * rules as the browser import, with the sheets, column mapping and partial
+ * import choice made on the admin page. Progress is written to
+ * imports/{importId} so the admin can close the tab and follow along from
+ * anywhere.
+ */
+export const processImportUpload = onObjectFinalized(
+  {memory: "1GiB", timeoutSeconds: 540},
+  async (event) => {
+    const match = event.data.name?.match(UPLOAD_PATH);
+    if (!match) return;
+
+    const [, importId, fileName] = match;
+    const db = getFirestore();
+    const importRef = db.collection("imports").doc(importId);
+
+    // Claim the import in a transaction so a redelivered event cannot run it
+    // twice
+    const request = await db.runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(importRef);
+      const data = snapshot.data();
+      if (!data || data.status !== "uploaded") return null;
+      transaction.update(importRef, {
+        status: "processing" as ImportStatus,
+        currentStep: "Reading file...",
+        startedAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+      return data;
+    });
+    if (!request) {
+      logOperation("processImportUpload", "warning", {
+        importId,
+        message: "No pending import for upload",
+      });
+      return;
+    }
+
+    const importRequest: ImportRequest = {
+      fileName: request.fileName || fileName,
+      source: "upload",
+      sheetNames: request.sheetNames,
+      aliases: request.aliases,
+      allowPartial: request.allowPartial === true,
+      createdBy: request.createdBy,
+    };
+    await runImport(importId, importRequest, async () => {
+      const [buffer] = await getStorage()
+        .bucket(event.data.bucket)
+        .file(event.data.name)
+        .download();
+      return parseImportFile(buffer, fileName, {
+        sheetNames: importRequest.sheetNames,
+        aliases: importRequest.aliases,
+        allowPartial: importRequest.allowPartial,
+      });
+    });
+  }
+);
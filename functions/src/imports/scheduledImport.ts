@@ -0,0 +1,107 @@
+import {onSchedule} from "firebase-functions/v2/scheduler";
+import {getFirestore, FieldValue} from "firebase-admin/firestore";
+import {getStorage} from "firebase-admin/storage";
+import {logOperation} from "../utils/logging";
+import {runImport, parseImportFile, ImportStatus} from "./pipeline";
+
+const SUPPORTED_EXTENSIONS = [".xlsx", ".xls", ".csv", ".tsv"];
+
+// Where the POS export is dropped; the default bucket is used when no bucket
+// is set
+const getDropFolder = () =>
+  (process.env.IMPORT_DROP_FOLDER || "drop").replace(/\/+$/, "");
+const getDropBucket = () =>
+  process.env.IMPORT_DROP_BUCKET ?
+    getStorage().bucket(process.env.IMPORT_DROP_BUCKET) :
+    getStorage().bucket();
+
+export interface DropFolderResult {
+  imported: string[];
+  failed: string[];
+}
+
+/**
+ * Imports every file waiting directly in the drop folder, oldest first, with
+ * the same rules and writes as uploads from the admin page. Files are then
+ * moved to processed/ or failed/ under the drop folder so they are only
+ * picked up once; failed files are flagged on their importHistory entry.
+ */
+export const importDropFolder = async (): Promise<DropFolderResult> => {
+  const db = getFirestore();
+  const bucket = getDropBucket();
+  const folder = getDropFolder();
+  const result: DropFolderResult = {imported: [], failed: []};
+
+  const [files] = await bucket.getFiles({prefix: `${folder}/`});
+  const pending = files
+    .filter((file) => {
+      const name = file.name.slice(folder.length + 1);
+      return name && !name.includes("/") &&
+        SUPPORTED_EXTENSIONS.some((extension) =>
+          name.toLowerCase().endsWith(extension)
+        );
+    })
+    .sort((a, b) =>
+      String(a.metadata.timeCreated)
+        .localeCompare(String(b.metadata.timeCreated))
+    );
+
+  logOperation("importDropFolder", "start", {
+    bucket: bucket.name,
+    folder,
+    files: pending.length,
+  });
+
+  for (const file of pending) {
+    const fileName = file.name.slice(folder.length + 1);
+    const importRef = db.collection("imports").doc();
+    await importRef.set({
+      fileName,
+      source: "scheduled",
+      sourcePath: file.name,
+      status: "processing" as ImportStatus,
+      currentStep: "Reading file...",
+      createdBy: null,
+      createdAt: FieldValue.serverTimestamp(),
+      startedAt: FieldValue.serverTimestamp(),
+    });
+
+    const request = {fileName, source: "scheduled" as const};
+    const success = await runImport(importRef.id, request, async () => {
+      const [buffer] = await file.download();
+      return parseImportFile(buffer, fileName);
+    });
+
+    // Prefix with the import ID so the same export name can be dropped again
+    // tomorrow
+    const outcome = success ? "processed" : "failed";
+    const archivePath = `${folder}/${outcome}/${importRef.id}_${fileName}`;
+    await file.move(archivePath);
+    await db.collection("importHistory").doc(importRef.id).update({
+      sourcePath: archivePath,
+      flagged: !success,
+    });
+
+    (success ? result.imported : result.failed).push(fileName);
+  }
+
+  logOperation(
+    "importDropFolder",
+    result.failed.length ? "warning" : "success",
+    result
+  );
+  return result;
+};
+
+// Runs after the POS export is dropped each morning
+export const scheduledDropFolderImport = onSchedule(
+  {
+    schedule: "0 7 * * *",
+    timeZone: "Pacific/Auckland",
+    memory: "1GiB",
+    timeoutSeconds: 540,
+  },
+  async () => {
+    await importDropFolder();
+  }
+);
@@ -0,0 +1,386 @@
+import {
+  DocumentData,
+  DocumentReference,
+  Firestore,
+  QueryDocumentSnapshot,
+  Timestamp,
+} from "firebase-admin/firestore";
+import {ParsedRow, SaleDay, SupplierValues} from "./parser";
+
+const BATCH_SIZE = 400;
+const NZ_TIMEZONE = "Pacific/Auckland";
+
+export interface ImportSummary {
+  inserted: number;
+  updated: number;
+  unchanged: number;
+}
+
+type TransactionType = "sale" | "return";
+
+interface MetricWrite {
+  key: string;
+  type: TransactionType;
+  date: Timestamp;
+  branchNumber: string;
+  staffCode: string;
+  supplierId: number;
+  quantity: number;
+  salesAmount: number;
+  marginAmount: number;
+}
+
+// The store a metric was sold at, stamped on the metric so region queries
+// need no store lookup
+interface StoreStamp {
+  storeId: string;
+  regionId: string;
+}
+
+type Operation =
+  | { type: "set"; ref: DocumentReference; data: DocumentData }
+  | { type: "update"; ref: DocumentReference; data: DocumentData }
+  | { type: "delete"; ref: DocumentReference };
+
+/**
+ * Midnight in New Zealand on the given day. Functions run in UTC, so the
+ * offset is looked up rather than relying on the local time zone like the
+ * browser does.
+ *
+ * @param {SaleDay} day The calendar day.
+ * @return {Date} The instant the day starts in New Zealand.
+ */
+export const nzMidnight = ({year, month, day}: SaleDay): Date => {
+  const utcMidnight = Date.UTC(year, month - 1, day);
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: NZ_TIMEZONE,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).formatToParts(new Date(utcMidnight)).reduce((acc, part) => {
+    acc[part.type] = Number(part.value);
+    return acc;
+  }, {} as Record<string, number>);
+  const offset = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute
+  ) - utcMidnight;
+  return new Date(utcMidnight - offset);
+};
+
+export const toSaleDay = (date: Date): SaleDay => {
+  const [month, day, year] = new Intl.DateTimeFormat("en-US", {
+    timeZone: NZ_TIMEZONE,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(date).split("/").map(Number);
+  return {year, month, day};
+};
+
+// Same rule as getTransactionType in src/services/sales.ts: negative values
+// are a return
+const getTransactionType = (values: SupplierValues): TransactionType =>
+  values.quantity < 0 || (values.quantity === 0 && values.salesAmount < 0) ?
+    "return" :
+    "sale";
+
+const isZero = (values: SupplierValues): boolean =>
+  values.quantity === 0 && values.salesAmount === 0 &&
+  values.marginAmount === 0;
+
+// A row listing a day's returns, whose other supplier columns are blank
+const isReturnRow = (row: ParsedRow): boolean =>
+  Object.values(row.values)
+    .some((values) => getTransactionType(values) === "return");
+
+const pad = (value: number): string => String(value).padStart(2, "0");
+
+// Same document ID as getMetricKey in src/services/sales.ts
+export const getMetricKey = (
+  day: SaleDay,
+  branchNumber: string,
+  staffCode: string,
+  supplierId: number,
+  type: TransactionType = "sale"
+): string =>
+  [
+    `${day.year}-${pad(day.month)}-${pad(day.day)}`,
+    branchNumber,
+    staffCode,
+    supplierId,
+    ...(type === "return" ? [type] : []),
+  ]
+    .map((part) => encodeURIComponent(String(part)))
+    .join("_");
+
+// Firestore rejects 'in' filters with more values than this
+const IN_QUERY_LIMIT = 30;
+
+const chunkBranchNumbers = (writes: MetricWrite[]): string[][] => {
+  const branchNumbers = [
+    ...new Set(writes.map((write) => write.branchNumber)),
+  ];
+  const chunks: string[][] = [];
+  for (let start = 0; start < branchNumbers.length; start += IN_QUERY_LIMIT) {
+    chunks.push(branchNumbers.slice(start, start + IN_QUERY_LIMIT));
+  }
+  return chunks;
+};
+
+// Documents in a collection for the import's branches over the days it covers
+const fetchForBranches = async (
+  db: Firestore,
+  collectionName: string,
+  writes: MetricWrite[]
+): Promise<QueryDocumentSnapshot[]> => {
+  const millis = writes.map((write) => write.date.toMillis());
+  const snapshots = await Promise.all(chunkBranchNumbers(writes).map((chunk) =>
+    db.collection(collectionName)
+      .where("branchNumber", "in", chunk)
+      .where("date", ">=", Timestamp.fromMillis(Math.min(...millis)))
+      .where("date", "<=", Timestamp.fromMillis(Math.max(...millis)))
+      .get()));
+  return snapshots.flatMap((snapshot) => snapshot.docs);
+};
+
+const fetchExisting = async (
+  db: Firestore,
+  writes: MetricWrite[]
+): Promise<Map<string, QueryDocumentSnapshot[]>> => {
+  const existing = new Map<string, QueryDocumentSnapshot[]>();
+  if (!writes.length) return existing;
+
+  (await fetchForBranches(db, "metrics", writes)).forEach((metricDoc) => {
+    const data = metricDoc.data();
+    if (!(data.date instanceof Timestamp)) return;
+
+    const key = getMetricKey(
+      toSaleDay(data.date.toDate()),
+      data.branchNumber,
+      data.staffCode,
+      Number(data.supplierId),
+      data.type === "return" ? "return" : "sale"
+    );
+    existing.set(key, [...(existing.get(key) || []), metricDoc]);
+  });
+
+  return existing;
+};
+
+const fetchStoreStamps = async (
+  db: Firestore,
+  writes: MetricWrite[]
+): Promise<Map<string, StoreStamp>> => {
+  const snapshots = await Promise.all(chunkBranchNumbers(writes).map((chunk) =>
+    db.collection("stores").where("branchNumber", "in", chunk).get()));
+  const storeDocs = snapshots.flatMap((snapshot) => snapshot.docs);
+  return new Map(storeDocs.map((storeDoc) => [
+    String(storeDoc.data().branchNumber),
+    {storeId: storeDoc.id, regionId: String(storeDoc.data().regionId || "")},
+  ]));
+};
+
+// Product lines from line-level browser imports, grouped by the metric they
+// add up to
+const fetchExistingLines = async (
+  db: Firestore,
+  writes: MetricWrite[]
+): Promise<Map<string, QueryDocumentSnapshot[]>> => {
+  const existing = new Map<string, QueryDocumentSnapshot[]>();
+  if (!writes.length) return existing;
+
+  (await fetchForBranches(db, "salesLines", writes)).forEach((lineDoc) => {
+    const key = lineDoc.data().metricKey;
+    existing.set(key, [...(existing.get(key) || []), lineDoc]);
+  });
+
+  return existing;
+};
+
+/**
+ * Writes parsed rows to metrics the same way the browser import does: one
+ * document per supplier keyed by date, branch, staff code and supplier,
+ * stamped with the import ID and paired with a change record so the import
+ * can be undone. Batches are committed in order and reported as they land.
+ *
+ * @param {Firestore} db The database to write to.
+ * @param {string} importId The import the writes belong to.
+ * @param {ParsedRow[]} rows The rows to write.
+ * @param {Function} onProgress Called with the operations committed so far.
+ * @return {Promise<ImportSummary>} How many metrics were written.
+ */
+export const writeMetrics = async (
+  db: Firestore,
+  importId: string,
+  rows: ParsedRow[],
+  onProgress: (committed: number, total: number) => Promise<void>
+): Promise<ImportSummary> => {
+  const metricsRef = db.collection("metrics");
+  const changesRef = db.collection("importHistory").doc(importId)
+    .collection("changes");
+  const summary: ImportSummary = {inserted: 0, updated: 0, unchanged: 0};
+  const operations: Operation[] = [];
+
+  // Later rows win when the same key appears more than once in a file. A
+  // return row's zero columns are skipped, so they never write a sale
+  const writes = new Map<string, MetricWrite>();
+  rows.forEach((row) => {
+    const date = Timestamp.fromDate(nzMidnight(row.date));
+    const returnRow = isReturnRow(row);
+    Object.entries(row.values).forEach(([id, values]) => {
+      if (returnRow && isZero(values)) return;
+
+      const supplierId = Number(id);
+      const type = getTransactionType(values);
+      const key = getMetricKey(
+        row.date,
+        row.branchNumber,
+        row.staffCode,
+        supplierId,
+        type
+      );
+
+      writes.set(key, {
+        key,
+        type,
+        date,
+        branchNumber: row.branchNumber,
+        staffCode: row.staffCode,
+        supplierId,
+        ...values,
+      });
+    });
+  });
+
+  const [existing, existingLines, stores] = await Promise.all([
+    fetchExisting(db, [...writes.values()]),
+    fetchExistingLines(db, [...writes.values()]),
+    fetchStoreStamps(db, [...writes.values()]),
+  ]);
+  const now = Timestamp.now();
+
+  // Lines no longer add up once a supplier-level file changes the totals
+  const deleteLines = (key: string) => {
+    (existingLines.get(key) || []).forEach((line) => {
+      operations.push({type: "delete", ref: line.ref});
+      operations.push({
+        type: "set",
+        ref: changesRef.doc(line.id),
+        data: {
+          metricId: line.id,
+          collection: "salesLines",
+          action: "delete",
+          before: line.data(),
+        },
+      });
+    });
+  };
+
+  writes.forEach((write) => {
+    const [current, ...duplicates] = existing.get(write.key) || [];
+    const values = {
+      quantity: write.quantity,
+      salesAmount: write.salesAmount,
+      marginAmount: write.marginAmount,
+    };
+    // Branches not yet set up as stores are imported without a region
+    const store = stores.get(write.branchNumber) || {};
+
+    // Remove copies left behind by earlier non-idempotent imports
+    duplicates.forEach((duplicate) => {
+      operations.push({type: "delete", ref: duplicate.ref});
+      operations.push({
+        type: "set",
+        ref: changesRef.doc(duplicate.id),
+        data: {
+          metricId: duplicate.id,
+          action: "delete",
+          before: duplicate.data(),
+        },
+      });
+    });
+
+    if (!current) {
+      operations.push({
+        type: "set",
+        ref: metricsRef.doc(write.key),
+        data: {
+          date: write.date,
+          branchNumber: write.branchNumber,
+          staffCode: write.staffCode,
+          supplierId: write.supplierId,
+          type: write.type,
+          ...store,
+          ...values,
+          importId,
+          createdAt: now,
+        },
+      });
+      operations.push({
+        type: "set",
+        ref: changesRef.doc(write.key),
+        data: {metricId: write.key, action: "insert"},
+      });
+      deleteLines(write.key);
+      summary.inserted++;
+      return;
+    }
+
+    const before = current.data();
+    const unchanged = Number(before.quantity) === values.quantity &&
+      Number(before.salesAmount) === values.salesAmount &&
+      Number(before.marginAmount) === values.marginAmount;
+    if (unchanged && !duplicates.length) {
+      summary.unchanged++;
+      return;
+    }
+
+    // A metric keeps the region it was first stamped with, so a re-import
+    // after a store moves region doesn't restate history; older metrics gain
+    // one
+    const stamp = before.regionId ? {} : store;
+    operations.push({
+      type: "update",
+      ref: current.ref,
+      data: {...stamp, ...values, importId, updatedAt: now},
+    });
+    operations.push({
+      type: "set",
+      ref: changesRef.doc(current.id),
+      data: {metricId: current.id, action: "update", before},
+    });
+    deleteLines(write.key);
+    summary.updated++;
+  });
+
+  for (let start = 0; start < operations.length; start += BATCH_SIZE) {
+    const batch = db.batch();
+    operations.slice(start, start + BATCH_SIZE).forEach((operation) => {
+      switch (operation.type) {
+      case "set":
+        batch.set(operation.ref, operation.data);
+        break;
+      case "update":
+        batch.update(operation.ref, operation.data);
+        break;
+      case "delete":
+        batch.delete(operation.ref);
+        break;
+      }
+    });
+    await batch.commit();
+    await onProgress(
+      Math.min(start + BATCH_SIZE, operations.length),
+      operations.length
+    );
+  }
+
+  return summary;
+};
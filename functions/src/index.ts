@@ -1,6 +1,10 @@
-import { initializeApp } from 'firebase-admin/app';
-import { verifyAdmin } from "./auth/verification";
-import { createUser } from "./auth/admin";
+import {initializeApp} from "firebase-admin/app";
+import {verifyAdmin} from "./auth/verification";
+import {createUser} from "./auth/admin";
+import {processImportUpload} from "./imports/processImport";
+import {scheduledDropFolderImport} from "./imports/scheduledImport";
+import {onMetricWritten} from "./rollups/onMetricWritten";
+import {onStoreWritten} from "./stores/onStoreWritten";
 
 // Initialize Firebase Admin
 initializeApp();
@@ -8,5 +12,9 @@ initializeApp();
 // Export Cloud Functions
 export {
   verifyAdmin,
-  createUser
-};
\ No newline at end of file
+  createUser,
+  processImportUpload,
+  scheduledDropFolderImport,
+  onMetricWritten,
+  onStoreWritten,
+};
@@ -0,0 +1,124 @@
+import {
+  Firestore,
+  FieldValue,
+  Query,
+  QueryDocumentSnapshot,
+  Timestamp,
+} from "firebase-admin/firestore";
+import {logOperation} from "../utils/logging";
+import {nzMidnight, toSaleDay} from "../imports/writer";
+import {
+  ROLLUP_COLLECTIONS,
+  RollupContribution,
+  getMetricValues,
+  getRegionId,
+  getRollupTargets,
+  loadStoreRegions,
+  mergeContributions,
+} from "./rollups";
+
+const PAGE_SIZE = 1000;
+
+export interface BackfillOptions {
+  // Months to rebuild; every month with metrics when unset
+  start?: Date;
+  end?: Date;
+}
+
+export interface BackfillResult {
+  metrics: number;
+  rollups: number;
+  deleted: number;
+}
+
+// Widens the range to whole New Zealand months so monthly rollups are
+// rebuilt complete
+const toMonthRange = ({start, end}: BackfillOptions) => {
+  const startDay = start && toSaleDay(start);
+  const endDay = end && toSaleDay(end);
+  return {
+    start: startDay && Timestamp.fromDate(nzMidnight({...startDay, day: 1})),
+    end: endDay && Timestamp.fromDate(nzMidnight(endDay.month === 12 ?
+      {year: endDay.year + 1, month: 1, day: 1} :
+      {year: endDay.year, month: endDay.month + 1, day: 1})),
+  };
+};
+
+const inRange = (
+  query: Query,
+  range: ReturnType<typeof toMonthRange>
+): Query => {
+  let ranged = query;
+  if (range.start) ranged = ranged.where("date", ">=", range.start);
+  if (range.end) ranged = ranged.where("date", "<", range.end);
+  return ranged.orderBy("date");
+};
+
+/**
+ * Rebuilds the daily and monthly rollups from the raw metrics, for history
+ * imported before the rollup trigger existed or to repair drift. Existing
+ * rollups in the range are replaced. Run it while no imports are in progress,
+ * since metrics written during the rebuild may be counted twice.
+ *
+ * @param {Firestore} db The database to rebuild.
+ * @param {BackfillOptions} options The months to rebuild.
+ * @return {Promise<BackfillResult>} What was read, written and deleted.
+ */
+export const rebuildRollups = async (
+  db: Firestore,
+  options: BackfillOptions = {}
+): Promise<BackfillResult> => {
+  const range = toMonthRange(options);
+  const storeRegions = await loadStoreRegions(db);
+  const totals = new Map<string, RollupContribution>();
+  const writer = db.bulkWriter();
+  const result: BackfillResult = {metrics: 0, rollups: 0, deleted: 0};
+
+  logOperation("rebuildRollups", "start", {
+    start: range.start?.toDate().toISOString(),
+    end: range.end?.toDate().toISOString(),
+  });
+
+  for (const collection of Object.values(ROLLUP_COLLECTIONS)) {
+    const snapshot = await inRange(db.collection(collection), range)
+      .select()
+      .get();
+    snapshot.docs.forEach((rollupDoc) => {
+      writer.delete(rollupDoc.ref);
+      result.deleted++;
+    });
+  }
+  await writer.flush();
+
+  let last: QueryDocumentSnapshot | undefined;
+  for (;;) {
+    let page = inRange(db.collection("metrics"), range).limit(PAGE_SIZE);
+    if (last) page = page.startAfter(last);
+    const snapshot = await page.get();
+    if (snapshot.empty) break;
+
+    snapshot.docs.forEach((metricDoc) => {
+      const metric = metricDoc.data();
+      mergeContributions(
+        totals,
+        getRollupTargets(metric, getRegionId(metric, storeRegions)),
+        getMetricValues(metric)
+      );
+      result.metrics++;
+    });
+    last = snapshot.docs[snapshot.docs.length - 1];
+  }
+
+  totals.forEach(({collection, id, fields, values}) => {
+    writer.set(db.collection(collection).doc(id), {
+      ...fields,
+      ...values,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    result.rollups++;
+  });
+  await writer.close();
+
+  logOperation("rebuildRollups", "success", result);
+  return result;
+};
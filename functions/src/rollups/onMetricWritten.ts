@@ -0,0 +1,104 @@
+import {onDocumentWritten} from "firebase-functions/v2/firestore";
+import {getFirestore, FieldValue, Timestamp} from "firebase-admin/firestore";
+import {logOperation} from "../utils/logging";
+import {
+  RollupContribution,
+  getMetricValues,
+  getRegionId,
+  getRollupTargets,
+  loadStoreRegions,
+  mergeContributions,
+} from "./rollups";
+
+// Redelivery happens within minutes, so an event's record can go after a week.
+// A TTL policy on expireAt (see firestore.indexes.json) removes it.
+const EVENT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Keeps the daily and monthly rollups in step with metrics. The old values of
+ * a changed or deleted metric are taken off and the new ones added, so
+ * imports, undos and corrections all flow through. Events can be delivered
+ * more than once, so each one is recorded under rollupEvents and applied only
+ * the first time. That also makes retries safe: many metrics share the same
+ * region and national rollups, so a transaction can fail on contention and an
+ * event that is not retried would leave the rollups out of step for good.
+ */
+export const onMetricWritten = onDocumentWritten(
+  {document: "metrics/{metricId}", retry: true},
+  async (event) => {
+    const before = event.data?.before.exists ?
+      event.data.before.data() :
+      undefined;
+    const after = event.data?.after.exists ?
+      event.data.after.data() :
+      undefined;
+    const db = getFirestore();
+
+    const unstamped = [before, after]
+      .filter((metric) => metric && !metric.regionId);
+    const branchNumbers = unstamped
+      .map((metric) => String(metric?.branchNumber));
+    const storeRegions = unstamped.length ?
+      await loadStoreRegions(db, [...new Set(branchNumbers)]) :
+      new Map<string, string>();
+
+    // A metric stamped with a region for the first time was already counted
+    // under it, so stamping alone moves no totals
+    const firstStamped = before && !before.regionId && after?.regionId;
+
+    const totals = new Map<string, RollupContribution>();
+    if (before) {
+      const beforeRegion = firstStamped ?
+        String(after?.regionId) :
+        getRegionId(before, storeRegions);
+      mergeContributions(
+        totals,
+        getRollupTargets(before, beforeRegion),
+        getMetricValues(before, -1)
+      );
+    }
+    if (after) {
+      mergeContributions(
+        totals,
+        getRollupTargets(after, getRegionId(after, storeRegions)),
+        getMetricValues(after)
+      );
+    }
+
+    // An update that only touched fields like importId leaves every total
+    // as it was
+    const changes = [...totals.values()].filter(({values}) =>
+      values.quantity || values.salesAmount || values.marginAmount ||
+      values.metricCount);
+    if (!changes.length) return;
+
+    const eventRef = db.collection("rollupEvents").doc(event.id);
+    const applied = await db.runTransaction(async (transaction) => {
+      if ((await transaction.get(eventRef)).exists) return false;
+
+      changes.forEach(({collection, id, fields, values}) => {
+        transaction.set(db.collection(collection).doc(id), {
+          ...fields,
+          quantity: FieldValue.increment(values.quantity),
+          salesAmount: FieldValue.increment(values.salesAmount),
+          marginAmount: FieldValue.increment(values.marginAmount),
+          metricCount: FieldValue.increment(values.metricCount),
+          updatedAt: FieldValue.serverTimestamp(),
+        }, {merge: true});
+      });
+      transaction.set(eventRef, {
+        metricId: event.params.metricId,
+        createdAt: FieldValue.serverTimestamp(),
+        expireAt: Timestamp.fromMillis(Date.now() + EVENT_TTL_MS),
+      });
+      return true;
+    });
+
+    if (!applied) {
+      logOperation("onMetricWritten", "info", {
+        eventId: event.id,
+        message: "Event already applied",
+      });
+    }
+  }
+);
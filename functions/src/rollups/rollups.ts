@@ -0,0 +1,187 @@
+import {DocumentData, Firestore, Timestamp} from "firebase-admin/firestore";
+import {SaleDay} from "../imports/parser";
+import {nzMidnight, toSaleDay} from "../imports/writer";
+
+export type RollupPeriod = "day" | "month";
+export type RollupScope = "staff" | "store" | "region" | "all";
+
+export const ROLLUP_COLLECTIONS: Record<RollupPeriod, string> = {
+  day: "rollupsDaily",
+  month: "rollupsMonthly",
+};
+
+// Rollups are kept per supplier and per sale or return, and a metrics document
+// is already one staff member's sales or returns for one supplier at one store
+// on one day. A staff day rollup would copy each metric, so staff totals start
+// at the month.
+const PERIOD_SCOPES: Record<RollupPeriod, RollupScope[]> = {
+  day: ["store", "region", "all"],
+  month: ["staff", "store", "region", "all"],
+};
+
+export interface RollupValues {
+  quantity: number;
+  salesAmount: number;
+  marginAmount: number;
+  metricCount: number;
+}
+
+// One rollup document a metric adds to, with the fields that identify it
+export interface RollupTarget {
+  collection: string;
+  id: string;
+  fields: DocumentData;
+}
+
+export interface RollupContribution extends RollupTarget {
+  values: RollupValues;
+}
+
+// What identifies a scope's rollup document, and the fields stored on it
+interface ScopeKey {
+  ids: string[];
+  fields: DocumentData;
+}
+
+const pad = (value: number): string => String(value).padStart(2, "0");
+
+const getPeriodKey = (period: RollupPeriod, day: SaleDay): string =>
+  period === "day" ?
+    `${day.year}-${pad(day.month)}-${pad(day.day)}` :
+    `${day.year}-${pad(day.month)}`;
+
+const getPeriodStart = (period: RollupPeriod, day: SaleDay): Timestamp =>
+  Timestamp.fromDate(nzMidnight(period === "day" ? day : {...day, day: 1}));
+
+/**
+ * The rollup documents one metrics document counts towards: its day and month
+ * at each scope. Metrics from a store with no region are left out of the
+ * region rollups but still count towards the store and national totals.
+ *
+ * @param {DocumentData} metric The metrics document.
+ * @param {string} regionId The region the metric counts under, if any.
+ * @return {RollupTarget[]} One target per period and scope.
+ */
+export const getRollupTargets = (
+  metric: DocumentData,
+  regionId: string
+): RollupTarget[] => {
+  if (!(metric.date instanceof Timestamp)) return [];
+
+  const day = toSaleDay(metric.date.toDate());
+  const supplierId = Number(metric.supplierId);
+  const type = metric.type === "return" ? "return" : "sale";
+  const branchNumber = String(metric.branchNumber || "");
+  const staffCode = String(metric.staffCode || "");
+
+  const scopes: Record<RollupScope, ScopeKey | null> = {
+    staff: {
+      ids: [branchNumber, staffCode],
+      fields: {branchNumber, staffCode, regionId},
+    },
+    store: {ids: [branchNumber], fields: {branchNumber, regionId}},
+    region: regionId ? {ids: [regionId], fields: {regionId}} : null,
+    all: {ids: [], fields: {}},
+  };
+
+  return (Object.keys(PERIOD_SCOPES) as RollupPeriod[]).flatMap((period) =>
+    PERIOD_SCOPES[period].flatMap((scope) => {
+      const scopeKey = scopes[scope];
+      if (!scopeKey) return [];
+
+      const periodKey = getPeriodKey(period, day);
+      const id = [
+        periodKey,
+        scope,
+        ...scopeKey.ids,
+        supplierId,
+        ...(type === "return" ? [type] : []),
+      ]
+        .map((part) => encodeURIComponent(String(part)))
+        .join("_");
+
+      return [{
+        collection: ROLLUP_COLLECTIONS[period],
+        id,
+        fields: {
+          period,
+          periodKey,
+          date: getPeriodStart(period, day),
+          scope,
+          ...scopeKey.fields,
+          supplierId,
+          type,
+        },
+      }];
+    })
+  );
+};
+
+export const getMetricValues = (
+  metric: DocumentData,
+  sign: 1 | -1 = 1
+): RollupValues => ({
+  quantity: sign * (Number(metric.quantity) || 0),
+  salesAmount: sign * (Number(metric.salesAmount) || 0),
+  marginAmount: sign * (Number(metric.marginAmount) || 0),
+  metricCount: sign,
+});
+
+/**
+ * Adds each contribution to the running totals of its rollup document,
+ * merging contributions to the same document.
+ *
+ * @param {Map<string, RollupContribution>} totals Running totals by document.
+ * @param {RollupTarget[]} targets The documents the values count towards.
+ * @param {RollupValues} values The values to add to each target.
+ */
+export const mergeContributions = (
+  totals: Map<string, RollupContribution>,
+  targets: RollupTarget[],
+  values: RollupValues
+): void => {
+  targets.forEach((target) => {
+    const key = `${target.collection}/${target.id}`;
+    const total = totals.get(key) || {
+      ...target,
+      values: {quantity: 0, salesAmount: 0, marginAmount: 0, metricCount: 0},
+    };
+    total.values.quantity += values.quantity;
+    total.values.salesAmount += values.salesAmount;
+    total.values.marginAmount += values.marginAmount;
+    total.values.metricCount += values.metricCount;
+    totals.set(key, total);
+  });
+};
+
+/**
+ * Region of each store by branch number, for every store or just the given
+ * branches. Metrics stamped with a region keep it; older metrics take their
+ * store's current region.
+ *
+ * @param {Firestore} db The database to read stores from.
+ * @param {string[]} branchNumbers Branches to look up; every store when unset.
+ * @return {Promise<Map<string, string>>} Region ID by branch number.
+ */
+export const loadStoreRegions = async (
+  db: Firestore,
+  branchNumbers?: string[]
+): Promise<Map<string, string>> => {
+  const stores = db.collection("stores");
+  const query = branchNumbers ?
+    stores.where("branchNumber", "in", branchNumbers) :
+    stores;
+  const snapshot = await query.get();
+  return new Map(snapshot.docs.map((storeDoc) => {
+    const data = storeDoc.data();
+    return [String(data.branchNumber), String(data.regionId || "")];
+  }));
+};
+
+export const getRegionId = (
+  metric: DocumentData,
+  storeRegions: Map<string, string>
+): string =>
+  String(
+    metric.regionId || storeRegions.get(String(metric.branchNumber)) || ""
+  );
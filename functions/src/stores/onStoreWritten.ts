@@ -0,0 +1,84 @@
+import {onDocumentWritten} from "firebase-functions/v2/firestore";
+import {
+  getFirestore,
+  DocumentData,
+  QueryDocumentSnapshot,
+} from "firebase-admin/firestore";
+import {logOperation} from "../utils/logging";
+
+/**
+ * What happens to a store's past metrics when it moves region:
+ * - keep: sales stay with the region the store was in when they were made.
+ *   This is the default, so past regional totals don't change after the fact.
+ * - restate: all of the store's history moves to the new region, as if it had
+ *   always been there.
+ */
+export type RegionMovePolicy = "keep" | "restate";
+
+const getRegionMovePolicy = (): RegionMovePolicy =>
+  process.env.REGION_MOVE_POLICY === "restate" ? "restate" : "keep";
+
+const stampMetrics = async (
+  metrics: QueryDocumentSnapshot[],
+  getStamp: (metric: DocumentData) => DocumentData | null
+): Promise<number> => {
+  const writer = getFirestore().bulkWriter();
+  let stamped = 0;
+  metrics.forEach((metricDoc) => {
+    const stamp = getStamp(metricDoc.data());
+    if (!stamp) return;
+    writer.update(metricDoc.ref, stamp);
+    stamped++;
+  });
+  await writer.close();
+  return stamped;
+};
+
+/**
+ * Applies the region move policy to a store's metrics when its region changes.
+ * Metrics not yet stamped are first frozen under the old region, which is the
+ * one the rollups counted them under, so either policy starts from a region
+ * on every metric. The rollup trigger then moves the totals of any metric
+ * whose region changes.
+ */
+export const onStoreWritten = onDocumentWritten(
+  "stores/{storeId}",
+  async (event) => {
+    const before = event.data?.before.exists ?
+      event.data.before.data() :
+      undefined;
+    const after = event.data?.after.exists ?
+      event.data.after.data() :
+      undefined;
+    if (!before || !after) return;
+
+    const from = String(before.regionId || "");
+    const to = String(after.regionId || "");
+    if (from === to) return;
+
+    const storeId = event.params.storeId;
+    const policy = getRegionMovePolicy();
+    const snapshot = await getFirestore().collection("metrics")
+      .where("branchNumber", "==", String(after.branchNumber))
+      .get();
+
+    const frozen = from ?
+      await stampMetrics(snapshot.docs, (metric) =>
+        metric.regionId ? null : {storeId, regionId: from}) :
+      0;
+
+    const restated = policy === "restate" ?
+      await stampMetrics(snapshot.docs, (metric) =>
+        (metric.regionId || from) === to ? null : {storeId, regionId: to}) :
+      0;
+
+    logOperation("onStoreWritten", "success", {
+      storeId,
+      from,
+      to,
+      policy,
+      frozen,
+      restated,
+    });
+  }
+);
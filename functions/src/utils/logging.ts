@@ -0,0 +1,22 @@
+import {logger} from "firebase-functions/v2";
+
+type LogStatus = "start" | "success" | "info" | "warning" | "error" | string;
+
+export const logOperation = (
+  operation: string,
+  status: LogStatus,
+  details?: unknown
+): void => {
+  const entry = {operation, status, details};
+
+  switch (status) {
+  case "error":
+    logger.error(`${operation}: ${status}`, entry);
+    break;
+  case "warning":
+    logger.warn(`${operation}: ${status}`, entry);
+    break;
+  default:
+    logger.info(`${operation}: ${status}`, entry);
+  }
+};
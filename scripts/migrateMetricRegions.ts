@@ -0,0 +1,62 @@
+import { migrateMetricRegions } from '../src/utils/migration/metricRegionMigration';
+import { MetricMigrationResult } from '../src/utils/migration/types';
+import * as dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+const printResult = (result: MetricMigrationResult) => {
+  console.log(`Metrics scanned: ${result.scannedCount}`);
+  console.log(`Metrics to stamp: ${result.migratedCount}`);
+
+  if (result.unmatchedBranches.length > 0) {
+    console.log('\nBranches with no store (left unstamped):');
+    result.unmatchedBranches.forEach(branchNumber => {
+      console.log(`- ${branchNumber}`);
+    });
+  }
+};
+
+const runMigration = async () => {
+  try {
+    console.log('Starting metric region migration...');
+
+    // First do a dry run
+    console.log('\nStarting dry run...');
+    const dryRunResult = await migrateMetricRegions({ dryRun: true });
+
+    console.log('\nDry run results:');
+    printResult(dryRunResult);
+
+    // Prompt for confirmation
+    const proceed = await promptConfirmation();
+    if (!proceed) {
+      console.log('Migration cancelled');
+      process.exit(0);
+    }
+
+    // Perform actual migration
+    console.log('\nStarting migration...');
+    const result = await migrateMetricRegions();
+
+    console.log('\nMigration complete:');
+    printResult(result);
+
+    process.exit(0);
+  } catch (error) {
+    console.error('Migration failed:', error);
+    process.exit(1);
+  }
+};
+
+const promptConfirmation = async (): Promise<boolean> => {
+  return new Promise(resolve => {
+    process.stdout.write('\nProceed with migration? (y/N): ');
+    process.stdin.once('data', data => {
+      const input = data.toString().trim().toLowerCase();
+      resolve(input === 'y' || input === 'yes');
+    });
+  });
+};
+
+runMigration();
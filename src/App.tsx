@@ -13,8 +13,11 @@ import { SalespeopleList } from './components/Admin/Salespeople/SalespeopleList'
 import { StoresList } from './components/Admin/Stores/StoresList';
 import { RegionsList } from './components/Admin/Regions/RegionsList';
 import { RegionMetrics } from './components/Admin/Metrics/RegionMetrics';
+import { StoreMetrics } from './components/Admin/Metrics/StoreMetrics';
 import { SalespersonMetrics } from './components/Admin/Metrics/SalespersonMetrics';
 import { ImportDataPage } from './components/Admin/ImportData/ImportDataPage';
+import { SuppliersList } from './components/Admin/Suppliers/SuppliersList';
+import { TargetsList } from './components/Admin/Targets/TargetsList';
 import { AuthRequestList } from './components/Admin/Auth/AuthRequestList';
 import { UserManagement } from './components/Admin/Auth/UserManagement';
 
@@ -34,6 +37,8 @@ const App: React.FC = () => {
         <Route path="admin/users" element={<UserManagement />} />
         <Route path="admin/auth-requests" element={<AuthRequestList />} />
         <Route path="admin/import" element={<ImportDataPage />} />
+        <Route path="admin/suppliers" element={<SuppliersList />} />
+        <Route path="admin/targets" element={<TargetsList />} />
 
         <Route path="regional" element={<RegionalDashboard />} />
         <Route path="dashboard" element={<TeamMemberDashboard />} />
@@ -42,6 +47,7 @@ const App: React.FC = () => {
         <Route path="stores" element={<StoresList />} />
         <Route path="regions" element={<RegionsList />} />
         <Route path="metrics/regions" element={<RegionMetrics />} />
+        <Route path="metrics/stores" element={<StoreMetrics />} />
         <Route path="metrics/salespeople" element={<SalespersonMetrics />} />
       </Route>
     </Routes>
@@ -1,14 +1,195 @@
-import React from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { SalesMetrics, Store, Region } from '../../types';
+import { ImportHistoryEntry } from '../../types/import';
+import { fetchStores } from '../../services/stores';
+import { fetchRegions } from '../../services/regions';
+import { getRecentImports } from '../../services/importHistory';
+import {
+  NationalTotals,
+  Inactivity,
+  fetchNationalTotals,
+  fetchMonthToDateBreakdown,
+  fetchLatestMetricDate,
+  fetchInactivity
+} from '../../services/adminOverview';
+import { useAuthRequestCount } from '../../hooks/useAuthRequestCount';
+import { calculateAttachmentRate } from '../../utils/calculationUtils';
+import { rankParticipants, toRankingParticipant } from '../../utils/rankingUtils';
+import { formatCurrency } from '../../utils/formatting/index';
+import { KPITile } from './Dashboard/KPITile';
+import { Leaderboard } from './Dashboard/Leaderboard';
+import { OperationalHealth, INACTIVE_DAY_OPTIONS } from './Dashboard/OperationalHealth';
+
+const sumOf = (metrics: SalesMetrics[], field: 'salesAmount' | 'marginAmount') =>
+  metrics.reduce((sum, metric) => sum + metric[field], 0);
+
+const percentChange = (current: number, previous: number) => {
+  const value = previous === 0 ? 0 : (current - previous) / Math.abs(previous) * 100;
+  return { value, label: `${Math.abs(value).toFixed(1)}%` };
+};
+
+// Ranks stores or regions by month-to-date net sales, every one listed even without sales
+const rankBy = (
+  metrics: SalesMetrics[],
+  participants: Array<{ id: string; name: string; key: string }>,
+  getKey: (metric: SalesMetrics) => string | undefined
+) => {
+  const byKey = new Map<string, SalesMetrics[]>();
+  metrics.forEach(metric => {
+    const key = getKey(metric) || '';
+    byKey.set(key, [...(byKey.get(key) || []), metric]);
+  });
+  return rankParticipants(
+    participants.map(({ id, name, key }) => toRankingParticipant(id, name, byKey.get(key) || [])),
+    'netSales',
+    0
+  );
+};
 
 export const AdminDashboard: React.FC = () => {
+  const { count: pendingRequests } = useAuthRequestCount();
+  const [stores, setStores] = useState<Store[]>([]);
+  const [regions, setRegions] = useState<Region[]>([]);
+  const [totals, setTotals] = useState<NationalTotals | null>(null);
+  const [breakdown, setBreakdown] = useState<{ stores: SalesMetrics[]; regions: SalesMetrics[] }>({
+    stores: [],
+    regions: []
+  });
+  const [latestMetricDate, setLatestMetricDate] = useState<Date | null>(null);
+  const [latestImport, setLatestImport] = useState<ImportHistoryEntry | null>(null);
+  const [inactiveDays, setInactiveDays] = useState(INACTIVE_DAY_OPTIONS[0]);
+  const [inactivity, setInactivity] = useState<Inactivity | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadData = async () => {
+      try {
+        setLoading(true);
+        const [storesData, regionsData, totalsData, breakdownData, latestDate, imports] = await Promise.all([
+          fetchStores(),
+          fetchRegions(),
+          fetchNationalTotals(),
+          fetchMonthToDateBreakdown(),
+          fetchLatestMetricDate(),
+          getRecentImports()
+        ]);
+
+        setStores(storesData);
+        setRegions(regionsData);
+        setTotals(totalsData);
+        setBreakdown(breakdownData);
+        setLatestMetricDate(latestDate);
+        setLatestImport(imports[0] || null);
+        setError(null);
+      } catch (err) {
+        setError('Failed to load dashboard data');
+        console.error('Error loading admin dashboard:', err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadData();
+  }, []);
+
+  useEffect(() => {
+    const loadInactivity = async () => {
+      if (!stores.length) return;
+
+      try {
+        setInactivity(null);
+        setInactivity(await fetchInactivity(stores, inactiveDays));
+      } catch (err) {
+        console.error('Error loading inactivity:', err);
+      }
+    };
+
+    loadInactivity();
+  }, [stores, inactiveDays]);
+
+  const storeRankings = useMemo(() => rankBy(
+    breakdown.stores,
+    stores.map(store => ({ id: store.id, name: store.name, key: store.branchNumber })),
+    metric => metric.branchNumber
+  ), [breakdown.stores, stores]);
+
+  const regionRankings = useMemo(() => rankBy(
+    breakdown.regions,
+    regions.map(region => ({ id: region.id, name: region.name, key: region.id })),
+    metric => metric.regionId
+  ), [breakdown.regions, regions]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-48">
+        <div className="text-gray-600">Loading dashboard...</div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-50 p-4 rounded-md">
+        <div className="text-red-700">{error}</div>
+      </div>
+    );
+  }
+
+  const current = totals?.current || [];
+  const previous = totals?.previous || [];
+  const attachmentRate = calculateAttachmentRate(current);
+  const attachmentChange = attachmentRate - calculateAttachmentRate(previous);
+
   return (
-    <div className="min-h-screen bg-gray-100">
-      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        <h1 className="text-2xl font-semibold text-gray-900 mb-6">Admin Dashboard</h1>
-        <div className="bg-white rounded-lg shadow p-6">
-          <p>Welcome to the admin dashboard. Use the sidebar to navigate between different sections.</p>
-        </div>
+    <div className="space-y-6">
+      <h1 className="text-2xl font-semibold text-gray-900">Admin Dashboard</h1>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <KPITile
+          title="National Net Sales (MTD)"
+          value={formatCurrency(sumOf(current, 'salesAmount'))}
+          change={percentChange(sumOf(current, 'salesAmount'), sumOf(previous, 'salesAmount'))}
+          comparisonLabel="vs same days last month"
+          to="/metrics/stores"
+        />
+        <KPITile
+          title="National Margin (MTD)"
+          value={formatCurrency(sumOf(current, 'marginAmount'))}
+          change={percentChange(sumOf(current, 'marginAmount'), sumOf(previous, 'marginAmount'))}
+          comparisonLabel="vs same days last month"
+          to="/metrics/stores"
+        />
+        <KPITile
+          title="National Attachment Rate (MTD)"
+          value={`${attachmentRate.toFixed(2)}%`}
+          change={{ value: attachmentChange, label: `${Math.abs(attachmentChange).toFixed(1)} pts` }}
+          comparisonLabel="vs same days last month"
+          to="/metrics/regions"
+        />
       </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Leaderboard
+          title="Stores This Month"
+          entries={storeRankings}
+          getLink={entry => `/metrics/stores?storeId=${entry.id}`}
+        />
+        <Leaderboard
+          title="Regions This Month"
+          entries={regionRankings}
+          getLink={entry => `/metrics/regions?regionId=${entry.id}`}
+        />
+      </div>
+
+      <OperationalHealth
+        latestMetricDate={latestMetricDate}
+        latestImport={latestImport}
+        pendingRequests={pendingRequests}
+        inactivity={inactivity}
+        inactiveDays={inactiveDays}
+        onInactiveDaysChange={setInactiveDays}
+      />
     </div>
   );
-};
\ No newline at end of file
+};
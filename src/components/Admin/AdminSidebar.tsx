@@ -9,6 +9,8 @@ import {
   Upload,
   UserPlus,
   Settings,
+  Truck,
+  Target,
   LogOut 
 } from 'lucide-react';
 import { UserProfile } from '../../types/auth';
@@ -52,6 +54,8 @@ export const AdminSidebar: React.FC<AdminSidebarProps> = ({
           badge: requestCount
         },
         { icon: Upload, label: 'Import Data', path: '/admin/import' },
+        { icon: Truck, label: 'Suppliers', path: '/admin/suppliers' },
+        { icon: Target, label: 'KPI Targets', path: '/admin/targets' },
       );
     }
 
@@ -78,6 +82,7 @@ export const AdminSidebar: React.FC<AdminSidebarProps> = ({
         path: '/metrics/regions',
         subItems: [
           { label: 'By Region', path: '/metrics/regions' },
+          { label: 'By Store', path: '/metrics/stores' },
           { label: 'By Team Member', path: '/metrics/salespeople' }
         ]
       });
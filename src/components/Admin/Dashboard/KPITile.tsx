@@ -0,0 +1,32 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { TrendingUp, TrendingDown } from 'lucide-react';
+
+interface KPITileProps {
+  title: string;
+  value: string;
+  // Change against the comparison period, already formatted; its sign picks the colour
+  change?: { value: number; label: string };
+  comparisonLabel: string;
+  to: string;
+}
+
+export const KPITile: React.FC<KPITileProps> = ({ title, value, change, comparisonLabel, to }) => (
+  <Link to={to} className="block bg-white rounded-lg shadow p-6 hover:shadow-md transition-shadow">
+    <p className="text-sm text-gray-600">{title}</p>
+    <p className="text-2xl font-bold mt-1">{value}</p>
+    {change && (
+      <p className="flex items-center text-sm mt-2">
+        <span className={change.value >= 0 ? 'text-green-600' : 'text-red-600'}>
+          {change.value >= 0 ? (
+            <TrendingUp className="w-4 h-4 inline mr-1" />
+          ) : (
+            <TrendingDown className="w-4 h-4 inline mr-1" />
+          )}
+          {change.label}
+        </span>
+        <span className="text-gray-500 ml-2">{comparisonLabel}</span>
+      </p>
+    )}
+  </Link>
+);
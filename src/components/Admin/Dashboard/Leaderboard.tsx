@@ -0,0 +1,59 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { RankingDetails } from '../../../types';
+import { formatCurrency } from '../../../utils/formatting/index';
+
+interface LeaderboardProps {
+  title: string;
+  // Ranked best first
+  entries: RankingDetails[];
+  getLink: (entry: RankingDetails) => string;
+  size?: number;
+}
+
+const LeaderboardList: React.FC<{
+  heading: string;
+  entries: RankingDetails[];
+  getLink: (entry: RankingDetails) => string;
+}> = ({ heading, entries, getLink }) => (
+  <div>
+    <h4 className="text-xs font-medium text-gray-500 uppercase mb-2">{heading}</h4>
+    <ul className="divide-y divide-gray-100">
+      {entries.map(entry => (
+        <li key={entry.id}>
+          <Link to={getLink(entry)} className="flex items-center justify-between py-2 text-sm hover:bg-gray-50">
+            <span>
+              <span className="text-gray-400 mr-2">#{entry.rank}</span>
+              {entry.name}
+            </span>
+            <span className="text-right">
+              <span className="font-medium">{formatCurrency(entry.netSales)}</span>
+              <span className="text-xs text-gray-500 ml-2">{entry.attachmentRate.toFixed(0)}% attach</span>
+            </span>
+          </Link>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+// The best and worst performers by net sales; the bottom list only appears once they don't overlap
+export const Leaderboard: React.FC<LeaderboardProps> = ({ title, entries, getLink, size = 5 }) => (
+  <div className="bg-white rounded-lg shadow p-6">
+    <h3 className="text-lg font-medium text-gray-900 mb-4">{title}</h3>
+    {entries.length === 0 ? (
+      <p className="text-sm text-gray-500 italic">No sales this month yet.</p>
+    ) : (
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <LeaderboardList heading={`Top ${size}`} entries={entries.slice(0, size)} getLink={getLink} />
+        {entries.length > size && (
+          <LeaderboardList
+            heading={`Bottom ${Math.min(size, entries.length - size)}`}
+            entries={entries.slice(Math.max(size, entries.length - size)).reverse()}
+            getLink={getLink}
+          />
+        )}
+      </div>
+    )}
+  </div>
+);
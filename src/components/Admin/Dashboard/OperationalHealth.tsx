@@ -0,0 +1,139 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Database, Upload, UserPlus, AlertTriangle } from 'lucide-react';
+import { ImportHistoryEntry } from '../../../types/import';
+import { Inactivity } from '../../../services/adminOverview';
+import { CURRENT_DATE } from '../../../utils/dateUtils/constants';
+
+// Choices for how long without a sale counts as inactive
+export const INACTIVE_DAY_OPTIONS = [7, 14, 30];
+
+interface OperationalHealthProps {
+  latestMetricDate: Date | null;
+  latestImport: ImportHistoryEntry | null;
+  pendingRequests: number;
+  inactivity: Inactivity | null;
+  inactiveDays: number;
+  onInactiveDaysChange: (days: number) => void;
+}
+
+const daysAgo = (date: Date): string => {
+  const days = Math.floor((CURRENT_DATE.getTime() - date.getTime()) / 86400000);
+  if (days <= 0) return 'today';
+  return days === 1 ? 'yesterday' : `${days} days ago`;
+};
+
+const HealthTile: React.FC<{
+  icon: React.ReactNode;
+  title: string;
+  to: string;
+  children: React.ReactNode;
+}> = ({ icon, title, to, children }) => (
+  <Link to={to} className="flex items-start gap-3 bg-white rounded-lg shadow p-4 hover:shadow-md transition-shadow">
+    <div className="p-2 bg-blue-50 rounded-full">{icon}</div>
+    <div>
+      <p className="text-sm text-gray-600">{title}</p>
+      {children}
+    </div>
+  </Link>
+);
+
+export const OperationalHealth: React.FC<OperationalHealthProps> = ({
+  latestMetricDate,
+  latestImport,
+  pendingRequests,
+  inactivity,
+  inactiveDays,
+  onInactiveDaysChange
+}) => (
+  <div className="space-y-4">
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <HealthTile icon={<Database className="w-5 h-5 text-blue-600" />} title="Newest Sales Data" to="/metrics/stores">
+        {latestMetricDate ? (
+          <>
+            <p className="text-lg font-semibold">{latestMetricDate.toLocaleDateString()}</p>
+            <p className="text-xs text-gray-500">{daysAgo(latestMetricDate)}</p>
+          </>
+        ) : (
+          <p className="text-lg font-semibold">No data</p>
+        )}
+      </HealthTile>
+
+      <HealthTile icon={<Upload className="w-5 h-5 text-blue-600" />} title="Last Import" to="/admin/import">
+        {latestImport ? (
+          <>
+            <p className="text-lg font-semibold truncate max-w-[14rem]">{latestImport.fileName}</p>
+            <p className={`text-xs ${latestImport.success ? 'text-gray-500' : 'text-red-600'}`}>
+              {latestImport.success ? 'Succeeded' : 'Failed'} {daysAgo(latestImport.timestamp)}
+              {latestImport.undoneAt && ' (undone)'}
+            </p>
+          </>
+        ) : (
+          <p className="text-lg font-semibold">None yet</p>
+        )}
+      </HealthTile>
+
+      <HealthTile icon={<UserPlus className="w-5 h-5 text-blue-600" />} title="Pending Access Requests" to="/admin/auth-requests">
+        <p className="text-lg font-semibold">{pendingRequests}</p>
+      </HealthTile>
+    </div>
+
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center">
+          <AlertTriangle className="w-5 h-5 text-yellow-500 mr-2" />
+          <h3 className="text-lg font-medium text-gray-900">No Sales Recorded</h3>
+        </div>
+        <select
+          value={inactiveDays}
+          onChange={(e) => onInactiveDaysChange(Number(e.target.value))}
+          className="text-sm border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+        >
+          {INACTIVE_DAY_OPTIONS.map(days => (
+            <option key={days} value={days}>Last {days} days</option>
+          ))}
+        </select>
+      </div>
+      {!inactivity ? (
+        <p className="text-sm text-gray-500">Loading...</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <h4 className="text-xs font-medium text-gray-500 uppercase mb-2">Stores ({inactivity.stores.length})</h4>
+            {inactivity.stores.length === 0 ? (
+              <p className="text-sm text-gray-500 italic">Every store has sales.</p>
+            ) : (
+              <ul className="text-sm space-y-1">
+                {inactivity.stores.map(store => (
+                  <li key={store.id}>
+                    <Link to={`/metrics/stores?storeId=${store.id}`} className="text-blue-600 hover:underline">
+                      {store.name}
+                    </Link>
+                    <span className="text-gray-400 ml-2">#{store.branchNumber}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+          <div>
+            <h4 className="text-xs font-medium text-gray-500 uppercase mb-2">Team Members ({inactivity.staff.length})</h4>
+            {inactivity.staff.length === 0 ? (
+              <p className="text-sm text-gray-500 italic">Every team member has sales.</p>
+            ) : (
+              <ul className="text-sm space-y-1">
+                {inactivity.staff.map(member => (
+                  <li key={member.staffCode}>
+                    <Link to="/metrics/salespeople" className="text-blue-600 hover:underline">
+                      {member.name || member.staffCode}
+                    </Link>
+                    <span className="text-gray-400 ml-2">{member.staffCode}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  </div>
+);
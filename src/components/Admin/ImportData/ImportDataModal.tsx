@@ -1,17 +1,61 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import * as XLSX from 'xlsx';
 import { X, Upload } from 'lucide-react';
-import { importSalesData } from '../../../services/sales';
-import { validateExcelData } from '../../../utils/validation';
-import { readExcelFile } from '../../../utils/excel/reader';
-import { processExcelData } from '../../../utils/excel/processor';
+import { importSalesData, commitSalesImport } from '../../../services/sales';
+import { ChunkedWriteCheckpoint } from '../../../services/firebase/batchWriter';
+import { readWorkbookSheets, isSupportedImportFile } from '../../../utils/excel/reader';
+import { validateSheets, isRowLevelError } from '../../../utils/excel/sheets';
+import { SheetData, RejectedRow } from '../../../utils/excel/types';
+import { processExcelData, processExcelDataWithRejects } from '../../../utils/excel/processor';
+import { quarantineRows, exportRejectedRows } from '../../../utils/excel/quarantine';
+import {
+  LINE_COLUMN_DEFINITIONS,
+  ParsedSalesLine,
+  isLineLevelExport,
+  validateLineSheets,
+  findUnresolvedProducts,
+  parseSalesLines,
+  aggregateSalesLines
+} from '../../../utils/excel/lineItems';
+import { getColumnDefinitions } from '../../../utils/validation/columnDefinitions';
+import {
+  ColumnMappingProfile,
+  ColumnMappingResult,
+  SalesDataField,
+  detectColumnMapping,
+  getMissingFields,
+  mappingToAliases
+} from '../../../utils/excel/columnMapping';
 import { addImportHistory } from '../../../services/importHistory';
+import { startServerImport } from '../../../services/imports';
+import { fetchMappingProfiles, createMappingProfile } from '../../../services/columnMappings';
+import { fetchImportMasterData, ImportMasterData } from '../../../services/masterData';
+import { fetchProductCatalogue, saveProducts, ProductCatalogue } from '../../../services/products';
+import { createStore } from '../../../services/stores';
+import { createPlaceholderSalesperson } from '../../../services/salespeople';
+import {
+  UnknownReference,
+  findUnknownReferences,
+  unknownReferenceErrors
+} from '../../../utils/validation/referenceValidator';
+import { StoreModal } from '../Stores/StoreModal';
+import { Product, Store } from '../../../types';
 import { ValidationError } from '../../../utils/validation/types';
-import { ImportProgress as ImportProgressType } from '../../../types/import';
+import {
+  ImportProgress as ImportProgressType,
+  ImportSummary,
+  SalesDataRow,
+  SalesImportPlan
+} from '../../../types/import';
 import {
   ImportProgress,
   FileUploader,
   ValidationErrors,
+  ImportPreview,
+  ColumnMappingStep,
+  SheetSelector,
+  RejectedRows,
+  UnknownReferences,
   ModalHeader,
   ModalFooter
 } from './components';
@@ -20,19 +64,51 @@ interface ImportDataModalProps {
   isOpen: boolean;
   onClose: () => void;
   onComplete: () => void;
+  // Called with the import ID once a file has been handed to the server
+  onServerImportStarted?: (importId: string) => void;
 }
 
 export const ImportDataModal: React.FC<ImportDataModalProps> = ({
   isOpen,
   onClose,
   onComplete,
+  onServerImportStarted,
 }) => {
   const [file, setFile] = useState<File | null>(null);
   const [loading, setLoading] = useState(false);
   const [validating, setValidating] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [validationErrors, setValidationErrors] = useState<ValidationError[]>([]);
+  // Suspicious rows must be acknowledged before they are imported
+  const [validationWarnings, setValidationWarnings] = useState<ValidationError[]>([]);
+  const [warningsAcknowledged, setWarningsAcknowledged] = useState(false);
   const [success, setSuccess] = useState(false);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  // Dry-run result shown for confirmation before anything is written
+  const [plan, setPlan] = useState<SalesImportPlan | null>(null);
+  // Kept after a failed commit so the import can resume where it stopped
+  const [checkpoint, setCheckpoint] = useState<ChunkedWriteCheckpoint | null>(null);
+  // Raw sheet rows and the header mapping confirmed before parsing
+  const [sheets, setSheets] = useState<SheetData[] | null>(null);
+  const [selectedSheets, setSelectedSheets] = useState<string[]>([]);
+  const [columnMapping, setColumnMapping] = useState<ColumnMappingResult | null>(null);
+  const [mappingConfirmed, setMappingConfirmed] = useState(false);
+  // Partial imports commit valid rows and set the failing ones aside
+  const [partialImport, setPartialImport] = useState(false);
+  const [rejectedRows, setRejectedRows] = useState<RejectedRow[]>([]);
+  // Server imports keep running if this tab is closed
+  const [runOnServer, setRunOnServer] = useState(true);
+  const [profiles, setProfiles] = useState<ColumnMappingProfile[]>([]);
+  const [selectedProfileId, setSelectedProfileId] = useState('');
+  // Stores and staff codes that branch numbers and staff codes must match
+  const [masterData, setMasterData] = useState<ImportMasterData | null>(null);
+  const [unknownReferences, setUnknownReferences] = useState<UnknownReference[]>([]);
+  const [newStore, setNewStore] = useState<Store | null>(null);
+  const [creatingReference, setCreatingReference] = useState(false);
+  // Line-level exports have one row per SKU and are summed into supplier totals
+  const [lineLevel, setLineLevel] = useState(false);
+  const [productCatalogue, setProductCatalogue] = useState<ProductCatalogue | null>(null);
+  const [newProducts, setNewProducts] = useState<Product[]>([]);
   const [importProgress, setImportProgress] = useState<ImportProgressType>({
     currentStep: '',
     progress: 0,
@@ -42,27 +118,169 @@ export const ImportDataModal: React.FC<ImportDataModalProps> = ({
   
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const validateFile = async (file: File): Promise<boolean> => {
+  useEffect(() => {
+    if (isOpen) {
+      fetchMappingProfiles()
+        .then(setProfiles)
+        .catch(err => {
+          console.error('Error loading mapping profiles:', err);
+          setError('Failed to load mapping profiles');
+        });
+      // Stores and team members may have changed since the modal was last open
+      setMasterData(null);
+      setProductCatalogue(null);
+    }
+  }, [isOpen]);
+
+  const getProfile = (profileId: string) =>
+    profiles.find(profile => profile.id === profileId) || null;
+
+  const getColumns = (lines: boolean = lineLevel) =>
+    lines ? LINE_COLUMN_DEFINITIONS : getColumnDefinitions();
+
+  // The mapping is detected on the first selected sheet and reused for the rest
+  const getSelectedSheets = (names: string[] = selectedSheets) =>
+    (sheets || []).filter(sheet => names.includes(sheet.name));
+
+  const loadFile = async (file: File): Promise<boolean> => {
     try {
       setValidating(true);
       setValidationErrors([]);
       setImportProgress({
-        currentStep: 'Validating file...',
+        currentStep: 'Reading file...',
         progress: 0,
         totalRows: 0,
         processedRows: 0
       });
 
-      const result = await readExcelFile(file);
+      const result = await readWorkbookSheets(file);
       if (!result.success) {
         setError(result.error);
         return false;
       }
 
-      const validationResult = validateExcelData(result.data!);
-      setValidationErrors(validationResult.errors || []);
-      
-      return validationResult.errors.length === 0;
+      const workbookSheets = result.sheets!;
+      const profile = getProfile(selectedProfileId);
+      const lines = isLineLevelExport(workbookSheets[0].data[0], profile);
+      setLineLevel(lines);
+      setSheets(workbookSheets);
+      setSelectedSheets(workbookSheets.map(sheet => sheet.name));
+      setColumnMapping(detectColumnMapping(workbookSheets[0].data[0], profile, getColumns(lines)));
+      return true;
+    } catch (err) {
+      console.error('Read error:', err);
+      setError('Failed to read file');
+      return false;
+    } finally {
+      setValidating(false);
+    }
+  };
+
+  const loadMasterData = async (): Promise<ImportMasterData> => {
+    const data = await fetchImportMasterData();
+    setMasterData(data);
+    return data;
+  };
+
+  const loadProductCatalogue = async (): Promise<ProductCatalogue> => {
+    const catalogue = productCatalogue || await fetchProductCatalogue();
+    setProductCatalogue(catalogue);
+    return catalogue;
+  };
+
+  const validateData = async (
+    selected: SheetData[],
+    allowPartial: boolean = partialImport,
+    references: ImportMasterData | null = masterData
+  ): Promise<boolean> => {
+    if (!columnMapping) return false;
+
+    try {
+      setValidating(true);
+      setValidationErrors([]);
+      setImportProgress({
+        currentStep: 'Validating file...',
+        progress: 0,
+        totalRows: 0,
+        processedRows: 0
+      });
+
+      setPlan(null);
+      setCheckpoint(null);
+      setRejectedRows([]);
+      setValidationWarnings([]);
+      setWarningsAcknowledged(false);
+      const master = references || await loadMasterData();
+      const catalogue = lineLevel ? await loadProductCatalogue() : null;
+      const result = catalogue
+        ? validateLineSheets(selected, columnMapping.headers, columnMapping.mapping)
+        : validateSheets(selected, columnMapping.headers, columnMapping.mapping, {
+            unitPriceRanges: master.unitPriceRanges
+          });
+
+      // SKUs that cannot be placed under a supplier are row errors too
+      if (catalogue) {
+        const productErrors = findUnresolvedProducts(result.sheets, catalogue);
+        result.sheets.forEach(sheet => {
+          sheet.errors.push(...productErrors.filter(error => error.sheet === sheet.label));
+        });
+        result.errors.push(...productErrors);
+      }
+
+      // Unknown stores and team members are row errors, so they can be set aside too
+      const unknown = findUnknownReferences(result.sheets, master);
+      const referenceErrors = unknownReferenceErrors(unknown);
+      result.sheets.forEach(sheet => {
+        sheet.errors.push(...referenceErrors.filter(error => error.sheet === sheet.label));
+      });
+      result.errors.push(...referenceErrors);
+      setUnknownReferences(unknown);
+      setValidationErrors(result.errors);
+      setValidationWarnings(result.warnings);
+      const canQuarantine = allowPartial && result.errors.every(isRowLevelError);
+      if (result.errors.length > 0 && !canQuarantine) {
+        return false;
+      }
+
+      const totalRows = result.sheets.reduce((total, sheet) => total + sheet.data.length - 1, 0);
+      setImportProgress({
+        currentStep: 'Preparing preview...',
+        progress: 50,
+        totalRows,
+        processedRows: 0
+      });
+
+      const processedData: SalesDataRow[] = [];
+      const rejected: RejectedRow[] = [];
+      const lines: ParsedSalesLine[] = [];
+      const products = new Map<string, Product>();
+      for (const sheet of result.sheets) {
+        if (catalogue) {
+          const data = allowPartial ? quarantineRows(sheet.data, sheet.errors, sheet.label) : null;
+          const parsed = parseSalesLines(data ? data.data : sheet.data, catalogue, {
+            collectRejects: allowPartial,
+            sheet: sheet.label
+          });
+          lines.push(...parsed.lines);
+          parsed.newProducts.forEach(product => products.set(product.sku, product));
+          rejected.push(...(data?.rejected || []), ...parsed.rejected);
+        } else if (allowPartial) {
+          // Leave failing rows out and keep them for download
+          const quarantined = quarantineRows(sheet.data, sheet.errors, sheet.label);
+          const processed = await processExcelDataWithRejects(quarantined.data, sheet.label);
+          processedData.push(...processed.rows);
+          rejected.push(...quarantined.rejected, ...processed.rejected);
+        } else {
+          processedData.push(...await processExcelData(sheet.data));
+        }
+      }
+      if (catalogue) {
+        processedData.push(...aggregateSalesLines(lines));
+      }
+      setRejectedRows(rejected);
+      setNewProducts([...products.values()]);
+      setPlan(await importSalesData(processedData, undefined, { dryRun: true }));
+      return true;
     } catch (err) {
       console.error('Validation error:', err);
       setError('Failed to validate file');
@@ -72,90 +290,265 @@ export const ImportDataModal: React.FC<ImportDataModalProps> = ({
     }
   };
 
+  const handleSheetSelectionChange = (names: string[]) => {
+    setSelectedSheets(names);
+    const [first] = getSelectedSheets(names);
+    setColumnMapping(first ? detectColumnMapping(first.data[0], getProfile(selectedProfileId), getColumns()) : null);
+  };
+
+  const handleProfileChange = (profileId: string) => {
+    setSelectedProfileId(profileId);
+    const [first] = getSelectedSheets();
+    if (first) {
+      setColumnMapping(detectColumnMapping(first.data[0], getProfile(profileId), getColumns()));
+    }
+  };
+
+  const handleMappingChange = (field: SalesDataField, columnIndex: number | undefined) => {
+    if (!columnMapping) return;
+    const mapping = { ...columnMapping.mapping, [field]: columnIndex };
+    if (columnIndex === undefined) {
+      delete mapping[field];
+    }
+    setColumnMapping({ ...columnMapping, mapping, missingFields: getMissingFields(mapping, getColumns()) });
+  };
+
+  const handleSaveProfile = async (name: string) => {
+    if (!columnMapping || !name) return;
+    try {
+      const profile = {
+        name,
+        aliases: mappingToAliases(columnMapping.headers, columnMapping.mapping)
+      };
+      const id = await createMappingProfile(profile);
+      setProfiles([...profiles, { id, ...profile }].sort((a, b) => a.name.localeCompare(b.name)));
+      setSelectedProfileId(id);
+    } catch (err) {
+      console.error('Error saving mapping profile:', err);
+      setError('Failed to save mapping profile');
+    }
+  };
+
+  const handleConfirmMapping = async () => {
+    if (!columnMapping) return;
+    setError(null);
+    setMappingConfirmed(true);
+
+    const isValid = await validateData(getSelectedSheets());
+    if (!isValid) {
+      setError('File validation failed. Please check the errors below.');
+    }
+  };
+
+  const handlePartialImportChange = async (enabled: boolean) => {
+    setPartialImport(enabled);
+    setError(null);
+    if (mappingConfirmed) {
+      const isValid = await validateData(getSelectedSheets(), enabled);
+      if (!isValid) {
+        setError('File validation failed. Please check the errors below.');
+      }
+    }
+  };
+
+  // Re-checks the file once a missing store or team member has been created
+  const revalidate = async () => {
+    setError(null);
+    const isValid = await validateData(getSelectedSheets(), partialImport, await loadMasterData());
+    if (!isValid) {
+      setError('File validation failed. Please check the errors below.');
+    }
+  };
+
+  const handleCreateStore = async (data: Partial<Store>) => {
+    try {
+      setCreatingReference(true);
+      await createStore({
+        name: data.name || '',
+        branchNumber: data.branchNumber || '',
+        regionId: data.regionId || ''
+      });
+      setNewStore(null);
+      await revalidate();
+    } catch (err) {
+      console.error('Error creating store:', err);
+      setError('Failed to create store');
+    } finally {
+      setCreatingReference(false);
+    }
+  };
+
+  const handleCreatePlaceholder = async (reference: UnknownReference) => {
+    try {
+      setCreatingReference(true);
+      const store = masterData?.stores.find(store => store.branchNumber === reference.branchNumber);
+      await createPlaceholderSalesperson(reference.value, store?.id);
+      await revalidate();
+    } catch (err) {
+      console.error('Error creating team member:', err);
+      setError('Failed to create team member');
+    } finally {
+      setCreatingReference(false);
+    }
+  };
+
+  const handleDownloadRejected = () => {
+    const baseName = file?.name.replace(/\.[^.]+$/, '') || 'import';
+    exportRejectedRows(rejectedRows, `${baseName}-rejected.xlsx`, getColumns().map(col => col.name));
+  };
+
   const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = event.target.files?.[0];
     if (selectedFile) {
-      if (!selectedFile.name.endsWith('.xlsx')) {
-        setError('Please select an Excel (.xlsx) file');
+      if (!isSupportedImportFile(selectedFile.name)) {
+        setError('Please select an Excel (.xlsx, .xls), CSV or TSV file');
         return;
       }
 
       setFile(selectedFile);
       setError(null);
       setSuccess(false);
-      
-      const isValid = await validateFile(selectedFile);
-      if (!isValid) {
-        setError('File validation failed. Please check the errors below.');
-      }
+      setSummary(null);
+      setPlan(null);
+      setCheckpoint(null);
+      setRejectedRows([]);
+      setMappingConfirmed(false);
+
+      await loadFile(selectedFile);
     }
   };
 
-  const handleImport = async () => {
-    if (!file) {
-      setError('Please select a file first');
-      return;
+  const resetFile = () => {
+    setFile(null);
+    setSheets(null);
+    setSelectedSheets([]);
+    setColumnMapping(null);
+    setMappingConfirmed(false);
+    setPlan(null);
+    setCheckpoint(null);
+    setRejectedRows([]);
+    setValidationErrors([]);
+    setValidationWarnings([]);
+    setWarningsAcknowledged(false);
+    setUnknownReferences([]);
+    setLineLevel(false);
+    setNewProducts([]);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
     }
+  };
+
+  const handleServerImport = async () => {
+    if (!file || !columnMapping) return;
 
     try {
       setLoading(true);
       setError(null);
-
-      // Read the file
-      const readResult = await readExcelFile(file);
-      if (!readResult.success) {
-        throw new Error(readResult.error);
-      }
-
-      // Process the data
       setImportProgress({
-        currentStep: 'Processing data...',
+        currentStep: 'Uploading file...',
         progress: 0,
-        totalRows: readResult.data!.length - 1, // Subtract header row
+        totalRows: plan?.rowCount || 0,
         processedRows: 0
       });
 
-      const processedData = await processExcelData(readResult.data!);
+      const importId = await startServerImport(file, {
+        sheetNames: selectedSheets,
+        aliases: mappingToAliases(columnMapping.headers, columnMapping.mapping),
+        allowPartial: partialImport
+      });
+      onServerImportStarted?.(importId);
+      resetFile();
+      onClose();
+    } catch (err) {
+      console.error('Error starting server import:', err);
+      setError('Failed to upload file for import');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!file || !plan) {
+      setError('Please select a file first');
+      return;
+    }
+
+    // The import function writes supplier totals, not product lines
+    if (runOnServer && !lineLevel && !checkpoint) {
+      await handleServerImport();
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
 
       // Import the data
+      const rowCount = plan.rowCount;
       setImportProgress({
         currentStep: 'Importing data...',
-        progress: 50,
-        totalRows: processedData.length,
+        progress: 0,
+        totalRows: rowCount,
         processedRows: 0
       });
 
-      await importSalesData(processedData, (progress) => {
-        setImportProgress(prev => ({
-          ...prev,
-          progress: 50 + (progress * 0.5),
-          processedRows: Math.floor(processedData.length * progress)
-        }));
+      const result = await commitSalesImport(plan, {
+        checkpoint: checkpoint || undefined,
+        onProgress: (progress, detail) => {
+          setImportProgress({
+            currentStep: `Importing batch ${detail.committedChunks} of ${detail.totalChunks}...`,
+            progress: progress * 100,
+            totalRows: rowCount,
+            processedRows: Math.floor(rowCount * progress)
+          });
+        }
       });
 
+      if (!result.success) {
+        setCheckpoint(result.checkpoint);
+        setError(
+          `Import stopped after ${result.checkpoint.committedChunks.length} of ` +
+          `${result.checkpoint.totalChunks} batches. Select Resume Import to continue.`
+        );
+        await addImportHistory({
+          fileName: file.name,
+          source: 'browser',
+          success: false,
+          rowsProcessed: 0,
+          rowsRejected: rejectedRows.length,
+          error: result.error
+        }, plan.importId);
+        return;
+      }
+      const importSummary = result.summary;
+      await saveProducts(newProducts);
+
       // Record successful import
       await addImportHistory({
         fileName: file.name,
+        source: 'browser',
         success: true,
-        rowsProcessed: processedData.length
-      });
+        rowsProcessed: rowCount,
+        rowsRejected: rejectedRows.length,
+        ...importSummary
+      }, plan.importId);
       
+      setSummary(importSummary);
       setSuccess(true);
-      setFile(null);
-      setValidationErrors([]);
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
-      }
+      resetFile();
       onComplete();
     } catch (err) {
       console.error('Error importing data:', err);
       setError('Error processing file. Please check the file format.');
+      // Chunks committed before the failure carry this import ID, so link the record for undo
       await addImportHistory({
         fileName: file.name,
+        source: 'browser',
         success: false,
         rowsProcessed: 0,
+        rowsRejected: rejectedRows.length,
         error: (err as Error).message
-      });
+      }, plan.importId);
     } finally {
       setLoading(false);
     }
@@ -179,7 +572,10 @@ export const ImportDataModal: React.FC<ImportDataModalProps> = ({
           {success && (
             <div className="mb-4 p-3 bg-green-50 text-green-700 rounded-md flex items-center">
               <Upload className="w-5 h-5 mr-2" />
-              <span className="text-sm">Data imported successfully!</span>
+              <span className="text-sm">
+                Data imported successfully!
+                {summary && ` ${summary.inserted} inserted, ${summary.updated} updated, ${summary.unchanged} unchanged.`}
+              </span>
             </div>
           )}
 
@@ -194,20 +590,137 @@ export const ImportDataModal: React.FC<ImportDataModalProps> = ({
               <ImportProgress {...importProgress} />
             )}
 
-            {validationErrors.length > 0 && (
-              <ValidationErrors errors={validationErrors} />
+            {lineLevel && sheets && (
+              <div className="p-3 bg-blue-50 text-blue-800 rounded-md text-sm">
+                Line-level export: each row is one SKU. Rows are added up into supplier totals,
+                and the lines are kept for product drill-downs. This file is imported in the browser.
+                {newProducts.length > 0 && ` ${newProducts.length} new SKUs will be added to the product catalogue.`}
+              </div>
+            )}
+
+            {sheets && sheets.length > 1 && !mappingConfirmed && (
+              <SheetSelector
+                sheets={sheets}
+                selected={selectedSheets}
+                disabled={loading || validating}
+                onChange={handleSheetSelectionChange}
+              />
+            )}
+
+            {columnMapping && !mappingConfirmed && (
+              <ColumnMappingStep
+                headers={columnMapping.headers}
+                mapping={columnMapping.mapping}
+                columns={getColumns()}
+                profiles={profiles}
+                selectedProfileId={selectedProfileId}
+                disabled={loading || validating}
+                onProfileChange={handleProfileChange}
+                onMappingChange={handleMappingChange}
+                onSaveProfile={handleSaveProfile}
+                onConfirm={handleConfirmMapping}
+              />
+            )}
+
+            {(validationErrors.length > 0 || validationWarnings.length > 0) && (
+              <ValidationErrors
+                errors={validationErrors}
+                warnings={validationWarnings}
+                warningsAcknowledged={warningsAcknowledged}
+                onAcknowledgeWarnings={setWarningsAcknowledged}
+              />
+            )}
+
+            {mappingConfirmed && !loading && (
+              <UnknownReferences
+                references={unknownReferences}
+                disabled={validating || creatingReference}
+                onCreateStore={(reference) => setNewStore({
+                  id: '',
+                  name: '',
+                  branchNumber: reference.value,
+                  regionId: ''
+                })}
+                onCreatePlaceholder={handleCreatePlaceholder}
+              />
+            )}
+
+            {columnMapping && mappingConfirmed && !loading && !validating && (
+              <button
+                type="button"
+                onClick={() => {
+                  setMappingConfirmed(false);
+                  setPlan(null);
+                  setCheckpoint(null);
+                  setValidationErrors([]);
+                  setValidationWarnings([]);
+                  setUnknownReferences([]);
+                  setError(null);
+                }}
+                className="text-sm text-blue-600 hover:text-blue-800"
+              >
+                Edit column mapping
+              </button>
+            )}
+
+            {mappingConfirmed && !loading && (validationErrors.length > 0 || partialImport) && (
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={partialImport}
+                  disabled={validating}
+                  onChange={(e) => handlePartialImportChange(e.target.checked)}
+                  className="mr-2 rounded border-gray-300"
+                />
+                Import valid rows only and set aside rows with errors
+              </label>
+            )}
+
+            {rejectedRows.length > 0 && !loading && (
+              <RejectedRows count={rejectedRows.length} onDownload={handleDownloadRejected} />
+            )}
+
+            {plan && !loading && (
+              <ImportPreview preview={plan.preview} summary={plan.summary} />
+            )}
+
+            {plan && !loading && !checkpoint && !lineLevel && (
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={runOnServer}
+                  onChange={(e) => setRunOnServer(e.target.checked)}
+                  className="mr-2 rounded border-gray-300"
+                />
+                Process on the server so the import continues if this window is closed
+              </label>
             )}
 
             <ModalFooter
-              onClose={onClose}
+              onClose={file ? resetFile : onClose}
               onImport={handleImport}
-              disabled={!file || loading || validating || validationErrors.length > 0}
+              disabled={
+                !plan ||
+                loading ||
+                validating ||
+                (validationErrors.length > 0 && !partialImport) ||
+                (validationWarnings.length > 0 && !warningsAcknowledged)
+              }
               loading={loading}
               validating={validating}
+              confirming={!!plan}
+              resumable={!!checkpoint}
             />
           </div>
         </div>
       </div>
+
+      <StoreModal
+        isOpen={!!newStore}
+        onClose={() => setNewStore(null)}
+        onSave={handleCreateStore}
+        store={newStore}
+      />
     </div>
   );
 };
\ No newline at end of file
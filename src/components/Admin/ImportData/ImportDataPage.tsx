@@ -1,19 +1,39 @@
 import React, { useState, useEffect } from 'react';
 import { Upload } from 'lucide-react';
 import { ImportDataModal } from './ImportDataModal';
-import { ImportHistory } from './components';
-import { getRecentImports } from '../../../services/importHistory';
-import { ImportHistoryEntry } from '../../../types/import';
+import { ImportHistory, ServerImportStatus } from './components';
+import { getRecentImports, undoImport } from '../../../services/importHistory';
+import { subscribeToImport } from '../../../services/imports';
+import { ImportHistoryEntry, ServerImport } from '../../../types/import';
+import { useSuppliers } from '../../../hooks/useSuppliers';
 
 export const ImportDataPage: React.FC = () => {
+  const suppliers = useSuppliers();
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [history, setHistory] = useState<ImportHistoryEntry[]>([]);
   const [loading, setLoading] = useState(true);
+  const [undoingId, setUndoingId] = useState<string | null>(null);
+  const [undoError, setUndoError] = useState<string | null>(null);
+  // Import running in the import function, followed live
+  const [serverImportId, setServerImportId] = useState<string | null>(null);
+  const [serverImport, setServerImport] = useState<ServerImport | null>(null);
 
   useEffect(() => {
     loadImportHistory();
   }, []);
 
+  useEffect(() => {
+    if (!serverImportId) return;
+
+    const unsubscribe = subscribeToImport(serverImportId, update => {
+      setServerImport(update);
+      if (update.status === 'completed' || update.status === 'failed') {
+        loadImportHistory();
+      }
+    });
+    return unsubscribe;
+  }, [serverImportId]);
+
   const loadImportHistory = async () => {
     try {
       setLoading(true);
@@ -30,6 +50,28 @@ export const ImportDataPage: React.FC = () => {
     loadImportHistory();
   };
 
+  const handleUndo = async (entry: ImportHistoryEntry) => {
+    if (!window.confirm(`Undo the import of ${entry.fileName}? Its metrics will be removed or restored to their previous values.`)) {
+      return;
+    }
+
+    try {
+      setUndoingId(entry.id);
+      setUndoError(null);
+      const result = await undoImport(entry.id);
+      if (!result.success) {
+        setUndoError(result.error || 'Failed to undo import');
+        return;
+      }
+      await loadImportHistory();
+    } catch (error) {
+      console.error('Error undoing import:', error);
+      setUndoError('Failed to undo import');
+    } finally {
+      setUndoingId(null);
+    }
+  };
+
   return (
     <div>
       <div className="flex justify-between items-center mb-6">
@@ -41,7 +83,7 @@ export const ImportDataPage: React.FC = () => {
           <Upload className="mx-auto h-12 w-12 text-gray-400" />
           <h3 className="mt-2 text-sm font-medium text-gray-900">Import Sales Data</h3>
           <p className="mt-1 text-sm text-gray-500">
-            Upload an Excel file containing sales data for processing
+            Upload an Excel or CSV file containing sales data for processing
           </p>
           <div className="mt-6">
             <button
@@ -57,30 +99,51 @@ export const ImportDataPage: React.FC = () => {
         <div className="mt-8 border-t border-gray-200 pt-8">
           <h4 className="text-sm font-medium text-gray-900">File Requirements:</h4>
           <ul className="mt-4 space-y-3 text-sm text-gray-500 list-disc list-inside">
-            <li>Excel file format (.xlsx)</li>
+            <li>Excel (.xlsx, .xls), CSV or TSV file; workbooks may contain several sheets</li>
             <li>First row must contain headers</li>
-            <li>Required columns in order:
+            <li>Columns are matched by header name (common aliases and saved mapping profiles are recognised):
               <ul className="ml-6 mt-2 space-y-1 list-disc">
                 <li>Date</li>
                 <li>Branch Number</li>
                 <li>Staff Code</li>
-                <li>Cellnet: Quantity, Sales Value, Margin</li>
-                <li>Likewize Acc: Quantity, Sales Value, Margin</li>
-                <li>Pacificomm: Quantity, Sales Value, Margin</li>
-                <li>Studiotech: Quantity, Sales Value, Margin</li>
-                <li>Likewize Device: Quantity only</li>
+                {suppliers.map(supplier => (
+                  <li key={supplier.id}>
+                    {supplier.name}: {supplier.importColumns
+                      .map(measure => measure.charAt(0).toUpperCase() + measure.slice(1))
+                      .join(', ')}
+                  </li>
+                ))}
               </ul>
             </li>
           </ul>
         </div>
 
-        {!loading && <ImportHistory history={history} />}
+        {serverImport && (
+          <ServerImportStatus
+            serverImport={serverImport}
+            onDismiss={() => {
+              setServerImportId(null);
+              setServerImport(null);
+            }}
+          />
+        )}
+
+        {undoError && (
+          <div className="mt-6 p-3 bg-red-50 text-red-700 rounded-md text-sm">
+            {undoError}
+          </div>
+        )}
+
+        {!loading && (
+          <ImportHistory history={history} onUndo={handleUndo} undoingId={undoingId} />
+        )}
       </div>
 
       <ImportDataModal
         isOpen={isModalOpen}
         onClose={() => setIsModalOpen(false)}
         onComplete={handleImportComplete}
+        onServerImportStarted={setServerImportId}
       />
     </div>
   );
@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { Columns, Save } from 'lucide-react';
+import { getColumnDefinitions } from '../../../../utils/validation/columnDefinitions';
+import { ColumnDefinition } from '../../../../utils/validation/types';
+import {
+  ColumnMapping,
+  ColumnMappingProfile,
+  SalesDataField,
+  getMissingFields
+} from '../../../../utils/excel/columnMapping';
+
+interface ColumnMappingStepProps {
+  headers: string[];
+  mapping: ColumnMapping;
+  // Fields to map; the supplier-level layout when unset
+  columns?: ColumnDefinition[];
+  profiles: ColumnMappingProfile[];
+  selectedProfileId: string;
+  disabled?: boolean;
+  onProfileChange: (profileId: string) => void;
+  onMappingChange: (field: SalesDataField, columnIndex: number | undefined) => void;
+  onSaveProfile: (name: string) => void;
+  onConfirm: () => void;
+}
+
+export const ColumnMappingStep: React.FC<ColumnMappingStepProps> = ({
+  headers,
+  mapping,
+  columns = getColumnDefinitions(),
+  profiles,
+  selectedProfileId,
+  disabled,
+  onProfileChange,
+  onMappingChange,
+  onSaveProfile,
+  onConfirm
+}) => {
+  const [profileName, setProfileName] = useState('');
+  const missingFields = getMissingFields(mapping, columns);
+
+  return (
+    <div className="mt-4 p-4 bg-gray-50 rounded-lg space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center">
+          <Columns className="w-4 h-4 text-gray-600 mr-2" />
+          <h4 className="text-sm font-medium text-gray-900">Column Mapping</h4>
+        </div>
+        <select
+          value={selectedProfileId}
+          onChange={(e) => onProfileChange(e.target.value)}
+          disabled={disabled}
+          className="text-sm border-gray-300 rounded-md"
+        >
+          <option value="">Default mapping</option>
+          {profiles.map(profile => (
+            <option key={profile.id} value={profile.id}>{profile.name}</option>
+          ))}
+        </select>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Detected headers: {headers.filter(Boolean).join(', ') || 'none'}
+      </p>
+
+      <div className="max-h-60 overflow-y-auto">
+        <table className="min-w-full text-sm">
+          <tbody>
+            {columns.map(col => (
+              <tr key={col.field}>
+                <td className={`py-1 pr-4 ${
+                  mapping[col.field] === undefined && !col.optionalColumn ? 'text-red-600' : 'text-gray-900'
+                }`}>
+                  {col.name}
+                  {col.optionalColumn && <span className="ml-1 text-xs text-gray-400">(optional)</span>}
+                </td>
+                <td className="py-1">
+                  <select
+                    value={mapping[col.field] ?? ''}
+                    onChange={(e) => onMappingChange(
+                      col.field,
+                      e.target.value === '' ? undefined : Number(e.target.value)
+                    )}
+                    disabled={disabled}
+                    className="w-full text-sm border-gray-300 rounded-md"
+                  >
+                    <option value="">Not mapped</option>
+                    {headers.map((header, index) => (
+                      <option key={index} value={index}>
+                        {header || `Column ${index + 1}`}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {missingFields.length > 0 && (
+        <p className="text-xs text-red-600">
+          {missingFields.length} columns are not mapped
+        </p>
+      )}
+
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <input
+            type="text"
+            value={profileName}
+            onChange={(e) => setProfileName(e.target.value)}
+            placeholder="Profile name"
+            disabled={disabled}
+            className="text-sm border-gray-300 rounded-md"
+          />
+          <button
+            type="button"
+            onClick={() => {
+              onSaveProfile(profileName.trim());
+              setProfileName('');
+            }}
+            disabled={disabled || !profileName.trim()}
+            className="inline-flex items-center px-3 py-1 text-sm text-blue-700 bg-blue-50 rounded-md hover:bg-blue-100 disabled:opacity-50"
+          >
+            <Save className="w-4 h-4 mr-1" />
+            Save profile
+          </button>
+        </div>
+        <button
+          type="button"
+          onClick={onConfirm}
+          disabled={disabled || missingFields.length > 0}
+          className="px-3 py-1 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          Apply mapping
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -9,12 +9,12 @@ export const FileUploader = forwardRef<HTMLInputElement, FileUploaderProps>(
   ({ onChange, disabled }, ref) => (
     <div>
       <label className="block text-sm font-medium text-gray-700 mb-2">
-        Select Excel File
+        Select Excel or CSV File
       </label>
       <input
         ref={ref}
         type="file"
-        accept=".xlsx"
+        accept=".xlsx,.xls,.csv,.tsv"
         onChange={onChange}
         disabled={disabled}
         className="block w-full text-sm text-gray-500
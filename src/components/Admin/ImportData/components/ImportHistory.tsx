@@ -1,13 +1,15 @@
 import React from 'react';
-import { FileCheck, FileX, Clock } from 'lucide-react';
+import { FileCheck, FileX, Clock, Undo2, Flag } from 'lucide-react';
 import { ImportHistoryEntry } from '../../../../types/import';
 import { formatDistanceToNow } from '../../../../utils/dateUtils';
 
 interface ImportHistoryProps {
   history: ImportHistoryEntry[];
+  onUndo?: (entry: ImportHistoryEntry) => void;
+  undoingId?: string | null;
 }
 
-export const ImportHistory: React.FC<ImportHistoryProps> = ({ history }) => (
+export const ImportHistory: React.FC<ImportHistoryProps> = ({ history, onUndo, undoingId }) => (
   <div className="mt-6">
     <h3 className="text-lg font-medium text-gray-900 mb-4">Recent Imports</h3>
     <div className="bg-white rounded-lg shadow overflow-hidden">
@@ -29,7 +31,18 @@ export const ImportHistory: React.FC<ImportHistoryProps> = ({ history }) => (
                   <div>
                     <p className="text-sm font-medium text-gray-900">
                       {entry.fileName}
+                      {entry.source === 'scheduled' && (
+                        <span className="ml-2 px-2 py-0.5 text-xs font-normal text-blue-700 bg-blue-50 rounded-full">
+                          Scheduled
+                        </span>
+                      )}
                     </p>
+                    {entry.flagged && (
+                      <p className="flex items-center text-xs text-red-600 mt-1" title={entry.sourcePath}>
+                        <Flag className="w-3 h-3 mr-1" />
+                        Needs review: file moved to {entry.sourcePath || 'the failed folder'}
+                      </p>
+                    )}
                     <div className="flex items-center mt-1">
                       <Clock className="w-4 h-4 text-gray-400 mr-1" />
                       <p className="text-xs text-gray-500">
@@ -41,12 +54,34 @@ export const ImportHistory: React.FC<ImportHistoryProps> = ({ history }) => (
                 <div className="text-right">
                   <p className="text-sm text-gray-900">
                     {entry.rowsProcessed.toLocaleString()} rows
+                    {!!entry.rowsRejected && (
+                      <span className="text-amber-600"> · {entry.rowsRejected.toLocaleString()} rejected</span>
+                    )}
                   </p>
+                  {entry.inserted !== undefined && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      {entry.inserted} inserted · {entry.updated ?? 0} updated · {entry.unchanged ?? 0} unchanged
+                    </p>
+                  )}
                   {entry.error && (
                     <p className="text-xs text-red-500 mt-1">
                       {entry.error}
                     </p>
                   )}
+                  {entry.undoneAt ? (
+                    <p className="text-xs text-gray-500 mt-1">
+                      Undone {formatDistanceToNow(entry.undoneAt)}
+                    </p>
+                  ) : entry.success && onUndo && (
+                    <button
+                      onClick={() => onUndo(entry)}
+                      disabled={!!undoingId}
+                      className="inline-flex items-center text-xs text-red-600 hover:text-red-800 mt-1 disabled:opacity-50"
+                    >
+                      <Undo2 className="w-3 h-3 mr-1" />
+                      {undoingId === entry.id ? 'Undoing...' : 'Undo import'}
+                    </button>
+                  )}
                 </div>
               </div>
             </li>
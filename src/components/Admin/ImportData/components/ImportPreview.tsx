@@ -0,0 +1,124 @@
+import React from 'react';
+import { FileSearch } from 'lucide-react';
+import {
+  ImportPreview as ImportPreviewType,
+  ImportSummary,
+  MetricValues
+} from '../../../../types/import';
+import { getSupplierName } from '../../../../data/suppliers';
+import { formatCurrency } from '../../../../utils/formatting';
+
+const MAX_DIFF_ROWS = 50;
+
+interface ImportPreviewProps {
+  preview: ImportPreviewType;
+  summary: ImportSummary;
+}
+
+const formatValues = (values?: MetricValues): string =>
+  values
+    ? `${values.quantity} / ${formatCurrency(values.salesAmount)} / ${formatCurrency(values.marginAmount)}`
+    : '—';
+
+export const ImportPreview: React.FC<ImportPreviewProps> = ({ preview, summary }) => {
+  const changes = preview.changes.filter(change => change.status !== 'unchanged');
+
+  return (
+    <div className="mt-4 p-4 bg-gray-50 rounded-lg space-y-4">
+      <div className="flex items-center">
+        <FileSearch className="w-4 h-4 text-gray-600 mr-2" />
+        <h4 className="text-sm font-medium text-gray-900">Import Preview</h4>
+      </div>
+
+      <dl className="grid grid-cols-2 gap-2 text-sm">
+        <dt className="text-gray-500">Rows parsed</dt>
+        <dd className="text-gray-900">{preview.rowsParsed.toLocaleString()}</dd>
+        {preview.lineCount > 0 && (
+          <>
+            <dt className="text-gray-500">Product lines</dt>
+            <dd className="text-gray-900">{preview.lineCount.toLocaleString()}</dd>
+          </>
+        )}
+        <dt className="text-gray-500">Date range</dt>
+        <dd className="text-gray-900">
+          {preview.dateRange
+            ? `${preview.dateRange.start.toLocaleDateString()} - ${preview.dateRange.end.toLocaleDateString()}`
+            : '—'}
+        </dd>
+        <dt className="text-gray-500">Branches ({preview.branchNumbers.length})</dt>
+        <dd className="text-gray-900 truncate" title={preview.branchNumbers.join(', ')}>
+          {preview.branchNumbers.join(', ')}
+        </dd>
+        <dt className="text-gray-500">Staff codes ({preview.staffCodes.length})</dt>
+        <dd className="text-gray-900 truncate" title={preview.staffCodes.join(', ')}>
+          {preview.staffCodes.join(', ')}
+        </dd>
+        <dt className="text-gray-500">Changes</dt>
+        <dd className="text-gray-900">
+          {summary.inserted} new · {summary.updated} updated · {summary.unchanged} unchanged
+        </dd>
+      </dl>
+
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500">
+            <th className="py-1">Supplier</th>
+            <th className="py-1 text-right">Quantity</th>
+            <th className="py-1 text-right">Sales</th>
+            <th className="py-1 text-right">Margin</th>
+          </tr>
+        </thead>
+        <tbody>
+          {preview.supplierTotals.map(total => (
+            <tr key={total.supplierId} className="text-gray-900">
+              <td className="py-1">{getSupplierName(total.supplierId)}</td>
+              <td className="py-1 text-right">{total.quantity.toLocaleString()}</td>
+              <td className="py-1 text-right">{formatCurrency(total.salesAmount)}</td>
+              <td className="py-1 text-right">{formatCurrency(total.marginAmount)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {changes.length > 0 && (
+        <div className="max-h-48 overflow-y-auto">
+          <table className="min-w-full text-xs">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-1">Date</th>
+                <th className="py-1">Branch</th>
+                <th className="py-1">Staff</th>
+                <th className="py-1">Supplier</th>
+                <th className="py-1">Current (qty / sales / margin)</th>
+                <th className="py-1">New</th>
+              </tr>
+            </thead>
+            <tbody>
+              {changes.slice(0, MAX_DIFF_ROWS).map(change => (
+                <tr
+                  key={change.key}
+                  className={change.status === 'insert' ? 'text-green-700' : 'text-amber-700'}
+                >
+                  <td className="py-1">{change.date.toLocaleDateString()}</td>
+                  <td className="py-1">{change.branchNumber}</td>
+                  <td className="py-1">{change.staffCode}</td>
+                  <td className="py-1">
+                    {getSupplierName(change.supplierId)}
+                    {change.type === 'return' && <span className="ml-1 text-xs text-gray-500">(return)</span>}
+                  </td>
+                  <td className="py-1">{formatValues(change.before)}</td>
+                  <td className="py-1">{formatValues(change.after)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {changes.length > MAX_DIFF_ROWS && (
+            <p className="mt-2 text-xs text-gray-500">
+              and {changes.length - MAX_DIFF_ROWS} more changes
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
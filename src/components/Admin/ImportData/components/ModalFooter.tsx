@@ -7,6 +7,8 @@ interface ModalFooterProps {
   disabled: boolean;
   loading: boolean;
   validating: boolean;
+  confirming?: boolean;
+  resumable?: boolean;
 }
 
 export const ModalFooter: React.FC<ModalFooterProps> = ({
@@ -14,7 +16,9 @@ export const ModalFooter: React.FC<ModalFooterProps> = ({
   onImport,
   disabled,
   loading,
-  validating
+  validating,
+  confirming = false,
+  resumable = false
 }) => (
   <div className="flex justify-end space-x-3">
     <button
@@ -31,7 +35,7 @@ export const ModalFooter: React.FC<ModalFooterProps> = ({
       className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
     >
       <Upload className="w-4 h-4 mr-2" />
-      {loading ? 'Importing...' : validating ? 'Validating...' : 'Import Data'}
+      {loading ? 'Importing...' : validating ? 'Validating...' : resumable ? 'Resume Import' : confirming ? 'Confirm Import' : 'Import Data'}
     </button>
   </div>
 );
\ No newline at end of file
@@ -0,0 +1,26 @@
+import React from 'react';
+import { AlertTriangle, Download } from 'lucide-react';
+
+interface RejectedRowsProps {
+  count: number;
+  onDownload: () => void;
+}
+
+export const RejectedRows: React.FC<RejectedRowsProps> = ({ count, onDownload }) => (
+  <div className="mt-4 p-3 bg-amber-50 rounded-md flex items-center justify-between">
+    <div className="flex items-center">
+      <AlertTriangle className="w-4 h-4 text-amber-600 mr-2" />
+      <span className="text-sm text-amber-800">
+        {count} rows will not be imported
+      </span>
+    </div>
+    <button
+      type="button"
+      onClick={onDownload}
+      className="inline-flex items-center text-sm text-amber-800 hover:text-amber-900"
+    >
+      <Download className="w-4 h-4 mr-1" />
+      Download rejected rows
+    </button>
+  </div>
+);
@@ -0,0 +1,58 @@
+import React from 'react';
+import { CheckCircle, XCircle } from 'lucide-react';
+import { ServerImport } from '../../../../types/import';
+import { ImportProgress } from './ImportProgress';
+
+interface ServerImportStatusProps {
+  serverImport: ServerImport;
+  onDismiss: () => void;
+}
+
+export const ServerImportStatus: React.FC<ServerImportStatusProps> = ({ serverImport, onDismiss }) => {
+  if (serverImport.status === 'uploaded' || serverImport.status === 'processing') {
+    return (
+      <ImportProgress
+        currentStep={`${serverImport.fileName}: ${serverImport.currentStep || 'Waiting for the server...'}`}
+        progress={(serverImport.progress || 0) * 100}
+        totalRows={serverImport.totalRows || 0}
+        processedRows={serverImport.processedRows || 0}
+      />
+    );
+  }
+
+  const failed = serverImport.status === 'failed';
+  return (
+    <div className={`mt-4 p-4 rounded-lg ${failed ? 'bg-red-50' : 'bg-green-50'}`}>
+      <div className="flex items-center justify-between">
+        <div className={`flex items-center text-sm font-medium ${failed ? 'text-red-800' : 'text-green-800'}`}>
+          {failed ? <XCircle className="w-4 h-4 mr-2" /> : <CheckCircle className="w-4 h-4 mr-2" />}
+          {serverImport.fileName}: {failed ? 'import failed' : 'import complete'}
+        </div>
+        <button onClick={onDismiss} className="text-sm text-gray-500 hover:text-gray-700">
+          Dismiss
+        </button>
+      </div>
+      {serverImport.summary && (
+        <p className="mt-2 text-sm text-green-700">
+          {serverImport.summary.inserted} inserted, {serverImport.summary.updated} updated,{' '}
+          {serverImport.summary.unchanged} unchanged
+          {!!serverImport.rowsRejected && `, ${serverImport.rowsRejected} rows set aside`}
+        </p>
+      )}
+      {serverImport.errors && serverImport.errors.length > 0 && (
+        <ul className="mt-2 max-h-32 overflow-y-auto text-sm text-red-700">
+          {serverImport.errors.map((error, index) => (
+            <li key={index}>{error}</li>
+          ))}
+        </ul>
+      )}
+      {!failed && serverImport.warnings && serverImport.warnings.length > 0 && (
+        <ul className="mt-2 max-h-32 overflow-y-auto text-sm text-amber-700">
+          {serverImport.warnings.map((warning, index) => (
+            <li key={index}>{warning}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
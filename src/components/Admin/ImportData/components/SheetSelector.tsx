@@ -0,0 +1,45 @@
+import React from 'react';
+import { Layers } from 'lucide-react';
+import { SheetData } from '../../../../utils/excel/types';
+
+interface SheetSelectorProps {
+  sheets: SheetData[];
+  selected: string[];
+  disabled?: boolean;
+  onChange: (selected: string[]) => void;
+}
+
+export const SheetSelector: React.FC<SheetSelectorProps> = ({
+  sheets,
+  selected,
+  disabled,
+  onChange
+}) => (
+  <div className="mt-4 p-4 bg-gray-50 rounded-lg">
+    <div className="flex items-center mb-2">
+      <Layers className="w-4 h-4 text-gray-600 mr-2" />
+      <h4 className="text-sm font-medium text-gray-900">Sheets to import</h4>
+    </div>
+    <div className="space-y-1">
+      {sheets.map(sheet => (
+        <label key={sheet.name} className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={selected.includes(sheet.name)}
+            disabled={disabled}
+            onChange={(e) => onChange(
+              e.target.checked
+                ? sheets.map(s => s.name).filter(name => name === sheet.name || selected.includes(name))
+                : selected.filter(name => name !== sheet.name)
+            )}
+            className="mr-2 rounded border-gray-300"
+          />
+          {sheet.name}
+          <span className="ml-2 text-xs text-gray-500">
+            {Math.max(sheet.data.length - 1, 0)} rows
+          </span>
+        </label>
+      ))}
+    </div>
+  </div>
+);
@@ -0,0 +1,53 @@
+import React from 'react';
+import { HelpCircle, Plus } from 'lucide-react';
+import { UnknownReference } from '../../../../utils/validation/referenceValidator';
+
+interface UnknownReferencesProps {
+  references: UnknownReference[];
+  disabled?: boolean;
+  onCreateStore: (reference: UnknownReference) => void;
+  onCreatePlaceholder: (reference: UnknownReference) => void;
+}
+
+export const UnknownReferences: React.FC<UnknownReferencesProps> = ({
+  references,
+  disabled,
+  onCreateStore,
+  onCreatePlaceholder
+}) => {
+  if (references.length === 0) return null;
+
+  return (
+    <div className="mt-4 p-4 bg-amber-50 rounded-lg">
+      <div className="flex items-center mb-2">
+        <HelpCircle className="w-4 h-4 text-amber-600 mr-2" />
+        <h4 className="text-sm font-medium text-amber-900">Unknown stores and team members</h4>
+      </div>
+      <ul className="max-h-40 overflow-y-auto divide-y divide-amber-100">
+        {references.map(reference => (
+          <li key={`${reference.field}:${reference.value}`} className="py-2 flex items-center justify-between">
+            <div className="text-sm text-amber-900">
+              {reference.field === 'branchNumber' ? 'Branch' : 'Staff code'}{' '}
+              <span className="font-medium">{reference.value}</span>
+              <span className="text-xs text-amber-700 ml-2">
+                {reference.rows.length} rows
+                {reference.suggestions.length > 0 && ` · did you mean ${reference.suggestions.join(', ')}?`}
+              </span>
+            </div>
+            <button
+              type="button"
+              disabled={disabled}
+              onClick={() => reference.field === 'branchNumber'
+                ? onCreateStore(reference)
+                : onCreatePlaceholder(reference)}
+              className="inline-flex items-center text-xs text-amber-800 hover:text-amber-900 disabled:opacity-50"
+            >
+              <Plus className="w-3 h-3 mr-1" />
+              {reference.field === 'branchNumber' ? 'Create store' : 'Add placeholder'}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
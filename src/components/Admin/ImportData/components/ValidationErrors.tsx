@@ -3,21 +3,79 @@ import { ValidationError } from '../../../../utils/validation/types';
 
 interface ValidationErrorsProps {
   errors: ValidationError[];
+  // Rows that look wrong but can still be imported once acknowledged
+  warnings?: ValidationError[];
+  warningsAcknowledged?: boolean;
+  onAcknowledgeWarnings?: (acknowledged: boolean) => void;
 }
 
-export const ValidationErrors: React.FC<ValidationErrorsProps> = ({ errors }) => {
-  if (errors.length === 0) return null;
+// Group issues from multi-sheet workbooks under their sheet name
+const groupBySheet = (issues: ValidationError[]) =>
+  issues.reduce((acc, issue) => {
+    const key = issue.sheet || '';
+    acc.set(key, [...(acc.get(key) || []), issue]);
+    return acc;
+  }, new Map<string, ValidationError[]>());
 
-  return (
-    <div className="mt-4">
-      <h4 className="text-sm font-medium text-red-700 mb-2">Validation Errors:</h4>
-      <div className="max-h-40 overflow-y-auto bg-red-50 rounded-md p-3">
-        {errors.map((error, index) => (
-          <div key={index} className="text-sm text-red-700 mb-1">
-            Row {error.row}: {error.message}
+const IssueList: React.FC<{ issues: ValidationError[]; label: string; tone: 'red' | 'amber' }> = ({
+  issues,
+  label,
+  tone
+}) => (
+  <div className={`max-h-40 overflow-y-auto rounded-md p-3 ${tone === 'red' ? 'bg-red-50' : 'bg-amber-50'}`}>
+    {[...groupBySheet(issues).entries()].map(([sheet, sheetIssues]) => (
+      <div key={sheet}>
+        {sheet && (
+          <div className={`text-sm font-medium mt-2 mb-1 ${tone === 'red' ? 'text-red-800' : 'text-amber-800'}`}>
+            Sheet "{sheet}" ({sheetIssues.length} {label})
+          </div>
+        )}
+        {sheetIssues.map((issue, index) => (
+          <div key={index} className={`text-sm mb-1 ${tone === 'red' ? 'text-red-700' : 'text-amber-700'}`}>
+            Row {issue.row}: {issue.message}
           </div>
         ))}
       </div>
+    ))}
+  </div>
+);
+
+export const ValidationErrors: React.FC<ValidationErrorsProps> = ({
+  errors,
+  warnings = [],
+  warningsAcknowledged,
+  onAcknowledgeWarnings
+}) => {
+  if (errors.length === 0 && warnings.length === 0) return null;
+
+  return (
+    <div className="mt-4 space-y-4">
+      {errors.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium text-red-700 mb-2">Validation Errors:</h4>
+          <IssueList issues={errors} label="errors" tone="red" />
+        </div>
+      )}
+
+      {warnings.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium text-amber-700 mb-2">
+            Warnings ({warnings.length}):
+          </h4>
+          <IssueList issues={warnings} label="warnings" tone="amber" />
+          {onAcknowledgeWarnings && (
+            <label className="flex items-center mt-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={!!warningsAcknowledged}
+                onChange={(e) => onAcknowledgeWarnings(e.target.checked)}
+                className="mr-2 rounded border-gray-300"
+              />
+              I have reviewed these warnings and want to import these rows anyway
+            </label>
+          )}
+        </div>
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -3,4 +3,10 @@ export { ImportProgress } from './ImportProgress';
 export { FileUploader } from './FileUploader';
 export { ValidationErrors } from './ValidationErrors';
 export { ModalHeader } from './ModalHeader';
-export { ModalFooter } from './ModalFooter';
\ No newline at end of file
+export { ModalFooter } from './ModalFooter';
+export { ImportPreview } from './ImportPreview';
+export { ColumnMappingStep } from './ColumnMappingStep';
+export { SheetSelector } from './SheetSelector';
+export { RejectedRows } from './RejectedRows';
+export { UnknownReferences } from './UnknownReferences';
+export { ServerImportStatus } from './ServerImportStatus';
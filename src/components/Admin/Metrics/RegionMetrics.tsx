@@ -1,21 +1,25 @@
 import React, { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { fetchStoresByRegion } from '../../../services/stores';
-import { fetchMetricsByRegion } from '../../../services/metrics';
+import { fetchRegionTotals } from '../../../services/rollups';
 import { Store, SalesMetrics, Region } from '../../../types';
 import { fetchRegions } from '../../../services/regions';
 import { DateRangeSelector } from '../../Dashboard/DateRangeSelector';
 import { PerformanceMetrics } from '../../Dashboard/PerformanceMetrics';
 import { SupplierPerformance } from '../../Dashboard/SupplierPerformance';
 import { AttachmentRateChart } from '../../Dashboard/AttachmentRateChart';
-import { suppliers } from '../../../data/suppliers';
-import { DateRange } from '../../../utils/dateUtils';
+import { useSuppliers } from '../../../hooks/useSuppliers';
+import { DateRange, getSelectionDates } from '../../../utils/dateUtils';
 import { CURRENT_DATE } from '../../../utils/dateUtils/constants';
 import { SelectedPeriod } from '../../../utils/dateUtils/types';
 
 export const RegionMetrics: React.FC = () => {
+  const suppliers = useSuppliers();
+  // Other dashboards link here with ?regionId= to open a region directly
+  const [searchParams] = useSearchParams();
   const [stores, setStores] = useState<Store[]>([]);
   const [regions, setRegions] = useState<Region[]>([]);
-  const [selectedRegionId, setSelectedRegionId] = useState<string>('all');
+  const [selectedRegionId, setSelectedRegionId] = useState<string>(searchParams.get('regionId') || 'all');
   const [metrics, setMetrics] = useState<SalesMetrics[]>([]);
   const [dateRange, setDateRange] = useState<DateRange>('mtd');
   const [customRange, setCustomRange] = useState({
@@ -29,16 +33,19 @@ export const RegionMetrics: React.FC = () => {
   });
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // The selected period and the one before it, for the comparisons
+  const selectionDates = getSelectionDates(dateRange, customRange, selectedPeriod, { includePrevious: true });
+  const selectionKey = selectionDates
+    ? `${selectionDates.startDate.getTime()}-${selectionDates.endDate.getTime()}`
+    : '';
 
   useEffect(() => {
     loadData();
-  }, []);
-
-  useEffect(() => {
-    loadData();
-  }, [selectedRegionId]);
+  }, [selectedRegionId, selectionKey]);
 
   const loadData = async () => {
+    if (!selectionDates) return;
+
     try {
       setLoading(true);
       setError(null);
@@ -46,7 +53,7 @@ export const RegionMetrics: React.FC = () => {
       // Load data in parallel
       const [storesData, metricsData, regionsData] = await Promise.all([
         fetchStoresByRegion(selectedRegionId),
-        fetchMetricsByRegion(selectedRegionId),
+        fetchRegionTotals(selectedRegionId, selectionDates.startDate, selectionDates.endDate),
         fetchRegions()
       ]);
 
@@ -118,6 +125,7 @@ export const RegionMetrics: React.FC = () => {
         dateRange={dateRange}
         customRange={customRange}
         selectedPeriod={selectedPeriod}
+        fetchComparison={(startDate, endDate) => fetchRegionTotals(selectedRegionId, startDate, endDate)}
       />
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -128,6 +136,7 @@ export const RegionMetrics: React.FC = () => {
             dateRange={dateRange}
             customRange={customRange}
             selectedPeriod={selectedPeriod}
+            targetScope={{ regionId: selectedRegionId === 'all' ? undefined : selectedRegionId }}
           />
         </div>
         <div>
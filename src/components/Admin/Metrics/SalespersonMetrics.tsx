@@ -1,18 +1,19 @@
 import React, { useState, useEffect } from 'react';
 import { fetchStoresByRegion } from '../../../services/stores';
 import { fetchSalespeople } from '../../../services/salespeople';
-import { fetchMetricsByStaff } from '../../../services/metrics';
+import { fetchStaffTotals } from '../../../services/rollups';
 import { Store, SalesMetrics } from '../../../types';
 import { UserProfile } from '../../../types/auth';
 import { DateRangeSelector } from '../../Dashboard/DateRangeSelector';
 import { PerformanceMetrics } from '../../Dashboard/PerformanceMetrics';
 import { SupplierPerformance } from '../../Dashboard/SupplierPerformance';
 import { AttachmentRateChart } from '../../Dashboard/AttachmentRateChart';
-import { suppliers } from '../../../data/suppliers';
-import { DateRange, CURRENT_DATE } from '../../../utils/dateUtils';
+import { useSuppliers } from '../../../hooks/useSuppliers';
+import { DateRange, CURRENT_DATE, getSelectionDates } from '../../../utils/dateUtils';
 import { SelectedPeriod } from '../../../utils/dateUtils/types';
 
 export const SalespersonMetrics: React.FC = () => {
+  const suppliers = useSuppliers();
   const [stores, setStores] = useState<Store[]>([]);
   const [salespeople, setSalespeople] = useState<UserProfile[]>([]);
   const [selectedStoreId, setSelectedStoreId] = useState<string>('');
@@ -31,6 +32,15 @@ export const SalespersonMetrics: React.FC = () => {
   });
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // The selected period and the one before it, for the comparisons
+  const selectionDates = getSelectionDates(dateRange, customRange, selectedPeriod, { includePrevious: true });
+  const selectionKey = selectionDates
+    ? `${selectionDates.startDate.getTime()}-${selectionDates.endDate.getTime()}`
+    : '';
+  const selectedStore = stores.find(s => s.id === selectedStoreId);
+  const selectedBranchNumbers = selectedStoreIds
+    .map(id => stores.find(s => s.id === id)?.branchNumber)
+    .filter((branchNumber): branchNumber is string => branchNumber !== undefined);
 
   useEffect(() => {
     loadStores();
@@ -54,7 +64,7 @@ export const SalespersonMetrics: React.FC = () => {
     if (selectedSalesperson && selectedStoreIds.length > 0) {
       loadMetrics();
     }
-  }, [selectedStoreIds]);
+  }, [selectedStoreIds, selectionKey]);
 
   const loadStores = async () => {
     try {
@@ -92,21 +102,20 @@ export const SalespersonMetrics: React.FC = () => {
       setMetrics([]);
       return;
     }
+    if (!selectionDates) return;
 
     try {
       setLoading(true);
-      const branchNumbers = selectedStoreIds
-        .map(id => stores.find(s => s.id === id)?.branchNumber)
-        .filter((branchNumber): branchNumber is string => branchNumber !== undefined);
-
       console.log('Fetching metrics for:', {
         staffCode: selectedSalesperson.staffCode,
-        branchNumbers
+        branchNumbers: selectedBranchNumbers
       });
 
-      const data = await fetchMetricsByStaff(
+      const data = await fetchStaffTotals(
         selectedSalesperson.staffCode,
-        branchNumbers
+        selectedBranchNumbers,
+        selectionDates.startDate,
+        selectionDates.endDate
       );
       setMetrics(data);
       setError(null);
@@ -118,6 +127,12 @@ export const SalespersonMetrics: React.FC = () => {
     }
   };
 
+  // The same period last year, for the year-over-year comparison
+  const fetchComparison = async (startDate: Date, endDate: Date) => {
+    if (!selectedSalesperson?.staffCode) return [];
+    return fetchStaffTotals(selectedSalesperson.staffCode, selectedBranchNumbers, startDate, endDate);
+  };
+
   const handleSalespersonChange = (salespersonId: string) => {
     const salesperson = salespeople.find(sp => sp.id === salespersonId);
     setSelectedSalesperson(salesperson || null);
@@ -228,6 +243,7 @@ export const SalespersonMetrics: React.FC = () => {
                 dateRange={dateRange}
                 customRange={customRange}
                 selectedPeriod={selectedPeriod}
+                fetchComparison={fetchComparison}
               />
 
               <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -238,6 +254,11 @@ export const SalespersonMetrics: React.FC = () => {
                     dateRange={dateRange}
                     customRange={customRange}
                     selectedPeriod={selectedPeriod}
+                    targetScope={{
+                      staffCode: selectedSalesperson.staffCode,
+                      storeId: selectedStore?.id,
+                      regionId: selectedStore?.regionId
+                    }}
                   />
                 </div>
                 <div>
@@ -1,22 +1,26 @@
 import React, { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { fetchStoresByRegion } from '../../../services/stores';
-import { fetchMetricsByStore } from '../../../services/metrics';
+import { fetchStoreTotals } from '../../../services/rollups';
 import { Store, SalesMetrics, Region } from '../../../types';
 import { fetchRegions } from '../../../services/regions';
 import { DateRangeSelector } from '../../Dashboard/DateRangeSelector';
 import { PerformanceMetrics } from '../../Dashboard/PerformanceMetrics';
 import { SupplierPerformance } from '../../Dashboard/SupplierPerformance';
 import { AttachmentRateChart } from '../../Dashboard/AttachmentRateChart';
-import { suppliers } from '../../../data/suppliers';
-import { DateRange } from '../../../utils/dateUtils';
+import { useSuppliers } from '../../../hooks/useSuppliers';
+import { DateRange, getSelectionDates } from '../../../utils/dateUtils';
 import { CURRENT_DATE } from '../../../utils/dateUtils/constants';
 import { SelectedPeriod } from '../../../utils/dateUtils/types';
 import { StoreSelector } from './components/StoreSelector';
 
 export const StoreMetrics: React.FC = () => {
+  const suppliers = useSuppliers();
+  // Other dashboards link here with ?storeId= to open a store directly
+  const [searchParams] = useSearchParams();
   const [stores, setStores] = useState<Store[]>([]);
   const [regions, setRegions] = useState<Region[]>([]);
-  const [selectedStoreId, setSelectedStoreId] = useState<string>('all');
+  const [selectedStoreId, setSelectedStoreId] = useState<string>(searchParams.get('storeId') || 'all');
   const [metrics, setMetrics] = useState<SalesMetrics[]>([]);
   const [dateRange, setDateRange] = useState<DateRange>('mtd');
   const [customRange, setCustomRange] = useState({
@@ -30,6 +34,12 @@ export const StoreMetrics: React.FC = () => {
   });
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // The selected period and the one before it, for the comparisons
+  const selectionDates = getSelectionDates(dateRange, customRange, selectedPeriod, { includePrevious: true });
+  const selectionKey = selectionDates
+    ? `${selectionDates.startDate.getTime()}-${selectionDates.endDate.getTime()}`
+    : '';
+  const selectedStore = stores.find(s => s.id === selectedStoreId);
 
   useEffect(() => {
     loadData();
@@ -37,7 +47,7 @@ export const StoreMetrics: React.FC = () => {
 
   useEffect(() => {
     loadMetrics();
-  }, [selectedStoreId]);
+  }, [selectedStoreId, selectionKey, stores]);
 
   const loadData = async () => {
     try {
@@ -50,9 +60,9 @@ export const StoreMetrics: React.FC = () => {
         fetchRegions()
       ]);
 
+      // Setting the stores loads the metrics of a store picked before they arrived
       setStores(storesData);
       setRegions(regionsData);
-      await loadMetrics();
 
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Failed to load data';
@@ -64,17 +74,19 @@ export const StoreMetrics: React.FC = () => {
   };
 
   const loadMetrics = async () => {
+    if (!selectionDates) return;
+
     try {
       setLoading(true);
       setError(null);
 
       if (selectedStoreId === 'all') {
-        const data = await fetchMetricsByStore([]);
+        const data = await fetchStoreTotals([], selectionDates.startDate, selectionDates.endDate);
         setMetrics(data);
       } else {
         const store = stores.find(s => s.id === selectedStoreId);
         if (store) {
-          const data = await fetchMetricsByStore([store.branchNumber]);
+          const data = await fetchStoreTotals([store.branchNumber], selectionDates.startDate, selectionDates.endDate);
           setMetrics(data);
         }
       }
@@ -127,6 +139,11 @@ export const StoreMetrics: React.FC = () => {
         dateRange={dateRange}
         customRange={customRange}
         selectedPeriod={selectedPeriod}
+        fetchComparison={(startDate, endDate) => fetchStoreTotals(
+          selectedStore ? [selectedStore.branchNumber] : [],
+          startDate,
+          endDate
+        )}
       />
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -137,6 +154,7 @@ export const StoreMetrics: React.FC = () => {
             dateRange={dateRange}
             customRange={customRange}
             selectedPeriod={selectedPeriod}
+            targetScope={{ storeId: selectedStore?.id, regionId: selectedStore?.regionId }}
           />
         </div>
         <div>
@@ -88,7 +88,7 @@ export const StoreModal: React.FC<StoreModalProps> = ({
       <div className="bg-white rounded-lg shadow-xl w-full max-w-md">
         <div className="flex items-center justify-between p-6 border-b">
           <h3 className="text-lg font-medium">
-            {store ? 'Edit Store' : 'Add Store'}
+            {store?.id ? 'Edit Store' : 'Add Store'}
           </h3>
           <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
             <X className="w-6 h-6" />
@@ -172,7 +172,7 @@ export const StoreModal: React.FC<StoreModalProps> = ({
               className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700"
               disabled={loading || regions.length === 0}
             >
-              {store ? 'Update' : 'Create'}
+              {store?.id ? 'Update' : 'Create'}
             </button>
           </div>
         </form>
@@ -0,0 +1,302 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { X } from 'lucide-react';
+import { Supplier, SupplierCategory, SupplierMeasure } from '../../../types';
+
+interface SupplierModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (data: Omit<Supplier, 'id'>) => void;
+  supplier: Supplier | null;
+}
+
+const MEASURES: { value: SupplierMeasure; label: string }[] = [
+  { value: 'quantity', label: 'Quantity' },
+  { value: 'sales', label: 'Sales' },
+  { value: 'margin', label: 'Margin' }
+];
+
+const CATEGORIES: { value: SupplierCategory; label: string }[] = [
+  { value: 'accessory', label: 'Accessory' },
+  { value: 'device', label: 'Device' },
+  { value: 'other', label: 'Other' }
+];
+
+const EMPTY_FORM = {
+  name: '',
+  color: '#9ca3af',
+  category: 'accessory' as SupplierCategory,
+  activeFrom: '',
+  activeTo: '',
+  importKey: '',
+  importColumns: ['quantity', 'sales', 'margin'] as SupplierMeasure[],
+  aliases: { quantity: '', sales: '', margin: '' } as Record<SupplierMeasure, string>,
+  showShareKPI: false
+};
+
+// Charts use translucent rgba colours; the colour picker only handles hex
+const toHex = (color: string): string => {
+  const match = color.match(/rgba?\((\d+),\s*(\d+),\s*(\d+)/);
+  if (!match) return color.startsWith('#') ? color : EMPTY_FORM.color;
+  return '#' + match.slice(1, 4).map(part => Number(part).toString(16).padStart(2, '0')).join('');
+};
+
+const toRgba = (hex: string): string => {
+  const value = parseInt(hex.slice(1), 16);
+  return `rgba(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255}, 0.7)`;
+};
+
+// "Cellnet Sales Value" -> "cellnetSalesValue"
+const toImportKey = (name: string): string =>
+  name
+    .trim()
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((word, index) => index === 0
+      ? word.toLowerCase()
+      : word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+    .join('');
+
+const splitAliases = (value: string): string[] =>
+  value.split(',').map(alias => alias.trim()).filter(Boolean);
+
+export const SupplierModal: React.FC<SupplierModalProps> = ({
+  isOpen,
+  onClose,
+  onSave,
+  supplier,
+}) => {
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const nameInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (supplier) {
+      setFormData({
+        name: supplier.name,
+        color: toHex(supplier.color),
+        category: supplier.category,
+        activeFrom: supplier.activeFrom || '',
+        activeTo: supplier.activeTo || '',
+        importKey: supplier.importKey,
+        importColumns: supplier.importColumns,
+        aliases: {
+          quantity: (supplier.importAliases?.quantity || []).join(', '),
+          sales: (supplier.importAliases?.sales || []).join(', '),
+          margin: (supplier.importAliases?.margin || []).join(', ')
+        },
+        showShareKPI: !!supplier.showShareKPI
+      });
+    } else {
+      setFormData(EMPTY_FORM);
+    }
+
+    // Focus the name input when modal opens
+    if (isOpen && nameInputRef.current) {
+      setTimeout(() => {
+        nameInputRef.current?.focus();
+      }, 100);
+    }
+  }, [supplier, isOpen]);
+
+  const toggleColumn = (measure: SupplierMeasure) => {
+    const importColumns = formData.importColumns.includes(measure)
+      ? formData.importColumns.filter(m => m !== measure)
+      : MEASURES.map(m => m.value).filter(m => m === measure || formData.importColumns.includes(m));
+    setFormData({ ...formData, importColumns });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await onSave({
+      name: formData.name.trim(),
+      color: toRgba(formData.color),
+      category: formData.category,
+      activeFrom: formData.activeFrom || undefined,
+      activeTo: formData.activeTo || undefined,
+      importKey: formData.importKey || toImportKey(formData.name),
+      importColumns: formData.importColumns,
+      importAliases: Object.fromEntries(
+        formData.importColumns.map(measure => [measure, splitAliases(formData.aliases[measure])])
+      ),
+      showShareKPI: formData.showShareKPI
+    });
+    setFormData(EMPTY_FORM);
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b">
+          <h3 className="text-lg font-medium">
+            {supplier ? 'Edit Supplier' : 'Add Supplier'}
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6">
+          <div className="space-y-4">
+            <div className="grid grid-cols-[1fr_auto] gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  Supplier Name
+                </label>
+                <input
+                  ref={nameInputRef}
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  placeholder="Enter supplier name"
+                  required
+                  autoComplete="off"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  Colour
+                </label>
+                <input
+                  type="color"
+                  value={formData.color}
+                  onChange={(e) => setFormData({ ...formData, color: e.target.value })}
+                  className="mt-1 h-10 w-16 rounded-md border-gray-300"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                Category
+              </label>
+              <select
+                value={formData.category}
+                onChange={(e) => setFormData({ ...formData, category: e.target.value as SupplierCategory })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              >
+                {CATEGORIES.map(category => (
+                  <option key={category.value} value={category.value}>
+                    {category.label}
+                  </option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-gray-500">
+                Attachment rates compare accessory quantities against device quantities.
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  Active From
+                </label>
+                <input
+                  type="date"
+                  value={formData.activeFrom}
+                  onChange={(e) => setFormData({ ...formData, activeFrom: e.target.value })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  Active To
+                </label>
+                <input
+                  type="date"
+                  value={formData.activeTo}
+                  min={formData.activeFrom || undefined}
+                  onChange={(e) => setFormData({ ...formData, activeTo: e.target.value })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                Import Key
+              </label>
+              <input
+                type="text"
+                value={formData.importKey}
+                onChange={(e) => setFormData({ ...formData, importKey: e.target.value })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                placeholder={toImportKey(formData.name) || 'e.g. cellnet'}
+                pattern="[A-Za-z][A-Za-z0-9]*"
+                autoComplete="off"
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                Saved column mappings refer to this key, so avoid changing it once data has been imported.
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Import Columns
+              </label>
+              <div className="space-y-3">
+                {MEASURES.map(measure => {
+                  const checked = formData.importColumns.includes(measure.value);
+                  return (
+                    <div key={measure.value}>
+                      <label className="flex items-center text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={checked}
+                          onChange={() => toggleColumn(measure.value)}
+                          className="mr-2 rounded border-gray-300"
+                        />
+                        {formData.name || 'Supplier'} {measure.label}
+                      </label>
+                      {checked && (
+                        <input
+                          type="text"
+                          value={formData.aliases[measure.value]}
+                          onChange={(e) => setFormData({
+                            ...formData,
+                            aliases: { ...formData.aliases, [measure.value]: e.target.value }
+                          })}
+                          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm text-sm focus:border-blue-500 focus:ring-blue-500"
+                          placeholder="Other header names, separated by commas"
+                          autoComplete="off"
+                        />
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={formData.showShareKPI}
+                onChange={(e) => setFormData({ ...formData, showShareKPI: e.target.checked })}
+                className="mr-2 rounded border-gray-300"
+              />
+              Show this supplier's share of accessory sales as a KPI
+            </label>
+          </div>
+
+          <div className="mt-6 flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700"
+              disabled={formData.importColumns.length === 0}
+            >
+              {supplier ? 'Update' : 'Create'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,249 @@
+import React, { useState, useEffect } from 'react';
+import { Edit, Trash2, Plus } from 'lucide-react';
+import { Supplier } from '../../../types';
+import {
+  fetchSuppliers,
+  createSupplier,
+  updateSupplier,
+  deleteSupplier,
+  seedDefaultSuppliers
+} from '../../../services/suppliers';
+import { DEFAULT_SUPPLIERS, isSupplierActive } from '../../../data/suppliers';
+import { SupplierModal } from './SupplierModal';
+
+const CATEGORY_LABELS: Record<Supplier['category'], string> = {
+  accessory: 'Accessory',
+  device: 'Device',
+  other: 'Other'
+};
+
+const formatActiveRange = (supplier: Supplier): string => {
+  if (!supplier.activeFrom && !supplier.activeTo) return 'Always';
+  if (!supplier.activeTo) return `From ${supplier.activeFrom}`;
+  if (!supplier.activeFrom) return `Until ${supplier.activeTo}`;
+  return `${supplier.activeFrom} to ${supplier.activeTo}`;
+};
+
+export const SuppliersList: React.FC = () => {
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [selectedSupplier, setSelectedSupplier] = useState<Supplier | null>(null);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+      setSuppliers(await fetchSuppliers());
+      setError(null);
+    } catch (err) {
+      setError('Failed to load suppliers');
+      console.error('Error loading suppliers:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSeed = async () => {
+    try {
+      await seedDefaultSuppliers(DEFAULT_SUPPLIERS);
+      await loadData();
+    } catch (err) {
+      setError('Failed to save the built-in suppliers');
+      console.error('Error seeding suppliers:', err);
+    }
+  };
+
+  const handleEdit = (supplier: Supplier) => {
+    setSelectedSupplier(supplier);
+    setIsModalOpen(true);
+  };
+
+  const handleDelete = async (supplier: Supplier) => {
+    if (suppliers.length === 1) {
+      setError('The last supplier cannot be deleted, as the built-in suppliers would take its place');
+      return;
+    }
+
+    const message = `Delete ${supplier.name}? Metrics already imported for this supplier will show as "Supplier ${supplier.id}". ` +
+      'To stop importing a supplier but keep its history, set an Active To date instead.';
+
+    if (window.confirm(message)) {
+      try {
+        await deleteSupplier(supplier.id, suppliers);
+        setSuppliers(suppliers.filter(s => s.id !== supplier.id));
+        setError(null);
+      } catch (err) {
+        setError('Failed to delete supplier');
+        console.error('Error deleting supplier:', err);
+      }
+    }
+  };
+
+  const handleSave = async (data: Omit<Supplier, 'id'>) => {
+    const duplicateKey = suppliers.find(s =>
+      s.importKey === data.importKey && s.id !== selectedSupplier?.id
+    );
+    if (duplicateKey) {
+      setError(`Import key "${data.importKey}" is already used by ${duplicateKey.name}`);
+      return;
+    }
+
+    try {
+      if (selectedSupplier) {
+        await updateSupplier(selectedSupplier.id, data);
+        setSuppliers(suppliers.map(supplier =>
+          supplier.id === selectedSupplier.id ? { ...supplier, ...data } : supplier
+        ));
+      } else {
+        const newSupplierId = await createSupplier(data, suppliers);
+        setSuppliers([...suppliers, { id: newSupplierId, ...data }]);
+      }
+      setIsModalOpen(false);
+      setSelectedSupplier(null);
+      setError(null);
+    } catch (err) {
+      setError(selectedSupplier ? 'Failed to update supplier' : 'Failed to create supplier');
+      console.error('Error saving supplier:', err);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-48">
+        <div className="text-gray-600">Loading suppliers...</div>
+      </div>
+    );
+  }
+
+  const today = new Date();
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-2xl font-bold text-gray-900">Suppliers</h2>
+        <button
+          onClick={() => {
+            setSelectedSupplier(null);
+            setIsModalOpen(true);
+          }}
+          disabled={suppliers.length === 0}
+          title={suppliers.length === 0 ? 'Save the built-in suppliers first' : undefined}
+          className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          <Plus className="w-5 h-5 mr-2" />
+          Add Supplier
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 text-red-700 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      {suppliers.length === 0 && (
+        <div className="mb-4 p-4 bg-blue-50 text-blue-800 rounded-lg flex items-center justify-between">
+          <span className="text-sm">
+            No suppliers have been saved yet, so the built-in list of {DEFAULT_SUPPLIERS.length} suppliers is in use. Save it before adding suppliers.
+          </span>
+          <button
+            onClick={handleSeed}
+            className="ml-4 px-3 py-1.5 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700"
+          >
+            Save built-in suppliers
+          </button>
+        </div>
+      )}
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <table className="min-w-full">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Supplier
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Category
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Active
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Import Columns
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {suppliers.map((supplier) => (
+              <tr key={supplier.id}>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <div className="flex items-center">
+                    <span
+                      className="w-3 h-3 rounded-full mr-3"
+                      style={{ backgroundColor: supplier.color }}
+                    />
+                    <div className="text-sm font-medium text-gray-900">
+                      {supplier.name}
+                    </div>
+                  </div>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {CATEGORY_LABELS[supplier.category]}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm">
+                  <span className={isSupplierActive(supplier, today) ? 'text-gray-500' : 'text-amber-600'}>
+                    {formatActiveRange(supplier)}
+                  </span>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {supplier.importColumns
+                    .map(measure => `${supplier.name} ${measure.charAt(0).toUpperCase()}${measure.slice(1)}`)
+                    .join(', ')}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                  <button
+                    onClick={() => handleEdit(supplier)}
+                    className="text-blue-600 hover:text-blue-900 mr-4"
+                  >
+                    <Edit className="w-5 h-5" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(supplier)}
+                    className="text-red-600 hover:text-red-900"
+                  >
+                    <Trash2 className="w-5 h-5" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+            {suppliers.length === 0 && (
+              <tr>
+                <td colSpan={5} className="px-6 py-4 text-center text-gray-500">
+                  No suppliers found
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <SupplierModal
+        isOpen={isModalOpen}
+        onClose={() => {
+          setIsModalOpen(false);
+          setSelectedSupplier(null);
+        }}
+        onSave={handleSave}
+        supplier={selectedSupplier}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,253 @@
+import React, { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import { KPITarget, TargetKPI, TargetLevel, Store, Region, Supplier } from '../../../types';
+import { UserProfile } from '../../../types/auth';
+import { TARGET_KPI_LABELS, TARGET_LEVEL_LABELS } from '../../../data/targets';
+
+interface TargetModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (data: Omit<KPITarget, 'id'>) => void;
+  target: KPITarget | null;
+  regions: Region[];
+  stores: Store[];
+  salespeople: UserProfile[];
+  suppliers: Supplier[];
+}
+
+const EMPTY_FORM = {
+  kpi: 'attachmentRate' as TargetKPI,
+  level: 'national' as TargetLevel,
+  scopeId: '',
+  supplierId: '',
+  low: '',
+  medium: '',
+  effectiveFrom: '',
+  effectiveTo: ''
+};
+
+export const TargetModal: React.FC<TargetModalProps> = ({
+  isOpen,
+  onClose,
+  onSave,
+  target,
+  regions,
+  stores,
+  salespeople,
+  suppliers
+}) => {
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  useEffect(() => {
+    if (target) {
+      setFormData({
+        kpi: target.kpi,
+        level: target.level,
+        scopeId: target.scopeId || '',
+        supplierId: target.supplierId === undefined ? '' : String(target.supplierId),
+        low: String(target.low),
+        medium: String(target.medium),
+        effectiveFrom: target.effectiveFrom || '',
+        effectiveTo: target.effectiveTo || ''
+      });
+    } else {
+      setFormData(EMPTY_FORM);
+    }
+  }, [target, isOpen]);
+
+  const scopeOptions = formData.level === 'region'
+    ? regions.map(region => ({ value: region.id, label: region.name }))
+    : formData.level === 'store'
+      ? stores.map(store => ({ value: store.id, label: `${store.name} (Branch ${store.branchNumber})` }))
+      : salespeople.map(person => ({ value: person.staffCode, label: `${person.name} (${person.staffCode})` }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await onSave({
+      kpi: formData.kpi,
+      level: formData.level,
+      scopeId: formData.level === 'national' ? undefined : formData.scopeId,
+      supplierId: formData.kpi === 'supplierShare' && formData.supplierId ? Number(formData.supplierId) : undefined,
+      low: Number(formData.low),
+      medium: Number(formData.medium),
+      effectiveFrom: formData.effectiveFrom || undefined,
+      effectiveTo: formData.effectiveTo || undefined
+    });
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b">
+          <h3 className="text-lg font-medium">
+            {target ? 'Edit Target' : 'Add Target'}
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6">
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                KPI
+              </label>
+              <select
+                value={formData.kpi}
+                onChange={(e) => setFormData({ ...formData, kpi: e.target.value as TargetKPI })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              >
+                {(Object.keys(TARGET_KPI_LABELS) as TargetKPI[]).map(kpi => (
+                  <option key={kpi} value={kpi}>
+                    {TARGET_KPI_LABELS[kpi]}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {formData.kpi === 'supplierShare' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  Supplier
+                </label>
+                <select
+                  value={formData.supplierId}
+                  onChange={(e) => setFormData({ ...formData, supplierId: e.target.value })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                >
+                  <option value="">All suppliers</option>
+                  {suppliers.filter(s => s.showShareKPI).map(supplier => (
+                    <option key={supplier.id} value={supplier.id}>
+                      {supplier.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  Level
+                </label>
+                <select
+                  value={formData.level}
+                  onChange={(e) => setFormData({ ...formData, level: e.target.value as TargetLevel, scopeId: '' })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                >
+                  {(Object.keys(TARGET_LEVEL_LABELS) as TargetLevel[]).map(level => (
+                    <option key={level} value={level}>
+                      {TARGET_LEVEL_LABELS[level]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {formData.level !== 'national' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">
+                    {TARGET_LEVEL_LABELS[formData.level]}
+                  </label>
+                  <select
+                    value={formData.scopeId}
+                    onChange={(e) => setFormData({ ...formData, scopeId: e.target.value })}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                    required
+                  >
+                    <option value="">Select...</option>
+                    {scopeOptions.map(option => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
+            <p className="text-xs text-gray-500">
+              A team member's target overrides their store's, which overrides its region's and the national one.
+            </p>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  Meeting From
+                </label>
+                <input
+                  type="number"
+                  step="any"
+                  min="0"
+                  value={formData.low}
+                  onChange={(e) => setFormData({ ...formData, low: e.target.value })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  Exceeding From
+                </label>
+                <input
+                  type="number"
+                  step="any"
+                  min={formData.low || '0'}
+                  value={formData.medium}
+                  onChange={(e) => setFormData({ ...formData, medium: e.target.value })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  Effective From
+                </label>
+                <input
+                  type="date"
+                  value={formData.effectiveFrom}
+                  onChange={(e) => setFormData({ ...formData, effectiveFrom: e.target.value })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  Effective To
+                </label>
+                <input
+                  type="date"
+                  value={formData.effectiveTo}
+                  min={formData.effectiveFrom || undefined}
+                  onChange={(e) => setFormData({ ...formData, effectiveTo: e.target.value })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">
+              Dated targets take precedence over open-ended ones at the same level, e.g. for a promotion month.
+            </p>
+          </div>
+
+          <div className="mt-6 flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700"
+            >
+              {target ? 'Update' : 'Create'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,249 @@
+import React, { useState, useEffect } from 'react';
+import { Edit, Trash2, Plus } from 'lucide-react';
+import { KPITarget, Store, Region } from '../../../types';
+import { UserProfile } from '../../../types/auth';
+import { fetchTargets, createTarget, updateTarget, deleteTarget } from '../../../services/targets';
+import { fetchStores } from '../../../services/stores';
+import { fetchRegions } from '../../../services/regions';
+import { fetchSalespeople } from '../../../services/salespeople';
+import {
+  DEFAULT_TARGETS,
+  TARGET_KPI_LABELS,
+  TARGET_LEVEL_LABELS,
+  isTargetEffective
+} from '../../../data/targets';
+import { getSupplierName } from '../../../data/suppliers';
+import { useSuppliers } from '../../../hooks/useSuppliers';
+import { TargetModal } from './TargetModal';
+
+const LEVEL_ORDER = Object.keys(TARGET_LEVEL_LABELS);
+
+const formatEffectiveRange = (target: KPITarget): string => {
+  if (!target.effectiveFrom && !target.effectiveTo) return 'Always';
+  if (!target.effectiveTo) return `From ${target.effectiveFrom}`;
+  if (!target.effectiveFrom) return `Until ${target.effectiveTo}`;
+  return `${target.effectiveFrom} to ${target.effectiveTo}`;
+};
+
+const formatKPI = (target: KPITarget): string => target.kpi === 'supplierShare' && target.supplierId !== undefined
+  ? `${getSupplierName(target.supplierId)} Share`
+  : TARGET_KPI_LABELS[target.kpi];
+
+const sortTargets = (targets: KPITarget[]): KPITarget[] => [...targets].sort((a, b) =>
+  a.kpi.localeCompare(b.kpi) ||
+  LEVEL_ORDER.indexOf(a.level) - LEVEL_ORDER.indexOf(b.level) ||
+  (a.effectiveFrom || '').localeCompare(b.effectiveFrom || '')
+);
+
+export const TargetsList: React.FC = () => {
+  const suppliers = useSuppliers();
+  const [targets, setTargets] = useState<KPITarget[]>([]);
+  const [regions, setRegions] = useState<Region[]>([]);
+  const [stores, setStores] = useState<Store[]>([]);
+  const [salespeople, setSalespeople] = useState<UserProfile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [selectedTarget, setSelectedTarget] = useState<KPITarget | null>(null);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+      const [targetsData, regionsData, storesData, salespeopleData] = await Promise.all([
+        fetchTargets(),
+        fetchRegions(),
+        fetchStores(),
+        fetchSalespeople()
+      ]);
+      setTargets(sortTargets(targetsData));
+      setRegions(regionsData);
+      setStores(storesData);
+      setSalespeople(salespeopleData);
+      setError(null);
+    } catch (err) {
+      setError('Failed to load targets');
+      console.error('Error loading targets:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getScopeName = (target: KPITarget): string => {
+    switch (target.level) {
+      case 'region':
+        return regions.find(r => r.id === target.scopeId)?.name || target.scopeId || '';
+      case 'store':
+        return stores.find(s => s.id === target.scopeId)?.name || target.scopeId || '';
+      case 'staff':
+        return salespeople.find(p => p.staffCode === target.scopeId)?.name || target.scopeId || '';
+      default:
+        return 'All stores';
+    }
+  };
+
+  const handleEdit = (target: KPITarget) => {
+    setSelectedTarget(target);
+    setIsModalOpen(true);
+  };
+
+  const handleDelete = async (target: KPITarget) => {
+    if (window.confirm(`Delete the ${formatKPI(target)} target for ${getScopeName(target)}?`)) {
+      try {
+        await deleteTarget(target.id);
+        setTargets(targets.filter(t => t.id !== target.id));
+        setError(null);
+      } catch (err) {
+        setError('Failed to delete target');
+        console.error('Error deleting target:', err);
+      }
+    }
+  };
+
+  const handleSave = async (data: Omit<KPITarget, 'id'>) => {
+    if (data.medium < data.low) {
+      setError('The exceeding level must be at least the meeting level');
+      return;
+    }
+
+    try {
+      if (selectedTarget) {
+        await updateTarget(selectedTarget.id, data);
+        setTargets(sortTargets(targets.map(target =>
+          target.id === selectedTarget.id ? { ...data, id: target.id } : target
+        )));
+      } else {
+        const id = await createTarget(data);
+        setTargets(sortTargets([...targets, { ...data, id }]));
+      }
+      setIsModalOpen(false);
+      setSelectedTarget(null);
+      setError(null);
+    } catch (err) {
+      setError(selectedTarget ? 'Failed to update target' : 'Failed to create target');
+      console.error('Error saving target:', err);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-48">
+        <div className="text-gray-600">Loading targets...</div>
+      </div>
+    );
+  }
+
+  const today = new Date();
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-2xl font-bold text-gray-900">KPI Targets</h2>
+        <button
+          onClick={() => {
+            setSelectedTarget(null);
+            setIsModalOpen(true);
+          }}
+          className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          <Plus className="w-5 h-5 mr-2" />
+          Add Target
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 text-red-700 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      <div className="mb-4 p-4 bg-blue-50 text-blue-800 rounded-lg text-sm">
+        Where no target is set, the built-in national targets apply:{' '}
+        {DEFAULT_TARGETS.map(target => `${TARGET_KPI_LABELS[target.kpi]} ${target.low}/${target.medium}`).join(', ')}.
+      </div>
+
+      <div className="bg-white shadow rounded-lg overflow-hidden">
+        <table className="min-w-full">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                KPI
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Applies To
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Meeting / Exceeding
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Effective
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {targets.map((target) => (
+              <tr key={target.id}>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                  {formatKPI(target)}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  <span className="text-gray-400 mr-2">{TARGET_LEVEL_LABELS[target.level]}</span>
+                  {getScopeName(target)}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {target.low} / {target.medium}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm">
+                  <span className={isTargetEffective(target, today) ? 'text-gray-500' : 'text-amber-600'}>
+                    {formatEffectiveRange(target)}
+                  </span>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                  <button
+                    onClick={() => handleEdit(target)}
+                    className="text-blue-600 hover:text-blue-900 mr-4"
+                  >
+                    <Edit className="w-5 h-5" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(target)}
+                    className="text-red-600 hover:text-red-900"
+                  >
+                    <Trash2 className="w-5 h-5" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+            {targets.length === 0 && (
+              <tr>
+                <td colSpan={5} className="px-6 py-4 text-center text-gray-500">
+                  No targets set
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <TargetModal
+        isOpen={isModalOpen}
+        onClose={() => {
+          setIsModalOpen(false);
+          setSelectedTarget(null);
+        }}
+        onSave={handleSave}
+        target={selectedTarget}
+        regions={regions}
+        stores={stores}
+        salespeople={salespeople}
+        suppliers={suppliers}
+      />
+    </div>
+  );
+};
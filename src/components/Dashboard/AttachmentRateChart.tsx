@@ -11,7 +11,8 @@ import {
 import { Bar } from 'react-chartjs-2';
 import { SalesMetrics, DateSelection } from '../../types';
 import { DateRange, filterMetricsByDateRange } from '../../utils/dateUtils';
-import { getSupplierName, getSupplierColor } from '../../data/suppliers';
+import { getSupplierName, getSupplierColor, isDeviceSupplier, joinSupplierNames } from '../../data/suppliers';
+import { useSuppliers } from '../../hooks/useSuppliers';
 import { formatPercentage, formatNumber } from '../../utils/formatting/index';
 
 ChartJS.register(
@@ -42,15 +43,17 @@ export const AttachmentRateChart: React.FC<AttachmentRateChartProps> = ({
   customRange,
   selectedPeriod
 }) => {
+  const suppliers = useSuppliers();
   const filteredMetrics = filterMetricsByDateRange(metrics, dateRange, customRange, selectedPeriod);
+  const deviceName = joinSupplierNames(suppliers.filter(s => s.category === 'device'));
   
-  // Get Likewize Device quantity (baseline)
+  // Get device quantity (baseline)
   const deviceSupplierQuantity = filteredMetrics
-    .filter(m => m.supplierId === 5)
+    .filter(m => isDeviceSupplier(m.supplierId))
     .reduce((sum, m) => sum + m.quantity, 0);
 
-  // Calculate individual attachment rates for suppliers 1-4
-  const attachmentRates = [1, 2, 3, 4].map(supplierId => {
+  // Calculate individual attachment rates for the accessory suppliers
+  const attachmentRates = suppliers.filter(s => s.category === 'accessory').map(({ id: supplierId }) => {
     const supplierQuantity = filteredMetrics
       .filter(m => m.supplierId === supplierId)
       .reduce((sum, m) => sum + m.quantity, 0);
@@ -104,7 +107,7 @@ export const AttachmentRateChart: React.FC<AttachmentRateChartProps> = ({
       },
       title: {
         display: true,
-        text: `Attachment Rates to ${getSupplierName(5)}`,
+        text: `Attachment Rates to ${deviceName}`,
         padding: 20,
         font: {
           size: 16,
@@ -121,12 +124,12 @@ export const AttachmentRateChart: React.FC<AttachmentRateChartProps> = ({
             if (index === attachmentRates.length) {
               lines.push(`Combined Rate: ${formatPercentage(value / 100)}`);
               lines.push(`Total Quantity: ${formatNumber(totalQuantitySuppliers)}`);
-              lines.push(`${getSupplierName(5)}: ${formatNumber(deviceSupplierQuantity)}`);
+              lines.push(`${deviceName}: ${formatNumber(deviceSupplierQuantity)}`);
             } else {
               const supplier = attachmentRates[index];
-              lines.push(`${supplier.name}: ${formatPercentage(value / 100)}`);
+              lines.push(`${getSupplierName(supplier.supplierId)}: ${formatPercentage(value / 100)}`);
               lines.push(`Quantity: ${formatNumber(supplier.quantity)}`);
-              lines.push(`${getSupplierName(5)}: ${formatNumber(deviceSupplierQuantity)}`);
+              lines.push(`${deviceName}: ${formatNumber(deviceSupplierQuantity)}`);
             }
             return lines;
           }
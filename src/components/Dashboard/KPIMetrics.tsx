@@ -1,35 +1,54 @@
 import React from 'react';
-import { SalesMetrics, DateRange } from '../../types';
+import { SalesMetrics, DateRange, TargetScope } from '../../types';
 import { AttachmentRateKPI } from './KPIs/AttachmentRateKPI';
 import { AverageSalesKPI } from './KPIs/AverageSalesKPI';
-import { PacificommShareKPI } from './KPIs/PacificommShareKPI';
+import { SupplierShareKPI } from './KPIs/SupplierShareKPI';
+import { RevenueRatioKPI } from './KPIs/RevenueRatioKPI';
+import { useSuppliers } from '../../hooks/useSuppliers';
 
 interface KPIMetricsProps {
   metrics: SalesMetrics[];
-  deviceSupplierQuantity: number;
   dateRange: DateRange;
+  // Whose targets the KPIs are measured against, as of targetDate
+  targetScope: TargetScope;
+  targetDate: Date;
 }
 
 export const KPIMetrics: React.FC<KPIMetricsProps> = ({
   metrics,
-  deviceSupplierQuantity,
   dateRange,
+  targetScope,
+  targetDate,
 }) => {
   const showAverageSales = ['mtd', 'monthly'].includes(dateRange);
+  const suppliers = useSuppliers();
+  const shareSuppliers = suppliers.filter(s => s.showShareKPI);
+  // Only meaningful once device sales amounts are part of the import
+  const showRevenueRatio = suppliers.some(s => s.category === 'device' && s.importColumns.includes('sales'));
 
   return (
     <div className="space-y-4 mt-6">
-      <AttachmentRateKPI 
-        metrics={metrics}
-        deviceSupplierQuantity={deviceSupplierQuantity}
-      />
+      <AttachmentRateKPI metrics={metrics} scope={targetScope} date={targetDate} />
+      {showRevenueRatio && (
+        <RevenueRatioKPI metrics={metrics} scope={targetScope} date={targetDate} />
+      )}
       {showAverageSales && (
         <AverageSalesKPI 
           metrics={metrics}
           dateRange={dateRange}
+          scope={targetScope}
+          date={targetDate}
         />
       )}
-      <PacificommShareKPI metrics={metrics} />
+      {shareSuppliers.map(supplier => (
+        <SupplierShareKPI
+          key={supplier.id}
+          metrics={metrics}
+          supplierId={supplier.id}
+          scope={targetScope}
+          date={targetDate}
+        />
+      ))}
     </div>
   );
 };
\ No newline at end of file
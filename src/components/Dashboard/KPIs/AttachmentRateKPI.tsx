@@ -1,32 +1,44 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Bar } from 'react-chartjs-2';
-import { SalesMetrics } from '../../../types';
+import { SalesMetrics, TargetScope } from '../../../types';
 import { getPerformanceLevel } from '../../../utils/performanceUtils';
+import { useTarget } from '../../../hooks/useTargets';
+import { TargetLegend } from './TargetLegend';
+import { isAccessorySupplier, isDeviceSupplier } from '../../../data/suppliers';
+import { isReturn } from '../../../utils/calculationUtils';
 
 interface AttachmentRateKPIProps {
   metrics: SalesMetrics[];
-  deviceSupplierQuantity: number;
+  // Whose targets apply, and the day they are looked up for
+  scope: TargetScope;
+  date: Date;
 }
 
 export const AttachmentRateKPI: React.FC<AttachmentRateKPIProps> = ({
   metrics,
-  deviceSupplierQuantity,
+  scope,
+  date,
 }) => {
-  const thresholds = {
-    low: 150,
-    medium: 170,
-  };
+  // Net counts returned accessories and devices against the rate; gross ignores returns
+  const [netOfReturns, setNetOfReturns] = useState(true);
+  const target = useTarget('attachmentRate', scope, date);
+
+  const rateMetrics = netOfReturns ? metrics : metrics.filter(m => !isReturn(m));
+
+  // Calculate combined total quantity for the accessory suppliers
+  const totalQuantity = rateMetrics
+    .filter(m => isAccessorySupplier(m.supplierId))
+    .reduce((sum, m) => sum + m.quantity, 0);
 
-  // Calculate combined total quantity for suppliers 1-4
-  const totalQuantity = metrics
-    .filter(m => m.supplierId >= 1 && m.supplierId <= 4)
+  const deviceSupplierQuantity = rateMetrics
+    .filter(m => isDeviceSupplier(m.supplierId))
     .reduce((sum, m) => sum + m.quantity, 0);
   
   const combinedRate = deviceSupplierQuantity > 0 
     ? Number((totalQuantity / deviceSupplierQuantity * 100).toFixed(2)) 
     : 0;
 
-  const performance = getPerformanceLevel(combinedRate, thresholds);
+  const performance = getPerformanceLevel(combinedRate, target);
 
   const data = {
     labels: ['Combined Attachment Rate'],
@@ -66,7 +78,7 @@ export const AttachmentRateKPI: React.FC<AttachmentRateKPIProps> = ({
     scales: {
       x: {
         min: 0,
-        max: Math.max(200, combinedRate),
+        max: Math.max(200, target.medium, combinedRate),
         grid: {
           drawBorder: false,
         },
@@ -86,21 +98,19 @@ export const AttachmentRateKPI: React.FC<AttachmentRateKPIProps> = ({
   return (
     <div className="bg-white p-4 rounded-lg">
       <div className="flex items-center justify-between mb-2">
-        <h3 className="text-sm font-medium text-gray-900">Attachment Rate Performance</h3>
-        <div className="flex items-center gap-2">
-          <div className="flex items-center gap-1">
-            <div className="w-2 h-2 rounded-full bg-red-500"></div>
-            <span className="text-xs text-gray-600">&lt;150%</span>
-          </div>
-          <div className="flex items-center gap-1">
-            <div className="w-2 h-2 rounded-full bg-yellow-500"></div>
-            <span className="text-xs text-gray-600">150-170%</span>
-          </div>
-          <div className="flex items-center gap-1">
-            <div className="w-2 h-2 rounded-full bg-green-500"></div>
-            <span className="text-xs text-gray-600">&gt;170%</span>
-          </div>
+        <div className="flex items-center gap-3">
+          <h3 className="text-sm font-medium text-gray-900">Attachment Rate Performance</h3>
+          <label className="flex items-center text-xs text-gray-600">
+            <input
+              type="checkbox"
+              checked={netOfReturns}
+              onChange={(e) => setNetOfReturns(e.target.checked)}
+              className="mr-1 rounded border-gray-300"
+            />
+            Net of returns
+          </label>
         </div>
+        <TargetLegend target={target} format={value => `${value}%`} />
       </div>
       <div className="h-12">
         <Bar data={data} options={options} />
@@ -1,25 +1,29 @@
 import React from 'react';
 import { Bar } from 'react-chartjs-2';
-import { SalesMetrics, DateRange } from '../../../types';
+import { SalesMetrics, TargetScope, DateRange } from '../../../types';
 import { calculateAverageSalesPerUnit } from '../../../utils/calculationUtils';
 import { getPerformanceLevel } from '../../../utils/performanceUtils';
+import { useTarget } from '../../../hooks/useTargets';
+import { TargetLegend } from './TargetLegend';
 
 interface AverageSalesKPIProps {
   metrics: SalesMetrics[];
+  // Whose targets apply, and the day they are looked up for
+  scope: TargetScope;
+  date: Date;
   dateRange: DateRange;
 }
 
 export const AverageSalesKPI: React.FC<AverageSalesKPIProps> = ({
   metrics,
   dateRange,
+  scope,
+  date,
 }) => {
-  const thresholds = {
-    low: 30,
-    medium: 40,
-  };
+  const target = useTarget('avgSalesPerUnit', scope, date);
 
   const avgSalesPerUnit = calculateAverageSalesPerUnit(metrics);
-  const performance = getPerformanceLevel(avgSalesPerUnit, thresholds);
+  const performance = getPerformanceLevel(avgSalesPerUnit, target);
 
   const data = {
     labels: ['Average Sales Per Unit'],
@@ -57,7 +61,7 @@ export const AverageSalesKPI: React.FC<AverageSalesKPIProps> = ({
     scales: {
       x: {
         min: 0,
-        max: Math.max(50, avgSalesPerUnit),
+        max: Math.max(50, target.medium, avgSalesPerUnit),
         grid: {
           drawBorder: false,
         },
@@ -78,20 +82,7 @@ export const AverageSalesKPI: React.FC<AverageSalesKPIProps> = ({
     <div className="bg-white p-4 rounded-lg">
       <div className="flex items-center justify-between mb-2">
         <h3 className="text-sm font-medium text-gray-900">Average Sales Per Unit (ASP)</h3>
-        <div className="flex items-center gap-2">
-          <div className="flex items-center gap-1">
-            <div className="w-2 h-2 rounded-full bg-red-500"></div>
-            <span className="text-xs text-gray-600">&lt;$30</span>
-          </div>
-          <div className="flex items-center gap-1">
-            <div className="w-2 h-2 rounded-full bg-yellow-500"></div>
-            <span className="text-xs text-gray-600">$30-$40</span>
-          </div>
-          <div className="flex items-center gap-1">
-            <div className="w-2 h-2 rounded-full bg-green-500"></div>
-            <span className="text-xs text-gray-600">&gt;$40</span>
-          </div>
-        </div>
+        <TargetLegend target={target} format={value => `$${value}`} />
       </div>
       <div className="h-12">
         <Bar data={data} options={options} />
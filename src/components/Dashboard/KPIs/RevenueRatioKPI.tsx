@@ -0,0 +1,109 @@
+import React from 'react';
+import { Bar } from 'react-chartjs-2';
+import { TooltipItem } from 'chart.js';
+import { SalesMetrics, TargetScope } from '../../../types';
+import { calculateRevenueRatio, calculateBlendedMarginRate } from '../../../utils/calculationUtils';
+import { getPerformanceLevel } from '../../../utils/performanceUtils';
+import { useTarget } from '../../../hooks/useTargets';
+import { TargetLegend } from './TargetLegend';
+import { isAccessorySupplier, isDeviceSupplier } from '../../../data/suppliers';
+import { formatCurrency } from '../../../utils/formatting/index';
+
+interface RevenueRatioKPIProps {
+  metrics: SalesMetrics[];
+  // Whose targets apply, and the day they are looked up for
+  scope: TargetScope;
+  date: Date;
+}
+
+// Accessory revenue earned per device dollar, the revenue counterpart of the attachment rate
+export const RevenueRatioKPI: React.FC<RevenueRatioKPIProps> = ({ metrics, scope, date }) => {
+  const target = useTarget('revenueRatio', scope, date);
+
+  const accessorySales = metrics
+    .filter(m => isAccessorySupplier(m.supplierId))
+    .reduce((sum, m) => sum + m.salesAmount, 0);
+  const deviceSales = metrics
+    .filter(m => isDeviceSupplier(m.supplierId))
+    .reduce((sum, m) => sum + m.salesAmount, 0);
+
+  const revenueRatio = calculateRevenueRatio(metrics);
+  const blendedMargin = calculateBlendedMarginRate(metrics);
+  const performance = getPerformanceLevel(revenueRatio, target);
+
+  const data = {
+    labels: ['Accessory to Device Revenue'],
+    datasets: [
+      {
+        data: [revenueRatio],
+        backgroundColor: performance.color,
+        borderWidth: 1,
+        borderColor: performance.color.replace('0.7', '1'),
+        barThickness: 30,
+      }
+    ]
+  };
+
+  const options = {
+    indexAxis: 'y' as const,
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        display: false
+      },
+      tooltip: {
+        callbacks: {
+          label: (context: TooltipItem<'bar'>) => {
+            const value = context.raw as number;
+            return [
+              `Revenue Ratio: ${value.toFixed(2)}%`,
+              `Status: ${performance.level}`,
+              `Accessory Sales: ${formatCurrency(accessorySales)}`,
+              `Device Sales: ${formatCurrency(deviceSales)}`,
+              `Blended Margin: ${blendedMargin.toFixed(2)}%`
+            ];
+          }
+        }
+      }
+    },
+    scales: {
+      x: {
+        min: 0,
+        max: Math.max(12, target.medium, revenueRatio),
+        border: {
+          display: false,
+        },
+        ticks: {
+          callback: (value: number | string) => `${Math.round(Number(value))}%`
+        }
+      },
+      y: {
+        grid: {
+          display: false,
+        },
+        border: {
+          display: false,
+        }
+      }
+    }
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-lg">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-medium text-gray-900">Accessory Revenue per Device Dollar</h3>
+        <TargetLegend target={target} format={value => `${value}%`} />
+      </div>
+      {deviceSales > 0 ? (
+        <div className="h-12">
+          <Bar data={data} options={options} />
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500 italic">
+          No device sales imported for this period.
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,103 @@
+import React from 'react';
+import { Bar } from 'react-chartjs-2';
+import { SalesMetrics, TargetScope } from '../../../types';
+import { getPerformanceLevel } from '../../../utils/performanceUtils';
+import { useTarget } from '../../../hooks/useTargets';
+import { TargetLegend } from './TargetLegend';
+import { getSupplierName, isAccessorySupplier } from '../../../data/suppliers';
+
+interface SupplierShareKPIProps {
+  metrics: SalesMetrics[];
+  // Whose targets apply, and the day they are looked up for
+  scope: TargetScope;
+  date: Date;
+  supplierId: number;
+}
+
+// One supplier's share of the accessory quantity sold
+export const SupplierShareKPI: React.FC<SupplierShareKPIProps> = ({ metrics, supplierId, scope, date }) => {
+  const target = useTarget('supplierShare', scope, date, supplierId);
+
+  // Calculate total quantity for the accessory suppliers
+  const totalQuantity = metrics
+    .filter(m => isAccessorySupplier(m.supplierId))
+    .reduce((sum, m) => sum + m.quantity, 0);
+
+  const supplierName = getSupplierName(supplierId);
+  const supplierQuantity = metrics
+    .filter(m => m.supplierId === supplierId)
+    .reduce((sum, m) => sum + m.quantity, 0);
+
+  const supplierShare = totalQuantity > 0 
+    ? Number((supplierQuantity / totalQuantity * 100).toFixed(2))
+    : 0;
+
+  const performance = getPerformanceLevel(supplierShare, target);
+
+  const data = {
+    labels: [`${supplierName} Share`],
+    datasets: [
+      {
+        data: [supplierShare],
+        backgroundColor: performance.color,
+        borderWidth: 1,
+        borderColor: performance.color.replace('0.7', '1'),
+        barThickness: 30,
+      }
+    ]
+  };
+
+  const options = {
+    indexAxis: 'y' as const,
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        display: false
+      },
+      tooltip: {
+        callbacks: {
+          label: (context) => {
+            const value = context.raw as number;
+            return [
+              `Share: ${value.toFixed(2)}%`,
+              `Status: ${performance.level}`,
+              `${supplierName} Quantity: ${supplierQuantity}`,
+              `Total Accessory Quantity: ${totalQuantity}`
+            ];
+          }
+        }
+      }
+    },
+    scales: {
+      x: {
+        min: 0,
+        max: 100,
+        grid: {
+          drawBorder: false,
+        },
+        ticks: {
+          callback: (value) => `${Math.round(value)}%`
+        }
+      },
+      y: {
+        grid: {
+          display: false,
+          drawBorder: false,
+        }
+      }
+    }
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-lg">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-medium text-gray-900">{supplierName} Share of Total Sales</h3>
+        <TargetLegend target={target} format={value => `${value}%`} />
+      </div>
+      <div className="h-12">
+        <Bar data={data} options={options} />
+      </div>
+    </div>
+  );
+};
\ No newline at end of file
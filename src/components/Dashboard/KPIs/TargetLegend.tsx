@@ -0,0 +1,26 @@
+import React from 'react';
+import { KPITarget } from '../../../types';
+import { TARGET_LEVEL_LABELS } from '../../../data/targets';
+
+interface TargetLegendProps {
+  target: KPITarget;
+  format: (value: number) => string;
+}
+
+// Colour key for a KPI bar, showing the bands of the target in use and where it was set
+export const TargetLegend: React.FC<TargetLegendProps> = ({ target, format }) => (
+  <div className="flex items-center gap-2" title={`${TARGET_LEVEL_LABELS[target.level]} target`}>
+    <div className="flex items-center gap-1">
+      <div className="w-2 h-2 rounded-full bg-red-500"></div>
+      <span className="text-xs text-gray-600">&lt;{format(target.low)}</span>
+    </div>
+    <div className="flex items-center gap-1">
+      <div className="w-2 h-2 rounded-full bg-yellow-500"></div>
+      <span className="text-xs text-gray-600">{format(target.low)}-{format(target.medium)}</span>
+    </div>
+    <div className="flex items-center gap-1">
+      <div className="w-2 h-2 rounded-full bg-green-500"></div>
+      <span className="text-xs text-gray-600">&gt;{format(target.medium)}</span>
+    </div>
+  </div>
+);
@@ -1,48 +1,76 @@
-import React from 'react';
-import { BarChart3, TrendingUp, Package, TrendingDown } from 'lucide-react';
-import { SalesMetrics, DateSelection } from '../../types';
-import { DateRange, filterMetricsByDateRange } from '../../utils/dateUtils';
-import { formatCurrency, formatNumber, formatPercentage } from '../../utils/formatting/index';
+import React, { useState, useEffect } from 'react';
+import { BarChart3, TrendingUp, Package, TrendingDown, Undo2, Link2, Tag } from 'lucide-react';
+import { SalesMetrics, DateSelection, ComparisonKPI, KPIDelta } from '../../types';
+import {
+  DateRange,
+  ComparisonBasis,
+  COMPARISON_BASES,
+  filterMetricsByDateRange,
+  getComparisonDates,
+  getComparisonLabel
+} from '../../utils/dateUtils';
+import { formatCurrency, formatNumber } from '../../utils/formatting/index';
+import { summarizeReturns } from '../../utils/calculationUtils';
+import { COMPARISON_KPIS, compareKPIs, formatDelta } from '../../utils/comparisonUtils';
 
 interface MetricCardProps {
   title: string;
   value: string;
   icon: React.ReactNode;
-  comparison: {
-    value: number;
-    percentage: number;
+  comparison?: {
+    kpi: ComparisonKPI;
+    delta: KPIDelta;
     label: string;
   };
+  detail?: string;
 }
 
-const MetricCard: React.FC<MetricCardProps> = ({ title, value, icon, comparison }) => (
-  <div className="bg-white rounded-lg p-6 shadow-md">
-    <div className="flex items-center justify-between">
-      <div>
-        <p className="text-sm text-gray-600">{title}</p>
-        <p className="text-2xl font-bold mt-1">{value}</p>
-        {comparison && (
-          <p className="flex items-center text-sm mt-2">
-            <span className="text-gray-500 mr-2">{comparison.label}:</span>
-            <span className={comparison.percentage > 0 ? 'text-green-600' : 'text-red-600'}>
-              {comparison.percentage > 0 ? (
-                <TrendingUp className="w-4 h-4 inline mr-1" />
+const MetricCard: React.FC<MetricCardProps> = ({ title, value, icon, comparison, detail }) => {
+  const definition = comparison && COMPARISON_KPIS[comparison.kpi];
+  const deltaText = comparison && formatDelta(comparison.kpi, comparison.delta);
+  const favourable = comparison && (definition?.lowerIsBetter
+    ? comparison.delta.change < 0
+    : comparison.delta.change > 0);
+
+  return (
+    <div className="bg-white rounded-lg p-6 shadow-md">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm text-gray-600">{title}</p>
+          <p className="text-2xl font-bold mt-1">{value}</p>
+          {detail && (
+            <p className="text-xs text-gray-500 mt-1">{detail}</p>
+          )}
+          {comparison && definition && (
+            <p className="flex items-center text-sm mt-2" title={`Was ${definition.format(comparison.delta.previous)}`}>
+              <span className="text-gray-500 mr-2">{comparison.label}:</span>
+              {deltaText === null ? (
+                <span className="text-gray-400">no data</span>
+              ) : comparison.delta.change === 0 ? (
+                <span className="text-gray-500">no change</span>
               ) : (
-                <TrendingDown className="w-4 h-4 inline mr-1" />
+                <span className={favourable ? 'text-green-600' : 'text-red-600'}>
+                  {comparison.delta.change > 0 ? (
+                    <TrendingUp className="w-4 h-4 inline mr-1" />
+                  ) : (
+                    <TrendingDown className="w-4 h-4 inline mr-1" />
+                  )}
+                  {deltaText}
+                </span>
               )}
-              {formatPercentage(Math.abs(comparison.percentage))}
-            </span>
-          </p>
-        )}
-      </div>
-      <div className="p-3 bg-blue-50 rounded-full">
-        {icon}
+            </p>
+          )}
+        </div>
+        <div className="p-3 bg-blue-50 rounded-full">
+          {icon}
+        </div>
       </div>
     </div>
-  </div>
-);
+  );
+};
 
 interface PerformanceMetricsProps {
+  // The selected period and the one before it
   metrics: SalesMetrics[];
   dateRange: DateRange;
   customRange?: DateSelection;
@@ -51,113 +79,123 @@ interface PerformanceMetricsProps {
     quarter?: number;
     year: number;
   };
+  // Loads the same period last year, which is outside the metrics passed in;
+  // that comparison isn't offered without it
+  fetchComparison?: (startDate: Date, endDate: Date) => Promise<SalesMetrics[]>;
 }
 
-const calculateComparison = (
-  currentMetrics: SalesMetrics[],
-  previousMetrics: SalesMetrics[],
-  dateRange: DateRange
-): { value: number; percentage: number; label: string } => {
-  const current = currentMetrics.reduce((sum, m) => sum + m.salesAmount, 0);
-  const previous = previousMetrics.reduce((sum, m) => sum + m.salesAmount, 0);
-  
-  const difference = current - previous;
-  const percentage = previous !== 0 ? (difference / previous) : 0;
-  
-  let label = '';
-  switch (dateRange) {
-    case 'mtd':
-      label = 'vs Last Month';
-      break;
-    case 'monthly':
-      label = 'vs Previous Month';
-      break;
-    case 'quarterly':
-      label = 'vs Previous Quarter';
-      break;
-    case 'yearly':
-      label = 'vs Previous Year';
-      break;
-    default:
-      label = 'vs Previous Period';
-  }
-  
-  return { value: difference, percentage, label };
-};
-
 export const PerformanceMetrics: React.FC<PerformanceMetricsProps> = ({
   metrics,
   dateRange,
   customRange,
-  selectedPeriod
+  selectedPeriod,
+  fetchComparison
 }) => {
+  const [basis, setBasis] = useState<ComparisonBasis>('sameDays');
+  const [lastYearMetrics, setLastYearMetrics] = useState<SalesMetrics[]>([]);
   const filteredMetrics = filterMetricsByDateRange(metrics, dateRange, customRange, selectedPeriod);
-  
-  // Get previous period metrics for comparison
-  const getPreviousPeriodRange = () => {
-    const currentDate = new Date();
-    switch (dateRange) {
-      case 'mtd':
-        currentDate.setMonth(currentDate.getMonth() - 1);
-        break;
-      case 'monthly':
-        currentDate.setMonth(currentDate.getMonth() - 1);
-        break;
-      case 'quarterly':
-        currentDate.setMonth(currentDate.getMonth() - 3);
-        break;
-      case 'yearly':
-        currentDate.setFullYear(currentDate.getFullYear() - 1);
-        break;
-    }
-    return currentDate;
-  };
 
-  const previousMetrics = filterMetricsByDateRange(
-    metrics,
-    dateRange,
-    customRange || { startDate: getPreviousPeriodRange(), endDate: new Date() },
-    selectedPeriod
-  );
-  
-  const totals = filteredMetrics.reduce((acc, metric) => ({
-    quantity: acc.quantity + metric.quantity,
-    salesAmount: acc.salesAmount + metric.salesAmount,
-    marginAmount: acc.marginAmount + metric.marginAmount,
-  }), { quantity: 0, salesAmount: 0, marginAmount: 0 });
-  
-  const salesComparison = calculateComparison(filteredMetrics, previousMetrics, dateRange);
-  const marginComparison = calculateComparison(
-    filteredMetrics.map(m => ({ ...m, salesAmount: m.marginAmount })),
-    previousMetrics.map(m => ({ ...m, salesAmount: m.marginAmount })),
-    dateRange
-  );
-  const quantityComparison = calculateComparison(
-    filteredMetrics.map(m => ({ ...m, salesAmount: m.quantity })),
-    previousMetrics.map(m => ({ ...m, salesAmount: m.quantity })),
-    dateRange
-  );
-  
+  const comparisonDates = getComparisonDates(dateRange, customRange, selectedPeriod, basis);
+  const comparisonKey = comparisonDates
+    ? `${comparisonDates.startDate.getTime()}-${comparisonDates.endDate.getTime()}`
+    : '';
+
+  useEffect(() => {
+    // Ignore a slow response once the selection has moved on
+    let cancelled = false;
+    const loadLastYear = async () => {
+      if (basis !== 'lastYear' || !fetchComparison || !comparisonDates) return;
+
+      try {
+        setLastYearMetrics([]);
+        const comparison = await fetchComparison(comparisonDates.startDate, comparisonDates.endDate);
+        if (!cancelled) {
+          setLastYearMetrics(comparison);
+        }
+      } catch (err) {
+        console.error('Error loading comparison metrics:', err);
+      }
+    };
+
+    loadLastYear();
+    return () => {
+      cancelled = true;
+    };
+    // A new metrics array means the dashboard changed what it shows, e.g. another store
+  }, [basis, comparisonKey, metrics]);
+
+  const previousMetrics = comparisonDates
+    ? filterMetricsByDateRange(basis === 'lastYear' ? lastYearMetrics : metrics, 'custom', comparisonDates)
+    : [];
+
+  // Return metrics are negative, so the totals are net of returns
+  const { gross, returns, net: totals, returnRate } = summarizeReturns(filteredMetrics);
+  const deltas = compareKPIs(filteredMetrics, previousMetrics);
+  const label = getComparisonLabel(dateRange, basis);
+  const comparisonFor = (kpi: ComparisonKPI) => comparisonDates
+    ? { kpi, delta: deltas[kpi], label }
+    : undefined;
+
+  const bases = (Object.keys(COMPARISON_BASES) as ComparisonBasis[])
+    .filter(option => option !== 'lastYear' || fetchComparison);
+
   return (
-    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-      <MetricCard
-        title="Total Sales"
-        value={formatCurrency(totals.salesAmount)}
-        icon={<BarChart3 className="w-6 h-6 text-blue-600" />}
-        comparison={salesComparison}
-      />
-      <MetricCard
-        title="Margin"
-        value={formatCurrency(totals.marginAmount)}
-        icon={<TrendingUp className="w-6 h-6 text-blue-600" />}
-        comparison={marginComparison}
-      />
-      <MetricCard
-        title="Units Sold"
-        value={formatNumber(totals.quantity)}
-        icon={<Package className="w-6 h-6 text-blue-600" />}
-        comparison={quantityComparison}
-      />
+    <div className="space-y-3">
+      <div className="flex items-center justify-end text-sm">
+        <label htmlFor="comparison-basis" className="text-gray-600 mr-2">Compare with</label>
+        <select
+          id="comparison-basis"
+          value={basis}
+          onChange={(e) => setBasis(e.target.value as ComparisonBasis)}
+          className="text-sm border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+        >
+          {bases.map(option => (
+            <option key={option} value={option}>{COMPARISON_BASES[option]}</option>
+          ))}
+        </select>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+        <MetricCard
+          title="Net Sales"
+          value={formatCurrency(totals.salesAmount)}
+          icon={<BarChart3 className="w-6 h-6 text-blue-600" />}
+          comparison={comparisonFor('netSales')}
+          detail={`Gross ${formatCurrency(gross.salesAmount)}`}
+        />
+        <MetricCard
+          title="Margin"
+          value={formatCurrency(totals.marginAmount)}
+          icon={<TrendingUp className="w-6 h-6 text-blue-600" />}
+          comparison={comparisonFor('margin')}
+          detail={`${deltas.marginRate.current.toFixed(1)}% of sales`}
+        />
+        <MetricCard
+          title="Units Sold"
+          value={formatNumber(totals.quantity)}
+          icon={<Package className="w-6 h-6 text-blue-600" />}
+          comparison={comparisonFor('units')}
+        />
+        <MetricCard
+          title="Attachment Rate"
+          value={COMPARISON_KPIS.attachmentRate.format(deltas.attachmentRate.current)}
+          icon={<Link2 className="w-6 h-6 text-blue-600" />}
+          comparison={comparisonFor('attachmentRate')}
+          detail={`Accessory revenue ${COMPARISON_KPIS.revenueRatio.format(deltas.revenueRatio.current)} of device sales`}
+        />
+        <MetricCard
+          title="Avg Sales/Unit"
+          value={formatCurrency(deltas.avgSalesPerUnit.current)}
+          icon={<Tag className="w-6 h-6 text-blue-600" />}
+          comparison={comparisonFor('avgSalesPerUnit')}
+        />
+        <MetricCard
+          title="Returns"
+          value={formatCurrency(returns.salesAmount)}
+          icon={<Undo2 className="w-6 h-6 text-blue-600" />}
+          comparison={comparisonFor('returns')}
+          detail={`${formatNumber(returns.quantity)} units, ${returnRate.toFixed(1)}% return rate`}
+        />
+      </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -1,36 +1,44 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { Trophy, ChevronRight, X } from 'lucide-react';
-import { Rankings, RankingDetails } from '../../types';
-import { generateMockSalespeople, generateMockStores } from '../../data/mockData';
+import { Rankings, RankingBoard, RankingDetails, RankingKPI } from '../../types';
+import { RANKING_KPIS, MINIMUM_RANKING_DEVICE_UNITS, rankParticipants } from '../../utils/rankingUtils';
 
 interface RankingCardProps {
-  rankings: Rankings;
+  rankings: Rankings | null;
+  loading?: boolean;
 }
 
 interface RankingModalProps {
   title: string;
-  data: RankingDetails[];
-  currentRank: number;
+  entries: RankingDetails[];
+  current: RankingDetails;
+  kpi: RankingKPI;
   onClose: () => void;
 }
 
-const RankingModal: React.FC<RankingModalProps> = ({ title, data, currentRank, onClose }) => {
-  // Get entries ranked higher than current and the next lower ranked entry
-  const relevantEntries = data
-    .filter(item => item.rank < currentRank || item.rank === currentRank + 1)
-    .sort((a, b) => a.rank - b.rank);
+interface RankedBoard {
+  entries: RankingDetails[];
+  current: RankingDetails | undefined;
+  rankedCount: number;
+}
 
-  // Add current user/store to the list
-  const currentEntry: RankingDetails = {
-    id: 'current',
-    name: 'You',
-    rank: currentRank,
-    attachmentRate: Math.floor(Math.random() * (200 - 100) + 100),
-    avgSalesPerUnit: Math.floor(Math.random() * (80 - 30) + 30)
+const rankBoard = (board: RankingBoard | null, kpi: RankingKPI): RankedBoard | null => {
+  if (!board) return null;
+  const entries = rankParticipants(board.participants, kpi);
+  return {
+    entries,
+    current: entries.find(entry => entry.id === board.currentId),
+    rankedCount: entries.filter(entry => entry.rank !== null).length
   };
+};
 
-  const allEntries = [...relevantEntries, currentEntry]
-    .sort((a, b) => a.rank - b.rank);
+const RankingModal: React.FC<RankingModalProps> = ({ title, entries, current, kpi, onClose }) => {
+  // Everyone ranked higher, the viewer, and the next position down
+  const currentIndex = entries.indexOf(current);
+  const visibleEntries = current.rank === null
+    ? [...entries.filter(entry => entry.rank !== null), current]
+    : entries.slice(0, currentIndex + 2).filter(entry => entry.rank !== null);
+  const nextEntry = current.rank === null ? undefined : entries[currentIndex + 1];
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -47,102 +55,143 @@ const RankingModal: React.FC<RankingModalProps> = ({ title, data, currentRank, o
               <tr className="bg-gray-50">
                 <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Rank</th>
                 <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Name</th>
-                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Attachment Rate</th>
-                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Avg Sales/Unit</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">{RANKING_KPIS[kpi].label}</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Device Units</th>
               </tr>
             </thead>
             <tbody className="divide-y divide-gray-200">
-              {allEntries.map((item) => {
-                const isCurrentOrNext = item.rank === currentRank || item.rank === currentRank + 1;
+              {visibleEntries.map((item) => {
+                const isCurrent = item === current;
+                const isNext = item === nextEntry && item.rank !== null;
                 return (
-                  <tr 
-                    key={item.id} 
+                  <tr
+                    key={item.id}
                     className={`
-                      ${isCurrentOrNext ? 'bg-blue-50' : 'hover:bg-gray-50'}
-                      ${item.id === 'current' ? 'font-bold' : ''}
+                      ${isCurrent || isNext ? 'bg-blue-50' : 'hover:bg-gray-50'}
+                      ${isCurrent ? 'font-bold' : ''}
                     `}
                   >
-                    <td className="px-4 py-2 text-sm">#{item.rank}</td>
+                    <td className="px-4 py-2 text-sm">{item.rank === null ? '—' : `#${item.rank}`}</td>
                     <td className="px-4 py-2 text-sm">
-                      {item.id === 'current' ? 'You' : item.name}
-                      {item.rank === currentRank + 1 && (
+                      {isCurrent ? 'You' : item.name}
+                      {isNext && (
                         <span className="ml-2 text-xs text-gray-500">(Next Position)</span>
                       )}
                     </td>
-                    <td className="px-4 py-2 text-sm">{item.attachmentRate}%</td>
-                    <td className="px-4 py-2 text-sm">${item.avgSalesPerUnit}</td>
+                    <td className="px-4 py-2 text-sm">{RANKING_KPIS[kpi].format(item[kpi])}</td>
+                    <td className="px-4 py-2 text-sm">{item.deviceUnits}</td>
                   </tr>
                 );
               })}
             </tbody>
           </table>
+          {current.rank === null && (
+            <p className="mt-4 text-sm text-gray-500">
+              Rankings start at {MINIMUM_RANKING_DEVICE_UNITS} device units in the period.
+            </p>
+          )}
         </div>
       </div>
     </div>
   );
 };
 
-export const RankingCard: React.FC<RankingCardProps> = ({ rankings }) => {
+const RankingSummary: React.FC<{
+  label: string;
+  board: RankedBoard | null;
+  className: string;
+  onClick: () => void;
+}> = ({ label, board, className, onClick }) => (
+  <button
+    onClick={onClick}
+    disabled={!board?.current}
+    className={`p-4 rounded-lg transition-colors group disabled:cursor-default ${className}`}
+  >
+    <div className="flex items-center justify-between">
+      <div className="text-left">
+        <p className="text-sm text-gray-600">{label}</p>
+        {board?.current?.rank ? (
+          <>
+            <p className="text-2xl font-bold mt-1">#{board.current.rank}</p>
+            <p className="text-sm text-gray-500 mt-1">of {board.rankedCount}</p>
+          </>
+        ) : (
+          <>
+            <p className="text-2xl font-bold mt-1">—</p>
+            <p className="text-sm text-gray-500 mt-1">{board?.current ? 'Not yet ranked' : 'No ranking'}</p>
+          </>
+        )}
+      </div>
+      {board?.current && <ChevronRight className="w-5 h-5 text-gray-400 group-hover:text-gray-600" />}
+    </div>
+  </button>
+);
+
+export const RankingCard: React.FC<RankingCardProps> = ({ rankings, loading = false }) => {
   const [showStorePeople, setShowStorePeople] = useState(false);
   const [showStores, setShowStores] = useState(false);
+  const [kpi, setKpi] = useState<RankingKPI>('attachmentRate');
 
-  const mockSalespeople = generateMockSalespeople();
-  const mockStores = generateMockStores();
+  const storeBoard = useMemo(() => rankBoard(rankings?.store || null, kpi), [rankings, kpi]);
+  const regionBoard = useMemo(() => rankBoard(rankings?.region || null, kpi), [rankings, kpi]);
 
   return (
     <>
       <div className="bg-white rounded-lg shadow-md p-6 mt-6">
-        <div className="flex items-center mb-4">
-          <Trophy className="w-6 h-6 text-yellow-500 mr-2" />
-          <h2 className="text-xl font-semibold">Your Rankings</h2>
-        </div>
-        <div className="grid grid-cols-2 gap-4">
-          <button
-            onClick={() => setShowStorePeople(true)}
-            className="p-4 bg-blue-50 rounded-lg hover:bg-blue-100 transition-colors group"
-          >
-            <div className="flex items-center justify-between">
-              <div>
-                <p className="text-sm text-gray-600">Store Ranking</p>
-                <p className="text-2xl font-bold mt-1">#{rankings.storeRank}</p>
-                <p className="text-sm text-gray-500 mt-1">of {rankings.totalParticipants}</p>
-              </div>
-              <ChevronRight className="w-5 h-5 text-gray-400 group-hover:text-gray-600" />
-            </div>
-          </button>
-          <button
-            onClick={() => setShowStores(true)}
-            className="p-4 bg-green-50 rounded-lg hover:bg-green-100 transition-colors group"
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center">
+            <Trophy className="w-6 h-6 text-yellow-500 mr-2" />
+            <h2 className="text-xl font-semibold">Your Rankings</h2>
+          </div>
+          <select
+            value={kpi}
+            onChange={(e) => setKpi(e.target.value as RankingKPI)}
+            className="text-sm border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
           >
-            <div className="flex items-center justify-between">
-              <div>
-                <p className="text-sm text-gray-600">Region Ranking</p>
-                <p className="text-2xl font-bold mt-1">#{rankings.regionRank}</p>
-                <p className="text-sm text-gray-500 mt-1">of {rankings.totalParticipants}</p>
-              </div>
-              <ChevronRight className="w-5 h-5 text-gray-400 group-hover:text-gray-600" />
-            </div>
-          </button>
+            {(Object.keys(RANKING_KPIS) as RankingKPI[]).map(key => (
+              <option key={key} value={key}>{RANKING_KPIS[key].label}</option>
+            ))}
+          </select>
         </div>
+        {loading ? (
+          <div className="text-sm text-gray-500">Loading rankings...</div>
+        ) : (
+          <div className="grid grid-cols-2 gap-4">
+            <RankingSummary
+              label="Store Ranking"
+              board={storeBoard}
+              className="bg-blue-50 hover:bg-blue-100"
+              onClick={() => setShowStorePeople(true)}
+            />
+            <RankingSummary
+              label="Region Ranking"
+              board={regionBoard}
+              className="bg-green-50 hover:bg-green-100"
+              onClick={() => setShowStores(true)}
+            />
+          </div>
+        )}
       </div>
 
-      {showStorePeople && (
+      {showStorePeople && storeBoard?.current && (
         <RankingModal
           title="Store Rankings - Higher Performing Salespeople"
-          data={mockSalespeople}
-          currentRank={rankings.storeRank}
+          entries={storeBoard.entries}
+          current={storeBoard.current}
+          kpi={kpi}
           onClose={() => setShowStorePeople(false)}
         />
       )}
 
-      {showStores && (
+      {showStores && regionBoard?.current && (
         <RankingModal
           title="Region Rankings - Higher Performing Stores"
-          data={mockStores}
-          currentRank={rankings.regionRank}
+          entries={regionBoard.entries}
+          current={regionBoard.current}
+          kpi={kpi}
           onClose={() => setShowStores(false)}
         />
       )}
     </>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,219 @@
+import React, { useState, useEffect } from 'react';
+import { ChevronRight, ChevronDown } from 'lucide-react';
+import { SalesMetrics, SalesLine } from '../../types';
+import { fetchSalesLines } from '../../services/salesLines';
+import { fetchProductCatalogue, ProductCatalogue } from '../../services/products';
+import { getMetricKey } from '../../services/sales';
+import { getCategoryName } from '../../data/products';
+import { formatCurrency } from '../../utils/formatting/index';
+
+interface SupplierDrillDownProps {
+  supplierId: number;
+  // The supplier's metrics in the selected period; lines are narrowed to these
+  metrics: SalesMetrics[];
+}
+
+interface LineTotal {
+  key: string;
+  label: string;
+  quantity: number;
+  salesAmount: number;
+  marginAmount: number;
+}
+
+const toDayKey = (date: Date): string => `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+const toMonthKey = (date: Date): string => `${date.getFullYear()}-${date.getMonth() + 1}`;
+
+/**
+ * What ties a line to the metrics being shown. Raw metrics match on their
+ * document key; rollups match every line in their day or month for their
+ * store and staff member, where they have one.
+ */
+const getMatchKeys = (metric: SalesMetrics): string[] => {
+  const date = new Date(metric.date);
+  if (!metric.rollup) {
+    return [getMetricKey(date, metric.branchNumber, metric.staffCode, metric.supplierId, metric.type)];
+  }
+  const period = metric.rollup === 'month' ? toMonthKey(date) : toDayKey(date);
+  return [[metric.rollup, period, metric.branchNumber, metric.staffCode].join('|')];
+};
+
+const getLineKeys = (line: SalesLine): string[] => {
+  const date = new Date(line.date);
+  return [
+    line.metricKey,
+    ...(['day', 'month'] as const).flatMap(rollup =>
+      [line.branchNumber, ''].flatMap(branchNumber =>
+        [line.staffCode, ''].map(staffCode =>
+          [rollup, rollup === 'month' ? toMonthKey(date) : toDayKey(date), branchNumber, staffCode].join('|')
+        )
+      )
+    )
+  ];
+};
+
+// Last moment a metric covers; monthly rollups are dated on the 1st
+const getCoverageEnd = (metric: SalesMetrics): number => {
+  const date = new Date(metric.date);
+  return metric.rollup === 'month'
+    ? new Date(date.getFullYear(), date.getMonth() + 1, 0).getTime()
+    : date.getTime();
+};
+
+const sumLines = (lines: SalesLine[], getKey: (line: SalesLine) => string, getLabel: (key: string) => string) => {
+  const totals = new Map<string, LineTotal>();
+  lines.forEach(line => {
+    const key = getKey(line);
+    const total = totals.get(key) || { key, label: getLabel(key), quantity: 0, salesAmount: 0, marginAmount: 0 };
+    total.quantity += line.quantity;
+    total.salesAmount += line.salesAmount;
+    total.marginAmount += line.marginAmount;
+    totals.set(key, total);
+  });
+  return [...totals.values()].sort((a, b) => b.quantity - a.quantity);
+};
+
+const TotalCells: React.FC<{ total: Omit<LineTotal, 'key' | 'label'>; share: number }> = ({ total, share }) => (
+  <>
+    <td className="px-4 py-2 text-right">{total.quantity.toLocaleString()}</td>
+    <td className="px-4 py-2 text-right">{(share * 100).toFixed(1)}%</td>
+    <td className="px-4 py-2 text-right">{formatCurrency(total.salesAmount)}</td>
+    <td className="px-4 py-2 text-right">{formatCurrency(total.marginAmount)}</td>
+  </>
+);
+
+/**
+ * Breaks one supplier's totals down by product category and then SKU, using
+ * the lines stored by line-level imports. Quantities imported without lines
+ * are shown as not broken down, so the rows always add up to the supplier total.
+ */
+export const SupplierDrillDown: React.FC<SupplierDrillDownProps> = ({ supplierId, metrics }) => {
+  const [lines, setLines] = useState<SalesLine[]>([]);
+  const [catalogue, setCatalogue] = useState<ProductCatalogue | null>(null);
+  const [expandedCategory, setExpandedCategory] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // The parent filters metrics on every render, so reload only when they change
+  const metricIds = metrics.map(metric => metric.id).join(',');
+
+  useEffect(() => {
+    const loadLines = async () => {
+      if (!metrics.length) {
+        setLines([]);
+        setLoading(false);
+        return;
+      }
+
+      try {
+        setLoading(true);
+        const start = Math.min(...metrics.map(metric => new Date(metric.date).getTime()));
+        const end = Math.max(...metrics.map(getCoverageEnd));
+        const keys = new Set(metrics.flatMap(getMatchKeys));
+        const [supplierLines, productCatalogue] = await Promise.all([
+          fetchSalesLines(supplierId, new Date(start), new Date(end)),
+          fetchProductCatalogue()
+        ]);
+        setLines(supplierLines.filter(line => getLineKeys(line).some(key => keys.has(key))));
+        setCatalogue(productCatalogue);
+        setError(null);
+      } catch (err) {
+        setError('Failed to load product lines');
+        console.error('Error loading product lines:', err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadLines();
+  }, [supplierId, metricIds]);
+
+  if (loading) {
+    return <div className="px-6 py-3 text-sm text-gray-500">Loading product lines...</div>;
+  }
+
+  if (error) {
+    return <div className="px-6 py-3 text-sm text-red-600">{error}</div>;
+  }
+
+  const supplierQuantity = metrics.reduce((sum, metric) => sum + metric.quantity, 0);
+  const unassigned = {
+    quantity: supplierQuantity - lines.reduce((sum, line) => sum + line.quantity, 0),
+    salesAmount: metrics.reduce((sum, metric) => sum + metric.salesAmount, 0) -
+      lines.reduce((sum, line) => sum + line.salesAmount, 0),
+    marginAmount: metrics.reduce((sum, metric) => sum + metric.marginAmount, 0) -
+      lines.reduce((sum, line) => sum + line.marginAmount, 0)
+  };
+  const share = (quantity: number) => (supplierQuantity ? quantity / supplierQuantity : 0);
+
+  if (!lines.length) {
+    return (
+      <div className="px-6 py-3 text-sm text-gray-500 italic">
+        No product lines for this period. Import a line-level export to break this supplier down by product.
+      </div>
+    );
+  }
+
+  const categories = catalogue?.categories || [];
+  const productNames = new Map((catalogue?.products || []).map(product => [product.sku, product.name]));
+  const categoryTotals = sumLines(lines, line => line.categoryId, id => getCategoryName(categories, id));
+
+  return (
+    <div className="px-6 py-3 bg-gray-50">
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-gray-500 uppercase tracking-wider">
+            <th className="px-4 py-2">Category / SKU</th>
+            <th className="px-4 py-2 text-right">Quantity</th>
+            <th className="px-4 py-2 text-right">Share</th>
+            <th className="px-4 py-2 text-right">Sales</th>
+            <th className="px-4 py-2 text-right">Margin</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200">
+          {categoryTotals.map(category => {
+            const expanded = expandedCategory === category.key;
+            const skuTotals = expanded
+              ? sumLines(
+                  lines.filter(line => line.categoryId === category.key),
+                  line => line.sku,
+                  sku => productNames.get(sku) ? `${productNames.get(sku)} (${sku})` : sku
+                )
+              : [];
+
+            return (
+              <React.Fragment key={category.key}>
+                <tr className="text-gray-900">
+                  <td className="px-4 py-2">
+                    <button
+                      type="button"
+                      onClick={() => setExpandedCategory(expanded ? null : category.key)}
+                      className="flex items-center font-medium hover:text-blue-600"
+                    >
+                      {expanded
+                        ? <ChevronDown className="w-4 h-4 mr-1" />
+                        : <ChevronRight className="w-4 h-4 mr-1" />}
+                      {category.label}
+                    </button>
+                  </td>
+                  <TotalCells total={category} share={share(category.quantity)} />
+                </tr>
+                {skuTotals.map(sku => (
+                  <tr key={sku.key} className="text-gray-600">
+                    <td className="px-4 py-1 pl-10">{sku.label}</td>
+                    <TotalCells total={sku} share={share(sku.quantity)} />
+                  </tr>
+                ))}
+              </React.Fragment>
+            );
+          })}
+          {unassigned.quantity !== 0 && (
+            <tr className="text-gray-500 italic">
+              <td className="px-4 py-2">Not broken down (imported without product lines)</td>
+              <TotalCells total={unassigned} share={share(unassigned.quantity)} />
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -1,9 +1,11 @@
-import React from 'react';
-import { SalesMetrics, Supplier } from '../../types';
-import { DateRange, filterMetricsByDateRange } from '../../utils/dateUtils';
-import { calculateAverages } from '../../utils/calculationUtils';
-import { getSupplierName, isDeviceSupplier } from '../../data/suppliers';
+import React, { useState } from 'react';
+import { ChevronRight, ChevronDown } from 'lucide-react';
+import { SalesMetrics, Supplier, TargetScope } from '../../types';
+import { DateRange, CURRENT_DATE, filterMetricsByDateRange, getSelectionDates } from '../../utils/dateUtils';
+import { calculateAverages, summarizeReturns } from '../../utils/calculationUtils';
+import { getSupplierName } from '../../data/suppliers';
 import { KPIMetrics } from './KPIMetrics';
+import { SupplierDrillDown } from './SupplierDrillDown';
 
 interface SupplierPerformanceProps {
   metrics: SalesMetrics[];
@@ -15,6 +17,8 @@ interface SupplierPerformanceProps {
     quarter?: number;
     year: number;
   };
+  // Whose KPI targets apply; national targets when omitted
+  targetScope?: TargetScope;
 }
 
 export const SupplierPerformance: React.FC<SupplierPerformanceProps> = ({
@@ -22,15 +26,17 @@ export const SupplierPerformance: React.FC<SupplierPerformanceProps> = ({
   suppliers,
   dateRange,
   customRange,
-  selectedPeriod
+  selectedPeriod,
+  targetScope = {}
 }) => {
+  // Supplier whose categories and SKUs are shown below its row
+  const [expandedSupplierId, setExpandedSupplierId] = useState<number | null>(null);
   const filteredMetrics = filterMetricsByDateRange(metrics, dateRange, customRange, selectedPeriod);
   const showAverages = dateRange !== 'daily';
+  const columnCount = showAverages ? 8 : 6;
   const showKPIChart = ['daily', 'mtd', 'monthly'].includes(dateRange);
-
-  const deviceSupplierQuantity = filteredMetrics
-    .filter(m => m.supplierId === 5)
-    .reduce((sum, m) => sum + m.quantity, 0);
+  // Targets are those in effect on the last day of the period
+  const targetDate = getSelectionDates(dateRange, customRange, selectedPeriod)?.endDate || CURRENT_DATE;
 
   return (
     <div className="bg-white rounded-lg shadow-md p-6">
@@ -61,53 +67,94 @@ export const SupplierPerformance: React.FC<SupplierPerformanceProps> = ({
                   Avg Daily Margin
                 </th>
               )}
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Returns
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Return Rate
+              </th>
             </tr>
           </thead>
           <tbody className="bg-white divide-y divide-gray-200">
             {suppliers.map((supplier) => {
               const supplierMetrics = filteredMetrics.filter(m => m.supplierId === supplier.id);
-              const totalQty = supplierMetrics.reduce((sum, m) => sum + m.quantity, 0);
-              const totalSales = supplierMetrics.reduce((sum, m) => sum + m.salesAmount, 0);
-              const totalMargin = supplierMetrics.reduce((sum, m) => sum + m.marginAmount, 0);
+              // Quantity, sales and margin are net of returns
+              const { gross, returns, net, returnRate } = summarizeReturns(supplierMetrics);
+              const totalQty = net.quantity;
+              const totalSales = net.salesAmount;
+              const totalMargin = net.marginAmount;
+              const importsSales = supplier.importColumns.includes('sales');
               const averages = calculateAverages(supplierMetrics, dateRange);
+              const expanded = expandedSupplierId === supplier.id;
 
               return (
-                <tr key={supplier.id}>
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <div className="text-sm font-medium text-gray-900">{getSupplierName(supplier.id)}</div>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <div className="text-sm text-gray-900">{totalQty}</div>
-                  </td>
-                  {!isDeviceSupplier(supplier.id) ? (
-                    <>
-                      <td className="px-6 py-4 whitespace-nowrap">
-                        <div className="text-sm text-gray-900">${totalSales.toLocaleString()}</div>
-                      </td>
-                      {showAverages && (
+                <React.Fragment key={supplier.id}>
+                  <tr>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <button
+                        type="button"
+                        onClick={() => setExpandedSupplierId(expanded ? null : supplier.id)}
+                        className="flex items-center text-sm font-medium text-gray-900 hover:text-blue-600"
+                        title="Show categories and SKUs"
+                      >
+                        {expanded
+                          ? <ChevronDown className="w-4 h-4 mr-1" />
+                          : <ChevronRight className="w-4 h-4 mr-1" />}
+                        {getSupplierName(supplier.id)}
+                      </button>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-gray-900">{totalQty}</div>
+                    </td>
+                    {importsSales ? (
+                      <>
                         <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="text-sm text-gray-900">
-                            ${averages ? averages.avgSales.toLocaleString(undefined, { maximumFractionDigits: 2 }) : '0'}
-                          </div>
+                          <div className="text-sm text-gray-900">${totalSales.toLocaleString()}</div>
+                          {returns.quantity !== 0 && (
+                            <div className="text-xs text-gray-500">Gross ${gross.salesAmount.toLocaleString()}</div>
+                          )}
                         </td>
-                      )}
-                      <td className="px-6 py-4 whitespace-nowrap">
-                        <div className="text-sm text-gray-900">${totalMargin.toLocaleString()}</div>
-                      </td>
-                      {showAverages && (
+                        {showAverages && (
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <div className="text-sm text-gray-900">
+                              ${averages ? averages.avgSales.toLocaleString(undefined, { maximumFractionDigits: 2 }) : '0'}
+                            </div>
+                          </td>
+                        )}
                         <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="text-sm text-gray-900">
-                            ${averages ? averages.avgMargin.toLocaleString(undefined, { maximumFractionDigits: 2 }) : '0'}
-                          </div>
+                          <div className="text-sm text-gray-900">${totalMargin.toLocaleString()}</div>
                         </td>
+                        {showAverages && (
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <div className="text-sm text-gray-900">
+                              ${averages ? averages.avgMargin.toLocaleString(undefined, { maximumFractionDigits: 2 }) : '0'}
+                            </div>
+                          </td>
+                        )}
+                      </>
+                    ) : (
+                      <td colSpan={showAverages ? 4 : 2} className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 italic">
+                        Quantity Only
+                      </td>
+                    )}
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-gray-900">{returns.quantity}</div>
+                      {importsSales && returns.salesAmount !== 0 && (
+                        <div className="text-xs text-gray-500">${returns.salesAmount.toLocaleString()}</div>
                       )}
-                    </>
-                  ) : (
-                    <td colSpan={showAverages ? 4 : 2} className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 italic">
-                      Quantity Only
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-gray-900">{returnRate.toFixed(1)}%</div>
+                    </td>
+                  </tr>
+                  {expanded && (
+                    <tr>
+                      <td colSpan={columnCount} className="p-0">
+                        <SupplierDrillDown supplierId={supplier.id} metrics={supplierMetrics} />
+                      </td>
+                    </tr>
                   )}
-                </tr>
+                </React.Fragment>
               );
             })}
           </tbody>
@@ -116,8 +163,9 @@ export const SupplierPerformance: React.FC<SupplierPerformanceProps> = ({
       {showKPIChart && (
         <KPIMetrics 
           metrics={filteredMetrics}
-          deviceSupplierQuantity={deviceSupplierQuantity}
           dateRange={dateRange}
+          targetScope={targetScope}
+          targetDate={targetDate}
         />
       )}
     </div>
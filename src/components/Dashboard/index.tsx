@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
 import { fetchUserMetrics } from '../../services/firestore';
+import { fetchRankings } from '../../services/rankings';
+import { fetchStores } from '../../services/stores';
 import { Header } from '../Layout/Header';
 import { DateRangeSelector } from './DateRangeSelector';
 import { PerformanceMetrics } from './PerformanceMetrics';
@@ -8,18 +10,19 @@ import { SupplierPerformance } from './SupplierPerformance';
 import { AttachmentRateChart } from './AttachmentRateChart';
 import { RankingCard } from './RankingCard';
 import { DateRange } from '../../utils/dateUtils';
-import { DateSelection, SalesMetrics } from '../../types';
-import { suppliers } from '../../data/suppliers';
-import { mockRankings } from '../../data/mockData';
+import { DateSelection, SalesMetrics, Rankings } from '../../types';
+import { useSuppliers } from '../../hooks/useSuppliers';
 
 export const Dashboard: React.FC = () => {
-  const { currentUser } = useAuth();
+  const { currentUser, userProfile } = useAuth();
+  const suppliers = useSuppliers();
   const [dateRange, setDateRange] = useState<DateRange>('daily');
   const [customRange, setCustomRange] = useState<DateSelection>({
     startDate: null,
     endDate: null
   });
   const [metrics, setMetrics] = useState<SalesMetrics[]>([]);
+  const [rankings, setRankings] = useState<Rankings | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -34,6 +37,13 @@ export const Dashboard: React.FC = () => {
         
         const data = await fetchUserMetrics(currentUser.uid, startDate, endDate);
         setMetrics(data);
+
+        // Rank the salesperson at their primary store over the same days
+        const stores = await fetchStores();
+        const store = stores.find(s => s.id === userProfile?.primaryStoreId);
+        if (userProfile?.staffCode && store) {
+          setRankings(await fetchRankings(userProfile.staffCode, store, startDate, endDate));
+        }
       } catch (error) {
         console.error('Error loading metrics:', error);
       } finally {
@@ -42,7 +52,7 @@ export const Dashboard: React.FC = () => {
     };
 
     loadMetrics();
-  }, [currentUser]);
+  }, [currentUser, userProfile]);
 
   if (loading) {
     return <div>Loading...</div>;
@@ -67,6 +77,9 @@ export const Dashboard: React.FC = () => {
           metrics={metrics}
           dateRange={dateRange}
           customRange={customRange}
+          fetchComparison={currentUser
+            ? (startDate, endDate) => fetchUserMetrics(currentUser.uid, startDate, endDate)
+            : undefined}
         />
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mt-6">
           <div className="lg:col-span-2">
@@ -75,10 +88,15 @@ export const Dashboard: React.FC = () => {
               suppliers={suppliers}
               dateRange={dateRange}
               customRange={customRange}
+              targetScope={{
+                staffCode: userProfile?.staffCode,
+                storeId: userProfile?.primaryStoreId,
+                regionId: userProfile?.regionId
+              }}
             />
           </div>
           <div>
-            <RankingCard rankings={mockRankings} />
+            <RankingCard rankings={rankings} />
           </div>
         </div>
         <div className="mt-6">
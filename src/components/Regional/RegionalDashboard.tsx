@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
-import { Store, Region } from '../../types';
+import { Store, Region, SalesMetrics, DateSelection } from '../../types';
 import { fetchStoresByRegion } from '../../services/stores';
 import { fetchRegions } from '../../services/regions';
 import { DateRangeSelector } from '../Dashboard/DateRangeSelector';
@@ -8,20 +9,35 @@ import { PerformanceMetrics } from '../Dashboard/PerformanceMetrics';
 import { SupplierPerformance } from '../Dashboard/SupplierPerformance';
 import { AttachmentRateChart } from '../Dashboard/AttachmentRateChart';
 import { StorePerformanceTable } from './StorePerformanceTable';
-import { DateRange } from '../../utils/dateUtils';
+import { fetchRegionTotals } from '../../services/rollups';
+import { useSuppliers } from '../../hooks/useSuppliers';
+import { DateRange, filterMetricsByDateRange, getSelectionDates } from '../../utils/dateUtils';
 
 export const RegionalDashboard: React.FC = () => {
   const { userProfile } = useAuth();
+  const navigate = useNavigate();
+  const suppliers = useSuppliers();
   const [stores, setStores] = useState<Store[]>([]);
   const [region, setRegion] = useState<Region | null>(null);
+  const [metrics, setMetrics] = useState<SalesMetrics[]>([]);
   const [dateRange, setDateRange] = useState<DateRange>('mtd');
+  const [customRange, setCustomRange] = useState<DateSelection>({
+    startDate: new Date(),
+    endDate: new Date()
+  });
   const [selectedPeriod, setSelectedPeriod] = useState({
     month: new Date().getMonth(),
     quarter: Math.floor(new Date().getMonth() / 3),
     year: new Date().getFullYear()
   });
   const [loading, setLoading] = useState(true);
+  const [metricsLoading, setMetricsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // The selected period and the one before it, for the comparisons
+  const selectionDates = getSelectionDates(dateRange, customRange, selectedPeriod, { includePrevious: true });
+  const selectionKey = selectionDates
+    ? `${selectionDates.startDate.getTime()}-${selectionDates.endDate.getTime()}`
+    : '';
 
   useEffect(() => {
     const loadData = async () => {
@@ -48,6 +64,35 @@ export const RegionalDashboard: React.FC = () => {
     loadData();
   }, [userProfile]);
 
+  useEffect(() => {
+    const loadMetrics = async () => {
+      if (!userProfile?.regionId || !selectionDates) return;
+
+      try {
+        setMetricsLoading(true);
+        setMetrics(await fetchRegionTotals(
+          userProfile.regionId,
+          selectionDates.startDate,
+          selectionDates.endDate
+        ));
+        setError(null);
+      } catch (err) {
+        setError('Failed to load regional metrics');
+        console.error('Error loading regional metrics:', err);
+      } finally {
+        setMetricsLoading(false);
+      }
+    };
+
+    loadMetrics();
+  }, [userProfile?.regionId, selectionKey]);
+
+  // The same period last year, for the year-over-year comparison
+  const fetchComparison = async (startDate: Date, endDate: Date) => {
+    if (!userProfile?.regionId) return [];
+    return fetchRegionTotals(userProfile.regionId, startDate, endDate);
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-48">
@@ -78,35 +123,54 @@ export const RegionalDashboard: React.FC = () => {
       <DateRangeSelector
         selectedRange={dateRange}
         onRangeChange={setDateRange}
+        customRange={customRange}
+        onCustomRangeChange={setCustomRange}
         selectedPeriod={selectedPeriod}
         onPeriodChange={setSelectedPeriod}
       />
 
-      <PerformanceMetrics
-        metrics={[]} // TODO: Add metrics data
-        dateRange={dateRange}
-        selectedPeriod={selectedPeriod}
-      />
-
-      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-        <div className="lg:col-span-2">
-          <SupplierPerformance
-            metrics={[]} // TODO: Add metrics data
-            suppliers={[]} // TODO: Add suppliers data
-            dateRange={dateRange}
-            selectedPeriod={selectedPeriod}
-          />
+      {metricsLoading ? (
+        <div className="flex items-center justify-center h-48">
+          <div className="text-gray-600">Loading metrics...</div>
         </div>
-        <div>
-          <AttachmentRateChart
-            metrics={[]} // TODO: Add metrics data
+      ) : (
+        <>
+          <PerformanceMetrics
+            metrics={metrics}
             dateRange={dateRange}
+            customRange={customRange}
             selectedPeriod={selectedPeriod}
+            fetchComparison={fetchComparison}
           />
-        </div>
-      </div>
 
-      <StorePerformanceTable stores={stores} />
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2">
+              <SupplierPerformance
+                metrics={metrics}
+                suppliers={suppliers}
+                dateRange={dateRange}
+                customRange={customRange}
+                selectedPeriod={selectedPeriod}
+                targetScope={{ regionId: userProfile?.regionId }}
+              />
+            </div>
+            <div>
+              <AttachmentRateChart
+                metrics={metrics}
+                dateRange={dateRange}
+                customRange={customRange}
+                selectedPeriod={selectedPeriod}
+              />
+            </div>
+          </div>
+
+          <StorePerformanceTable
+            stores={stores}
+            metrics={filterMetricsByDateRange(metrics, dateRange, customRange, selectedPeriod)}
+            onStoreSelect={(store) => navigate(`/metrics/stores?storeId=${store.id}`)}
+          />
+        </>
+      )}
     </div>
   );
 };
\ No newline at end of file
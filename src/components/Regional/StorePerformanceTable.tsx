@@ -1,12 +1,101 @@
-import React from 'react';
-import { Store } from '../../types';
+import React, { useMemo, useState } from 'react';
+import { ChevronDown, ChevronUp, ChevronRight } from 'lucide-react';
+import { Store, SalesMetrics } from '../../types';
 import { formatCurrency, formatPercentage } from '../../utils/formatting';
+import { calculateAttachmentRate, calculateSupplierShare } from '../../utils/calculationUtils';
+import { useSuppliers } from '../../hooks/useSuppliers';
 
 interface StorePerformanceTableProps {
   stores: Store[];
+  // Metrics for the selected period only
+  metrics: SalesMetrics[];
+  onStoreSelect?: (store: Store) => void;
 }
 
-export const StorePerformanceTable: React.FC<StorePerformanceTableProps> = ({ stores }) => {
+interface StoreRow {
+  store: Store;
+  salesAmount: number;
+  marginAmount: number;
+  attachmentRate: number;
+  // Share of accessory units by supplier ID, for the suppliers with a share KPI
+  shares: Record<number, number>;
+}
+
+// 'share:<supplierId>' sorts by that supplier's share
+type SortKey = 'name' | 'branchNumber' | 'salesAmount' | 'marginAmount' | 'attachmentRate' | `share:${number}`;
+
+const getSortValue = (row: StoreRow, key: SortKey): number | string => {
+  if (key.startsWith('share:')) return row.shares[Number(key.split(':')[1])] || 0;
+  if (key === 'name' || key === 'branchNumber') return row.store[key];
+  return row[key as 'salesAmount' | 'marginAmount' | 'attachmentRate'];
+};
+
+const SortHeader: React.FC<{
+  sort: SortKey;
+  sortKey: SortKey;
+  ascending: boolean;
+  onSort: (key: SortKey) => void;
+  align?: 'left' | 'right';
+  children: React.ReactNode;
+}> = ({ sort, sortKey, ascending, onSort, align = 'right', children }) => (
+  <th className={`px-6 py-3 ${align === 'right' ? 'text-right' : 'text-left'} text-xs font-medium text-gray-500 uppercase tracking-wider`}>
+    <button
+      onClick={() => onSort(sort)}
+      className={`inline-flex items-center gap-1 uppercase hover:text-gray-700 ${align === 'right' ? 'flex-row-reverse' : ''}`}
+    >
+      {children}
+      {sortKey === sort && (ascending ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />)}
+    </button>
+  </th>
+);
+
+export const StorePerformanceTable: React.FC<StorePerformanceTableProps> = ({ stores, metrics, onStoreSelect }) => {
+  const suppliers = useSuppliers();
+  const shareSuppliers = useMemo(() => suppliers.filter(s => s.showShareKPI), [suppliers]);
+  const [sortKey, setSortKey] = useState<SortKey>('salesAmount');
+  const [ascending, setAscending] = useState(false);
+
+  const rows = useMemo(() => {
+    const byBranch = new Map<string, SalesMetrics[]>();
+    metrics.forEach(metric => {
+      byBranch.set(metric.branchNumber, [...(byBranch.get(metric.branchNumber) || []), metric]);
+    });
+
+    return stores.map((store): StoreRow => {
+      const storeMetrics = byBranch.get(store.branchNumber) || [];
+      return {
+        store,
+        salesAmount: storeMetrics.reduce((sum, m) => sum + m.salesAmount, 0),
+        marginAmount: storeMetrics.reduce((sum, m) => sum + m.marginAmount, 0),
+        attachmentRate: calculateAttachmentRate(storeMetrics),
+        shares: Object.fromEntries(shareSuppliers.map(s => [s.id, calculateSupplierShare(storeMetrics, s.id)]))
+      };
+    });
+  }, [stores, metrics, shareSuppliers]);
+
+  const sortedRows = useMemo(() => {
+    return [...rows].sort((a, b) => {
+      const left = getSortValue(a, sortKey);
+      const right = getSortValue(b, sortKey);
+      const order = typeof left === 'string'
+        ? left.localeCompare(String(right), undefined, { numeric: true })
+        : left - Number(right);
+      return ascending ? order : -order;
+    });
+  }, [rows, sortKey, ascending]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setAscending(!ascending);
+    } else {
+      setSortKey(key);
+      // Text reads best A-Z, figures best highest first
+      setAscending(key === 'name' || key === 'branchNumber');
+    }
+  };
+
+  const sortProps = { sortKey, ascending, onSort: handleSort };
+
   return (
     <div className="bg-white shadow-md rounded-lg overflow-hidden">
       <div className="px-4 py-5 sm:px-6">
@@ -16,41 +105,49 @@ export const StorePerformanceTable: React.FC<StorePerformanceTableProps> = ({ st
         <table className="min-w-full divide-y divide-gray-200">
           <thead className="bg-gray-50">
             <tr>
-              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                Store
-              </th>
-              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                Branch Number
-              </th>
-              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
-                Total Sales
-              </th>
-              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
-                Margin
-              </th>
-              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
-                Attachment Rate
-              </th>
+              <SortHeader {...sortProps} sort="name" align="left">Store</SortHeader>
+              <SortHeader {...sortProps} sort="branchNumber" align="left">Branch Number</SortHeader>
+              <SortHeader {...sortProps} sort="salesAmount">Total Sales</SortHeader>
+              <SortHeader {...sortProps} sort="marginAmount">Margin</SortHeader>
+              <SortHeader {...sortProps} sort="attachmentRate">Attachment Rate</SortHeader>
+              {shareSuppliers.map(supplier => (
+                <SortHeader key={supplier.id} {...sortProps} sort={`share:${supplier.id}`}>{supplier.name} Share</SortHeader>
+              ))}
+              {onStoreSelect && <th className="px-6 py-3" />}
             </tr>
           </thead>
           <tbody className="bg-white divide-y divide-gray-200">
-            {stores.map((store) => (
-              <tr key={store.id}>
+            {sortedRows.map((row) => (
+              <tr
+                key={row.store.id}
+                onClick={onStoreSelect ? () => onStoreSelect(row.store) : undefined}
+                className={onStoreSelect ? 'cursor-pointer hover:bg-gray-50' : ''}
+              >
                 <td className="px-6 py-4 whitespace-nowrap">
-                  <div className="text-sm font-medium text-gray-900">{store.name}</div>
+                  <div className="text-sm font-medium text-gray-900">{row.store.name}</div>
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap">
-                  <div className="text-sm text-gray-500">{store.branchNumber}</div>
+                  <div className="text-sm text-gray-500">{row.store.branchNumber}</div>
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-500">
-                  {formatCurrency(0)} {/* TODO: Add actual sales data */}
+                  {formatCurrency(row.salesAmount)}
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-500">
-                  {formatCurrency(0)} {/* TODO: Add actual margin data */}
+                  {formatCurrency(row.marginAmount)}
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-500">
-                  {formatPercentage(0)} {/* TODO: Add actual attachment rate data */}
+                  {formatPercentage(row.attachmentRate / 100)}
                 </td>
+                {shareSuppliers.map(supplier => (
+                  <td key={supplier.id} className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-500">
+                    {formatPercentage((row.shares[supplier.id] || 0) / 100)}
+                  </td>
+                ))}
+                {onStoreSelect && (
+                  <td className="px-6 py-4 whitespace-nowrap text-right">
+                    <ChevronRight className="w-4 h-4 text-gray-400 inline" />
+                  </td>
+                )}
               </tr>
             ))}
           </tbody>
@@ -58,4 +155,4 @@ export const StorePerformanceTable: React.FC<StorePerformanceTableProps> = ({ st
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -4,15 +4,18 @@ import { DateRangeSelector } from '../Dashboard/DateRangeSelector';
 import { PerformanceMetrics } from '../Dashboard/PerformanceMetrics';
 import { SupplierPerformance } from '../Dashboard/SupplierPerformance';
 import { AttachmentRateChart } from '../Dashboard/AttachmentRateChart';
-import { fetchMetricsByStaff } from '../../services/metrics';
-import { DateRange } from '../../utils/dateUtils';
-import { SalesMetrics, Store, DateSelection } from '../../types';
-import { suppliers } from '../../data/suppliers';
+import { RankingCard } from '../Dashboard/RankingCard';
+import { fetchStaffTotals } from '../../services/rollups';
+import { fetchRankings } from '../../services/rankings';
+import { DateRange, getSelectionDates } from '../../utils/dateUtils';
+import { SalesMetrics, Store, DateSelection, Rankings } from '../../types';
+import { useSuppliers } from '../../hooks/useSuppliers';
 import { fetchStores } from '../../services/stores';
 import { StoreSelector } from './StoreSelector';
 
 export const TeamMemberDashboard: React.FC = () => {
   const { userProfile } = useAuth();
+  const suppliers = useSuppliers();
   const [metrics, setMetrics] = useState<SalesMetrics[]>([]);
   const [stores, setStores] = useState<Store[]>([]);
   const [selectedStoreId, setSelectedStoreId] = useState<string | null>(null);
@@ -28,6 +31,24 @@ export const TeamMemberDashboard: React.FC = () => {
   });
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // The selected period and the one before it, for the comparisons
+  const selectionDates = getSelectionDates(dateRange, customRange, selectedPeriod, { includePrevious: true });
+  const selectionKey = selectionDates
+    ? `${selectionDates.startDate.getTime()}-${selectionDates.endDate.getTime()}`
+    : '';
+  const [rankings, setRankings] = useState<Rankings | null>(null);
+  const [rankingsLoading, setRankingsLoading] = useState(false);
+  // Rankings cover the selected period alone, at the selected or primary store
+  const rankingDates = getSelectionDates(dateRange, customRange, selectedPeriod);
+  const rankingKey = rankingDates
+    ? `${rankingDates.startDate.getTime()}-${rankingDates.endDate.getTime()}`
+    : '';
+  const rankingStore = stores.find(store => store.id === (selectedStoreId || userProfile?.primaryStoreId)) || stores[0];
+  // Metrics are keyed by branch number, so the selected or assigned stores are looked up by ID
+  const branchNumbers = stores
+    .filter(store => !selectedStoreId || store.id === selectedStoreId)
+    .map(store => store.branchNumber);
+  const branchKey = branchNumbers.join(',');
 
   // Load stores on mount
   useEffect(() => {
@@ -50,16 +71,19 @@ export const TeamMemberDashboard: React.FC = () => {
     loadStores();
   }, [userProfile?.storeIds]);
 
-  // Load metrics when store selection changes
+  // Load metrics when the store or date selection changes
   useEffect(() => {
     const loadMetrics = async () => {
-      if (!userProfile?.staffCode || !userProfile?.storeIds) return;
+      if (!userProfile?.staffCode || !userProfile?.storeIds || !selectionDates) return;
 
       try {
         setLoading(true);
-        // If store is selected, only get metrics for that store
-        const storeIds = selectedStoreId ? [selectedStoreId] : userProfile.storeIds;
-        const data = await fetchMetricsByStaff(userProfile.staffCode, storeIds);
+        const data = await fetchStaffTotals(
+          userProfile.staffCode,
+          branchNumbers,
+          selectionDates.startDate,
+          selectionDates.endDate
+        );
         setMetrics(data);
         setError(null);
       } catch (err) {
@@ -71,7 +95,36 @@ export const TeamMemberDashboard: React.FC = () => {
     };
 
     loadMetrics();
-  }, [userProfile, selectedStoreId]);
+  }, [userProfile, branchKey, selectionKey]);
+
+  useEffect(() => {
+    const loadRankings = async () => {
+      if (!userProfile?.staffCode || !rankingStore || !rankingDates) return;
+
+      try {
+        setRankingsLoading(true);
+        setRankings(await fetchRankings(
+          userProfile.staffCode,
+          rankingStore,
+          rankingDates.startDate,
+          rankingDates.endDate
+        ));
+      } catch (err) {
+        console.error('Error loading rankings:', err);
+        setRankings(null);
+      } finally {
+        setRankingsLoading(false);
+      }
+    };
+
+    loadRankings();
+  }, [userProfile?.staffCode, rankingStore?.id, rankingKey]);
+
+  // The same period last year, for the year-over-year comparison
+  const fetchComparison = async (startDate: Date, endDate: Date) => {
+    if (!userProfile?.staffCode) return [];
+    return fetchStaffTotals(userProfile.staffCode, branchNumbers, startDate, endDate);
+  };
 
   if (loading) {
     return (
@@ -123,6 +176,7 @@ export const TeamMemberDashboard: React.FC = () => {
         metrics={metrics}
         dateRange={dateRange}
         selectedPeriod={selectedPeriod}
+        fetchComparison={fetchComparison}
       />
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -132,6 +186,11 @@ export const TeamMemberDashboard: React.FC = () => {
             suppliers={suppliers}
             dateRange={dateRange}
             selectedPeriod={selectedPeriod}
+            targetScope={{
+              staffCode: userProfile?.staffCode,
+              storeId: rankingStore?.id,
+              regionId: rankingStore?.regionId
+            }}
           />
         </div>
         <div>
@@ -140,6 +199,7 @@ export const TeamMemberDashboard: React.FC = () => {
             dateRange={dateRange}
             selectedPeriod={selectedPeriod}
           />
+          <RankingCard rankings={rankings} loading={rankingsLoading} />
         </div>
       </div>
     </div>
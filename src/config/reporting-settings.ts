@@ -31,19 +31,8 @@ export const REPORTING_SETTINGS = {
     }
   },
 
-  // Performance thresholds
-  THRESHOLDS: {
-    ATTACHMENT_RATE: {
-      LOW: 150,
-      MEDIUM: 170,
-      HIGH: 200
-    },
-    MARGIN_RATE: {
-      LOW: 20,
-      MEDIUM: 25,
-      HIGH: 30
-    }
-  },
+  // Performance thresholds are KPI targets, set per region, store and team member
+  // in the targets collection (see data/targets.ts for the national defaults)
 
   // Cache settings
   CACHE: {
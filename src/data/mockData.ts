@@ -1,5 +1,5 @@
-import { SalesMetrics, Rankings, RankingDetails } from '../types';
-import { suppliers } from './suppliers';
+import { SalesMetrics } from '../types';
+import { getSuppliers, isDeviceSupplier } from './suppliers';
 
 const generateDailySalesAmount = (): number => {
   return Math.floor(Math.random() * (89 - 25 + 1)) + 25;
@@ -13,15 +13,16 @@ export const generateMockMetrics = (): SalesMetrics[] => {
     const date = new Date(today);
     date.setDate(date.getDate() - i);
     
-    suppliers.forEach(supplier => {
-      const dailySales = generateDailySalesAmount();
+    getSuppliers().forEach(supplier => {
+      // Devices sell for roughly twenty times an accessory
+      const dailySales = generateDailySalesAmount() * (isDeviceSupplier(supplier.id) ? 20 : 1);
       const marginPercent = Math.random() * (0.30 - 0.20) + 0.20;
       
       metrics.push({
         supplierId: supplier.id,
-        quantity: supplier.id === 5 ? 90 : Math.floor(Math.random() * 100),
-        salesAmount: supplier.id !== 5 ? dailySales : 0,
-        marginAmount: supplier.id !== 5 ? Math.floor(dailySales * marginPercent) : 0,
+        quantity: isDeviceSupplier(supplier.id) ? 90 : Math.floor(Math.random() * 100),
+        salesAmount: dailySales,
+        marginAmount: Math.floor(dailySales * marginPercent),
         date: date.toISOString()
       });
     });
@@ -29,29 +30,3 @@ export const generateMockMetrics = (): SalesMetrics[] => {
   
   return metrics;
 };
-
-export const mockRankings: Rankings = {
-  storeRank: 3,
-  regionRank: 12,
-  totalParticipants: 50
-};
-
-export const generateMockSalespeople = (): RankingDetails[] => {
-  return Array.from({ length: 10 }, (_, i) => ({
-    id: `sp-${i + 1}`,
-    name: `Salesperson ${i + 1}`,
-    rank: i + 1,
-    attachmentRate: Math.floor(Math.random() * (200 - 100) + 100),
-    avgSalesPerUnit: Math.floor(Math.random() * (80 - 30) + 30)
-  }));
-};
-
-export const generateMockStores = (): RankingDetails[] => {
-  return Array.from({ length: 20 }, (_, i) => ({
-    id: `st-${i + 1}`,
-    name: `Store ${i + 1}`,
-    rank: i + 1,
-    attachmentRate: Math.floor(Math.random() * (200 - 100) + 100),
-    avgSalesPerUnit: Math.floor(Math.random() * (80 - 30) + 30)
-  }));
-};
\ No newline at end of file
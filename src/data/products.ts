@@ -0,0 +1,23 @@
+import { ProductCategory } from '../types';
+
+// Built-in accessory categories, used while the productCategories collection is empty
+export const DEFAULT_PRODUCT_CATEGORIES: ProductCategory[] = [
+  { id: 'cases', name: 'Cases' },
+  { id: 'screen-protectors', name: 'Screen Protectors' },
+  { id: 'chargers', name: 'Chargers & Cables' },
+  { id: 'audio', name: 'Audio' },
+  { id: 'other', name: 'Other' }
+];
+
+export const UNCATEGORISED_ID = 'other';
+
+export const getCategoryName = (categories: ProductCategory[], categoryId: string): string =>
+  categories.find(category => category.id === categoryId)?.name || categoryId;
+
+// Matches a category by ID or name as written on a POS export, e.g. "Screen Protectors"
+export const findCategory = (categories: ProductCategory[], value: string): ProductCategory | undefined => {
+  const normalized = value.trim().toLowerCase();
+  return categories.find(category =>
+    category.id === normalized || category.name.toLowerCase() === normalized
+  );
+};
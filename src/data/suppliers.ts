@@ -1,19 +1,133 @@
-export const suppliers = [
-  { id: 1, name: 'Cellnet', color: 'rgba(59, 130, 246, 0.7)' }, // Blue
-  { id: 2, name: 'Likewize Acc', color: 'rgba(147, 51, 234, 0.7)' }, // Purple
-  { id: 3, name: 'Pacificomm', color: 'rgba(236, 72, 153, 0.7)' }, // Pink
-  { id: 4, name: 'Studiotech', color: 'rgba(245, 158, 11, 0.7)' }, // Amber
-  { id: 5, name: 'Likewize Device', color: 'rgba(34, 197, 94, 0.7)' } // Green
-] as const;
+import { Supplier } from '../types';
+
+const FALLBACK_COLOR = 'rgba(156, 163, 175, 0.7)';
+
+// Built-in catalogue, used until the suppliers collection loads or while it is empty
+export const DEFAULT_SUPPLIERS: Supplier[] = [
+  {
+    id: 1,
+    name: 'Cellnet',
+    color: 'rgba(59, 130, 246, 0.7)', // Blue
+    category: 'accessory',
+    importKey: 'cellnet',
+    importColumns: ['quantity', 'sales', 'margin'],
+    importAliases: {
+      quantity: ['Cellnet Qty', 'Cellnet Units'],
+      sales: ['Cellnet Sales Value', 'Cellnet Revenue'],
+      margin: ['Cellnet GP']
+    }
+  },
+  {
+    id: 2,
+    name: 'Likewize Acc',
+    color: 'rgba(147, 51, 234, 0.7)', // Purple
+    category: 'accessory',
+    importKey: 'likewizeAcc',
+    importColumns: ['quantity', 'sales', 'margin'],
+    importAliases: {
+      quantity: ['Likewize Accessories Quantity', 'Likewize Acc Qty'],
+      sales: ['Likewize Accessories Sales', 'Likewize Acc Sales Value'],
+      margin: ['Likewize Accessories Margin', 'Likewize Acc GP']
+    }
+  },
+  {
+    id: 3,
+    name: 'Pacificomm',
+    color: 'rgba(236, 72, 153, 0.7)', // Pink
+    category: 'accessory',
+    importKey: 'pacificomm',
+    importColumns: ['quantity', 'sales', 'margin'],
+    importAliases: {
+      quantity: ['Pacificomm Qty', 'Pacificomm Units'],
+      sales: ['Pacificomm Sales Value', 'Pacificomm Revenue'],
+      margin: ['Pacificomm GP']
+    },
+    showShareKPI: true
+  },
+  {
+    id: 4,
+    name: 'Studiotech',
+    color: 'rgba(245, 158, 11, 0.7)', // Amber
+    category: 'accessory',
+    importKey: 'studiotech',
+    importColumns: ['quantity', 'sales', 'margin'],
+    importAliases: {
+      quantity: ['Studiotech Qty', 'Studiotech Units'],
+      sales: ['Studiotech Sales Value', 'Studiotech Revenue'],
+      margin: ['Studiotech GP']
+    }
+  },
+  {
+    id: 5,
+    name: 'Likewize Device',
+    color: 'rgba(34, 197, 94, 0.7)', // Green
+    category: 'device',
+    importKey: 'likewizeDevice',
+    importColumns: ['quantity', 'sales', 'margin'],
+    importAliases: {
+      quantity: ['Likewize Device Qty', 'Device Quantity', 'Devices'],
+      sales: ['Likewize Device Sales Value', 'Device Sales', 'Device Revenue'],
+      margin: ['Likewize Device GP', 'Device Margin']
+    },
+    optionalImportColumns: ['sales', 'margin']
+  }
+];
+
+// The catalogue in use, replaced once the suppliers collection has loaded
+let catalogue: Supplier[] = DEFAULT_SUPPLIERS;
+const listeners = new Set<() => void>();
+
+export const getSuppliers = (): Supplier[] => catalogue;
+
+export const setSuppliers = (suppliers: Supplier[]): void => {
+  catalogue = suppliers.length ? [...suppliers].sort((a, b) => a.id - b.id) : DEFAULT_SUPPLIERS;
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeToSuppliers = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getSupplier = (supplierId: number): Supplier | undefined =>
+  catalogue.find(s => s.id === supplierId);
 
 export const isDeviceSupplier = (supplierId: number): boolean => {
-  return supplierId === 5;
+  return getSupplier(supplierId)?.category === 'device';
 };
 
+export const isAccessorySupplier = (supplierId: number): boolean => {
+  return getSupplier(supplierId)?.category === 'accessory';
+};
+
+export const getAccessorySuppliers = (): Supplier[] =>
+  catalogue.filter(s => s.category === 'accessory');
+
+export const getDeviceSuppliers = (): Supplier[] =>
+  catalogue.filter(s => s.category === 'device');
+
 export const getSupplierName = (supplierId: number): string => {
-  return suppliers.find(s => s.id === supplierId)?.name || `Supplier ${supplierId}`;
+  return getSupplier(supplierId)?.name || `Supplier ${supplierId}`;
 };
 
 export const getSupplierColor = (supplierId: number): string => {
-  return suppliers.find(s => s.id === supplierId)?.color || 'rgba(156, 163, 175, 0.7)';
-};
\ No newline at end of file
+  return getSupplier(supplierId)?.color || FALLBACK_COLOR;
+};
+
+// Name for a group of suppliers, e.g. the device suppliers in a chart title
+export const joinSupplierNames = (suppliers: Supplier[]): string =>
+  suppliers.map(s => s.name).join(' + ') || 'devices';
+
+export const toDayString = (date: Date): string => [
+  date.getFullYear(),
+  (date.getMonth() + 1).toString().padStart(2, '0'),
+  date.getDate().toString().padStart(2, '0')
+].join('-');
+
+export const isSupplierActive = (supplier: Supplier, date: Date): boolean => {
+  const day = toDayString(date);
+  return (!supplier.activeFrom || day >= supplier.activeFrom) &&
+    (!supplier.activeTo || day <= supplier.activeTo);
+};
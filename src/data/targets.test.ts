@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { KPITarget } from '../types';
+import { DEFAULT_TARGETS, resolveTarget } from './targets';
+
+const SCOPE = { regionId: 'north', storeId: 'store-1', staffCode: 'ST001' };
+const DAY = new Date(2024, 9, 15);
+
+const target = (id: string, overrides: Partial<KPITarget>): KPITarget => ({
+  id,
+  kpi: 'attachmentRate',
+  level: 'national',
+  low: 100,
+  medium: 120,
+  ...overrides
+});
+
+describe('resolveTarget', () => {
+  it('falls back to the built-in national target', () => {
+    expect(resolveTarget('attachmentRate', SCOPE, DAY, undefined, []))
+      .toBe(DEFAULT_TARGETS.find(entry => entry.kpi === 'attachmentRate'));
+  });
+
+  it('prefers the most specific level', () => {
+    const targets = [
+      target('national', {}),
+      target('region', { level: 'region', scopeId: 'north' }),
+      target('store', { level: 'store', scopeId: 'store-1' }),
+      target('staff', { level: 'staff', scopeId: 'ST001' })
+    ];
+
+    expect(resolveTarget('attachmentRate', SCOPE, DAY, undefined, targets).id).toBe('staff');
+    expect(resolveTarget('attachmentRate', { ...SCOPE, staffCode: undefined }, DAY, undefined, targets).id)
+      .toBe('store');
+    expect(resolveTarget('attachmentRate', { regionId: 'north' }, DAY, undefined, targets).id).toBe('region');
+  });
+
+  it('ignores targets for other scopes', () => {
+    const targets = [target('national', {}), target('other-store', { level: 'store', scopeId: 'store-2' })];
+
+    expect(resolveTarget('attachmentRate', SCOPE, DAY, undefined, targets).id).toBe('national');
+  });
+
+  it("prefers a supplier's own target within a level", () => {
+    const targets = [
+      target('all', { kpi: 'supplierShare' }),
+      target('supplier-3', { kpi: 'supplierShare', supplierId: 3 }),
+      target('supplier-4', { kpi: 'supplierShare', supplierId: 4 })
+    ];
+
+    expect(resolveTarget('supplierShare', SCOPE, DAY, 3, targets).id).toBe('supplier-3');
+    expect(resolveTarget('supplierShare', SCOPE, DAY, 1, targets).id).toBe('all');
+  });
+
+  it('lets a dated target override a standing one while it is in effect', () => {
+    const targets = [
+      target('standing', { level: 'store', scopeId: 'store-1' }),
+      target('promotion', {
+        level: 'store',
+        scopeId: 'store-1',
+        effectiveFrom: '2024-10-01',
+        effectiveTo: '2024-10-31'
+      })
+    ];
+
+    expect(resolveTarget('attachmentRate', SCOPE, DAY, undefined, targets).id).toBe('promotion');
+    expect(resolveTarget('attachmentRate', SCOPE, new Date(2024, 10, 1), undefined, targets).id).toBe('standing');
+  });
+
+  it('keeps a more specific level over a dated broader target', () => {
+    const targets = [
+      target('promotion', { effectiveFrom: '2024-10-01', effectiveTo: '2024-10-31' }),
+      target('store', { level: 'store', scopeId: 'store-1' })
+    ];
+
+    expect(resolveTarget('attachmentRate', SCOPE, DAY, undefined, targets).id).toBe('store');
+  });
+});
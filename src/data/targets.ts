@@ -0,0 +1,94 @@
+import { KPITarget, TargetKPI, TargetLevel, TargetScope } from '../types';
+import { toDayString } from './suppliers';
+
+// National targets used for any KPI the targets collection doesn't cover on a given day
+export const DEFAULT_TARGETS: KPITarget[] = [
+  { id: 'default-attachmentRate', kpi: 'attachmentRate', level: 'national', low: 150, medium: 170 },
+  { id: 'default-avgSalesPerUnit', kpi: 'avgSalesPerUnit', level: 'national', low: 30, medium: 40 },
+  { id: 'default-revenueRatio', kpi: 'revenueRatio', level: 'national', low: 5, medium: 8 },
+  { id: 'default-supplierShare', kpi: 'supplierShare', level: 'national', low: 60, medium: 80 }
+];
+
+export const TARGET_KPI_LABELS: Record<TargetKPI, string> = {
+  attachmentRate: 'Attachment Rate',
+  avgSalesPerUnit: 'Average Sales Per Unit',
+  revenueRatio: 'Accessory Revenue per Device Dollar',
+  supplierShare: 'Supplier Share'
+};
+
+export const TARGET_LEVEL_LABELS: Record<TargetLevel, string> = {
+  national: 'National',
+  region: 'Region',
+  store: 'Store',
+  staff: 'Team Member'
+};
+
+// Most specific first
+const LEVEL_ORDER: TargetLevel[] = ['staff', 'store', 'region', 'national'];
+
+// The targets collection, replaced once it has loaded
+let catalogue: KPITarget[] = [];
+const listeners = new Set<() => void>();
+
+export const getTargets = (): KPITarget[] => catalogue;
+
+export const setTargets = (targets: KPITarget[]): void => {
+  catalogue = targets;
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeToTargets = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const isTargetEffective = (target: KPITarget, date: Date): boolean => {
+  const day = toDayString(date);
+  return (!target.effectiveFrom || day >= target.effectiveFrom) &&
+    (!target.effectiveTo || day <= target.effectiveTo);
+};
+
+const appliesTo = (target: KPITarget, scope: TargetScope): boolean => {
+  switch (target.level) {
+    case 'staff':
+      return !!scope.staffCode && target.scopeId === scope.staffCode;
+    case 'store':
+      return !!scope.storeId && target.scopeId === scope.storeId;
+    case 'region':
+      return !!scope.regionId && target.scopeId === scope.regionId;
+    default:
+      return true;
+  }
+};
+
+/**
+ * The target for a KPI on a given day. The most specific level with an
+ * effective target wins; within a level a supplier's own target beats the
+ * all-supplier one, and a dated target beats an open-ended one, so a
+ * promotion month can be set over a standing target. Falls back to the
+ * built-in national target.
+ */
+export const resolveTarget = (
+  kpi: TargetKPI,
+  scope: TargetScope,
+  date: Date,
+  supplierId?: number,
+  targets: KPITarget[] = catalogue
+): KPITarget => {
+  const candidates = targets.filter(target =>
+    target.kpi === kpi &&
+    (target.supplierId === undefined || target.supplierId === supplierId) &&
+    appliesTo(target, scope) &&
+    isTargetEffective(target, date)
+  );
+
+  const best = candidates.sort((a, b) =>
+    LEVEL_ORDER.indexOf(a.level) - LEVEL_ORDER.indexOf(b.level) ||
+    Number(b.supplierId !== undefined) - Number(a.supplierId !== undefined) ||
+    (b.effectiveFrom || '').localeCompare(a.effectiveFrom || '')
+  )[0];
+
+  return best || DEFAULT_TARGETS.find(target => target.kpi === kpi)!;
+};
@@ -1,6 +1,7 @@
-import { SelectionCriteria, MetricResult } from '../../types';
+import { MetricResult } from '../../types';
 import { calculateChange } from './calculateChange';
 
+// Comparison periods are resolved by getComparisonDates in utils/dateUtils
 export const comparePeriods = (
   current: MetricResult,
   previous: MetricResult
@@ -12,11 +13,4 @@ export const comparePeriods = (
     change: change.percentage,
     trend: change.trend
   };
-};
-
-export const getComparisonPeriod = (
-  selection: SelectionCriteria
-): SelectionCriteria => {
-  // Implementation for determining comparison period based on selection
-  return selection;
 };
\ No newline at end of file
@@ -0,0 +1,21 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { Supplier } from '../types';
+import { getSuppliers, subscribeToSuppliers } from '../data/suppliers';
+import { loadSupplierCatalogue } from '../services/suppliers';
+import { logOperation } from '../services/firebase/logging';
+
+/**
+ * The supplier catalogue, re-rendering when it changes. The first caller
+ * triggers the load from Firestore; the built-in suppliers are used until then.
+ */
+export const useSuppliers = (): Supplier[] => {
+  const suppliers = useSyncExternalStore(subscribeToSuppliers, getSuppliers);
+
+  useEffect(() => {
+    loadSupplierCatalogue().catch(error => {
+      logOperation('useSuppliers', 'error', error);
+    });
+  }, []);
+
+  return suppliers;
+};
@@ -0,0 +1,27 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { KPITarget, TargetKPI, TargetScope } from '../types';
+import { getTargets, subscribeToTargets, resolveTarget } from '../data/targets';
+import { loadTargetCatalogue } from '../services/targets';
+import { logOperation } from '../services/firebase/logging';
+
+/**
+ * The KPI targets, re-rendering when they change. The first caller triggers
+ * the load from Firestore; the built-in national targets are used until then.
+ */
+export const useTargets = (): KPITarget[] => {
+  const targets = useSyncExternalStore(subscribeToTargets, getTargets);
+
+  useEffect(() => {
+    loadTargetCatalogue().catch(error => {
+      logOperation('useTargets', 'error', error);
+    });
+  }, []);
+
+  return targets;
+};
+
+// The target that applies to a KPI for the given region, store or salesperson on a day
+export const useTarget = (kpi: TargetKPI, scope: TargetScope, date: Date, supplierId?: number): KPITarget => {
+  const targets = useTargets();
+  return resolveTarget(kpi, scope, date, supplierId, targets);
+};
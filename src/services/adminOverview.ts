@@ -0,0 +1,104 @@
+import { query, where, orderBy, limit, getDocs, Timestamp } from 'firebase/firestore';
+import { getCollection, logOperation } from './firebase';
+import { fetchRollups, fetchStoreTotals } from './rollups';
+import { fetchMetricsByStore } from './metrics';
+import { SalesMetrics, Store } from '../types';
+import { isReturn } from '../utils/calculationUtils';
+import { CURRENT_DATE } from '../utils/dateUtils/constants';
+
+export interface NationalTotals {
+  // Month to date
+  current: SalesMetrics[];
+  // The same days of last month
+  previous: SalesMetrics[];
+}
+
+export interface InactiveStaffMember {
+  staffCode: string;
+  name: string;
+}
+
+export interface Inactivity {
+  stores: Store[];
+  staff: InactiveStaffMember[];
+}
+
+export const getMonthToDate = () => {
+  const startDate = new Date(CURRENT_DATE.getFullYear(), CURRENT_DATE.getMonth(), 1);
+  const endDate = new Date(CURRENT_DATE);
+  // Last month up to the same day, or its last day when it is shorter
+  const previousStart = new Date(startDate.getFullYear(), startDate.getMonth() - 1, 1);
+  const previousEnd = new Date(
+    previousStart.getFullYear(),
+    previousStart.getMonth(),
+    Math.min(endDate.getDate(), new Date(startDate.getFullYear(), startDate.getMonth(), 0).getDate())
+  );
+  return { startDate, endDate, previousStart, previousEnd };
+};
+
+export const fetchNationalTotals = async (): Promise<NationalTotals> => {
+  const { startDate, endDate, previousStart, previousEnd } = getMonthToDate();
+  const [current, previous] = await Promise.all([
+    fetchStoreTotals([], startDate, endDate),
+    fetchStoreTotals([], previousStart, previousEnd)
+  ]);
+  return { current, previous };
+};
+
+// Month-to-date totals of every store and region, for the leaderboards
+export const fetchMonthToDateBreakdown = async (): Promise<{ stores: SalesMetrics[]; regions: SalesMetrics[] }> => {
+  const { startDate, endDate } = getMonthToDate();
+  const [stores, regions] = await Promise.all([
+    fetchRollups('day', { scope: 'store' }, startDate, endDate),
+    fetchRollups('day', { scope: 'region' }, startDate, endDate)
+  ]);
+  return { stores, regions };
+};
+
+// Date of the newest metric, which is the last day any import covered
+export const fetchLatestMetricDate = async (): Promise<Date | null> => {
+  try {
+    const snapshot = await getDocs(query(getCollection('METRICS'), orderBy('date', 'desc'), limit(1)));
+    const date = snapshot.docs[0]?.data().date;
+    return date instanceof Timestamp ? date.toDate() : null;
+  } catch (error) {
+    logOperation('fetchLatestMetricDate', 'error', error);
+    throw error;
+  }
+};
+
+/**
+ * Stores and salespeople with no sales in the last few days. A day with only
+ * returns doesn't count as trading.
+ */
+export const fetchInactivity = async (stores: Store[], days: number): Promise<Inactivity> => {
+  try {
+    const startDate = new Date(CURRENT_DATE);
+    startDate.setDate(startDate.getDate() - days + 1);
+    startDate.setHours(0, 0, 0, 0);
+
+    const [metrics, usersSnapshot] = await Promise.all([
+      fetchMetricsByStore([], startDate, CURRENT_DATE),
+      getDocs(query(getCollection('USERS'), where('role', '==', 'team_member')))
+    ]);
+
+    const sales = metrics.filter(metric => !isReturn(metric) && (metric.quantity > 0 || metric.salesAmount > 0));
+    const activeBranches = new Set(sales.map(metric => metric.branchNumber));
+    const activeStaff = new Set(sales.map(metric => metric.staffCode));
+
+    const staff = usersSnapshot.docs
+      .map(userDoc => userDoc.data())
+      .filter(user => user.staffCode && !user.disabled && !activeStaff.has(user.staffCode))
+      .map(user => ({ staffCode: String(user.staffCode), name: String(user.name || '') }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    logOperation('fetchInactivity', 'success', { days, stores: stores.length, staff: staff.length });
+    return {
+      stores: stores.filter(store => !activeBranches.has(store.branchNumber)),
+      staff
+    };
+  } catch (error) {
+    logOperation('fetchInactivity', 'error', error);
+    throw error;
+  }
+};
@@ -0,0 +1,65 @@
+import { doc, addDoc, updateDoc, deleteDoc, getDocs, serverTimestamp, query, orderBy } from 'firebase/firestore';
+import { getCollection, logOperation } from './firebase';
+import { ColumnMappingProfile } from '../utils/excel/columnMapping';
+
+export const fetchMappingProfiles = async (): Promise<ColumnMappingProfile[]> => {
+  try {
+    const profilesRef = getCollection('COLUMN_MAPPINGS');
+    const snapshot = await getDocs(query(profilesRef, orderBy('name')));
+
+    const profiles = snapshot.docs.map(doc => ({
+      id: doc.id,
+      name: String(doc.data().name || '').trim(),
+      aliases: doc.data().aliases || {}
+    })) as ColumnMappingProfile[];
+
+    logOperation('fetchMappingProfiles', 'success', { count: profiles.length });
+    return profiles;
+  } catch (error) {
+    logOperation('fetchMappingProfiles', 'error', error);
+    return []; // Fall back to the built-in aliases
+  }
+};
+
+export const createMappingProfile = async (data: Omit<ColumnMappingProfile, 'id'>): Promise<string> => {
+  try {
+    const profilesRef = getCollection('COLUMN_MAPPINGS');
+    const docRef = await addDoc(profilesRef, {
+      ...data,
+      createdAt: serverTimestamp()
+    });
+
+    logOperation('createMappingProfile', 'success');
+    return docRef.id;
+  } catch (error) {
+    logOperation('createMappingProfile', 'error', error);
+    throw error;
+  }
+};
+
+export const updateMappingProfile = async (id: string, data: Partial<ColumnMappingProfile>): Promise<void> => {
+  try {
+    const profileRef = doc(getCollection('COLUMN_MAPPINGS'), id);
+    await updateDoc(profileRef, {
+      ...data,
+      updatedAt: serverTimestamp()
+    });
+
+    logOperation('updateMappingProfile', 'success');
+  } catch (error) {
+    logOperation('updateMappingProfile', 'error', error);
+    throw error;
+  }
+};
+
+export const deleteMappingProfile = async (id: string): Promise<void> => {
+  try {
+    const profileRef = doc(getCollection('COLUMN_MAPPINGS'), id);
+    await deleteDoc(profileRef);
+
+    logOperation('deleteMappingProfile', 'success');
+  } catch (error) {
+    logOperation('deleteMappingProfile', 'error', error);
+    throw error;
+  }
+};
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { DocumentReference } from 'firebase/firestore';
+import { BatchOperation, writeInChunks } from './batchWriter';
+
+// Paths written by each committed batch, and paths whose batch fails
+const firestore = vi.hoisted(() => ({
+  commits: [] as string[][],
+  failing: new Set<string>()
+}));
+
+vi.mock('firebase/firestore', () => ({
+  writeBatch: () => {
+    const paths: string[] = [];
+    const add = (ref: { path: string }) => paths.push(ref.path);
+    return {
+      set: add,
+      update: add,
+      delete: add,
+      commit: async () => {
+        if (paths.some(path => firestore.failing.has(path))) {
+          throw new Error('unavailable');
+        }
+        firestore.commits.push(paths);
+      }
+    };
+  }
+}));
+
+vi.mock('./db', () => ({ getDb: () => ({}) }));
+vi.mock('./retry', () => ({ retry: (operation: () => Promise<unknown>) => operation() }));
+
+const deletes = (count: number): BatchOperation[] =>
+  Array.from({ length: count }, (_, index) => ({
+    type: 'delete',
+    ref: { path: `metrics/${index}` } as DocumentReference
+  }));
+
+describe('writeInChunks', () => {
+  beforeEach(() => {
+    firestore.commits = [];
+    firestore.failing.clear();
+  });
+
+  it('commits the operations in chunks of the given size', async () => {
+    const result = await writeInChunks(deletes(5), { operation: 'test', chunkSize: 2, concurrency: 1 });
+
+    expect(result.success).toBe(true);
+    expect(result.checkpoint.committedChunks).toEqual([0, 1, 2]);
+    expect(firestore.commits).toEqual([
+      ['metrics/0', 'metrics/1'],
+      ['metrics/2', 'metrics/3'],
+      ['metrics/4']
+    ]);
+  });
+
+  it('keeps chunks under the Firestore batch limit', async () => {
+    await writeInChunks(deletes(501), { operation: 'test', chunkSize: 1000, concurrency: 1 });
+
+    expect(firestore.commits.map(paths => paths.length)).toEqual([500, 1]);
+  });
+
+  it('resumes from a checkpoint without rewriting committed chunks', async () => {
+    const operations = deletes(5);
+    const options = { operation: 'test', writeId: 'import-1', chunkSize: 2, concurrency: 1 };
+    firestore.failing.add('metrics/2');
+
+    const failed = await writeInChunks(operations, options);
+
+    expect(failed.success).toBe(false);
+    expect(failed.error).toBe('unavailable');
+    expect(failed.checkpoint).toEqual({ writeId: 'import-1', totalChunks: 3, committedChunks: [0] });
+
+    firestore.failing.clear();
+    firestore.commits = [];
+    const resumed = await writeInChunks(operations, { ...options, checkpoint: failed.checkpoint });
+
+    expect(resumed.success).toBe(true);
+    expect(resumed.checkpoint.committedChunks).toEqual([0, 1, 2]);
+    expect(firestore.commits).toEqual([['metrics/2', 'metrics/3'], ['metrics/4']]);
+  });
+
+  it('ignores a checkpoint from another write', async () => {
+    const checkpoint = { writeId: 'import-1', totalChunks: 3, committedChunks: [0, 1] };
+
+    await writeInChunks(deletes(5), {
+      operation: 'test',
+      writeId: 'import-2',
+      chunkSize: 2,
+      concurrency: 1,
+      checkpoint
+    });
+
+    expect(firestore.commits).toHaveLength(3);
+  });
+
+  it('ignores a checkpoint with a different number of chunks', async () => {
+    const checkpoint = { writeId: 'import-1', totalChunks: 2, committedChunks: [0] };
+
+    await writeInChunks(deletes(5), {
+      operation: 'test',
+      writeId: 'import-1',
+      chunkSize: 2,
+      concurrency: 1,
+      checkpoint
+    });
+
+    expect(firestore.commits).toHaveLength(3);
+  });
+});
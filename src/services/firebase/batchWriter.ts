@@ -0,0 +1,156 @@
+import {
+  writeBatch,
+  DocumentReference,
+  DocumentData
+} from 'firebase/firestore';
+import { getDb } from './db';
+import { logOperation } from './logging';
+import { retry } from './retry';
+
+// Firestore rejects batches with more than 500 writes
+export const MAX_BATCH_OPERATIONS = 500;
+
+const DEFAULT_CHUNK_SIZE = 400;
+const DEFAULT_CONCURRENCY = 3;
+
+export type BatchOperation =
+  | { type: 'set'; ref: DocumentReference; data: DocumentData }
+  | { type: 'update'; ref: DocumentReference; data: DocumentData }
+  | { type: 'delete'; ref: DocumentReference };
+
+export interface ChunkedWriteCheckpoint {
+  writeId?: string;
+  totalChunks: number;
+  committedChunks: number[];
+}
+
+export interface ChunkedWriteProgress {
+  committedChunks: number;
+  totalChunks: number;
+  committedOperations: number;
+  totalOperations: number;
+}
+
+export interface ChunkedWriteOptions {
+  operation: string;
+  // Identifies the set of operations, so a checkpoint is only reused for the write it came from
+  writeId?: string;
+  chunkSize?: number;
+  concurrency?: number;
+  checkpoint?: ChunkedWriteCheckpoint;
+  onProgress?: (progress: ChunkedWriteProgress) => void;
+}
+
+export interface ChunkedWriteResult {
+  success: boolean;
+  checkpoint: ChunkedWriteCheckpoint;
+  error?: string;
+}
+
+const chunkOperations = (operations: BatchOperation[], chunkSize: number): BatchOperation[][] => {
+  const chunks: BatchOperation[][] = [];
+  for (let i = 0; i < operations.length; i += chunkSize) {
+    chunks.push(operations.slice(i, i + chunkSize));
+  }
+  return chunks;
+};
+
+const commitChunk = async (chunk: BatchOperation[]): Promise<void> => {
+  // A batch can only be committed once, so build a fresh one per attempt
+  const batch = writeBatch(getDb());
+  chunk.forEach(op => {
+    switch (op.type) {
+      case 'set':
+        batch.set(op.ref, op.data);
+        break;
+      case 'update':
+        batch.update(op.ref, op.data);
+        break;
+      case 'delete':
+        batch.delete(op.ref);
+        break;
+    }
+  });
+  await batch.commit();
+};
+
+/**
+ * Commits operations in batches under the Firestore limit with bounded
+ * concurrency. Pass the returned checkpoint back in with the same operations
+ * and write ID to resume after a failure without rewriting committed chunks.
+ * A checkpoint from a different write ID is ignored.
+ */
+export const writeInChunks = async (
+  operations: BatchOperation[],
+  options: ChunkedWriteOptions
+): Promise<ChunkedWriteResult> => {
+  const chunkSize = Math.min(options.chunkSize || DEFAULT_CHUNK_SIZE, MAX_BATCH_OPERATIONS);
+  const concurrency = Math.max(1, options.concurrency || DEFAULT_CONCURRENCY);
+  const chunks = chunkOperations(operations, chunkSize);
+
+  const checkpointMatches = options.checkpoint?.writeId === options.writeId &&
+    options.checkpoint?.totalChunks === chunks.length;
+  const committed = new Set(checkpointMatches ? options.checkpoint!.committedChunks : []);
+  const pending = chunks
+    .map((_, index) => index)
+    .filter(index => !committed.has(index));
+
+  let committedOperations = [...committed]
+    .reduce((total, index) => total + chunks[index].length, 0);
+  let failure: unknown = null;
+
+  const reportProgress = () => {
+    options.onProgress?.({
+      committedChunks: committed.size,
+      totalChunks: chunks.length,
+      committedOperations,
+      totalOperations: operations.length
+    });
+  };
+
+  logOperation(options.operation, 'start', {
+    operations: operations.length,
+    chunks: chunks.length,
+    resumed: committed.size
+  });
+  reportProgress();
+
+  const worker = async () => {
+    while (pending.length && !failure) {
+      const index = pending.shift()!;
+      try {
+        await retry(() => commitChunk(chunks[index]), {
+          operation: `${options.operation}:chunk-${index}`,
+          waitForNetwork: true
+        });
+        committed.add(index);
+        committedOperations += chunks[index].length;
+        reportProgress();
+      } catch (error) {
+        failure = failure || error;
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, pending.length) }, worker)
+  );
+
+  const checkpoint: ChunkedWriteCheckpoint = {
+    writeId: options.writeId,
+    totalChunks: chunks.length,
+    committedChunks: [...committed].sort((a, b) => a - b)
+  };
+
+  if (failure) {
+    logOperation(options.operation, 'error', { error: failure, checkpoint });
+    return {
+      success: false,
+      checkpoint,
+      error: failure instanceof Error ? failure.message : String(failure)
+    };
+  }
+
+  logOperation(options.operation, 'success', { chunks: chunks.length });
+  return { success: true, checkpoint };
+};
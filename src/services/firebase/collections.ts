@@ -10,7 +10,17 @@ export const COLLECTION_NAMES = {
   STORES: 'stores',
   REGIONS: 'regions',
   METRICS: 'metrics',
+  SUPPLIERS: 'suppliers',
+  TARGETS: 'targets',
+  PRODUCTS: 'products',
+  PRODUCT_CATEGORIES: 'productCategories',
+  SALES_LINES: 'salesLines',
+  ROLLUPS_DAILY: 'rollupsDaily',
+  ROLLUPS_MONTHLY: 'rollupsMonthly',
   IMPORT_HISTORY: 'importHistory',
+  IMPORTS: 'imports',
+  AUDIT_LOG: 'auditLog',
+  COLUMN_MAPPINGS: 'columnMappings',
   AUTH_REQUESTS: 'authRequests'
 } as const;
 
@@ -1 +1,25 @@
-// This file is intentionally empty - emulators are not used in production
\ No newline at end of file
+import { FirebaseApp } from 'firebase/app';
+import { Auth, connectAuthEmulator } from 'firebase/auth';
+import { Firestore, connectFirestoreEmulator } from 'firebase/firestore';
+import { getStorage, connectStorageEmulator } from 'firebase/storage';
+import { getFunctions, connectFunctionsEmulator } from 'firebase/functions';
+import { logOperation } from './logging';
+
+// Ports match the emulators block in firebase.json
+const EMULATOR_HOST = '127.0.0.1';
+
+export const useEmulators = (): boolean => import.meta.env.VITE_USE_EMULATORS === 'true';
+
+/**
+ * Points the app at the local emulators when VITE_USE_EMULATORS is set, so
+ * imports and functions can be exercised without touching production.
+ */
+export const connectToEmulators = (app: FirebaseApp, auth: Auth, db: Firestore): void => {
+  if (!useEmulators()) return;
+
+  connectAuthEmulator(auth, `http://${EMULATOR_HOST}:9099`, { disableWarnings: true });
+  connectFirestoreEmulator(db, EMULATOR_HOST, 8080);
+  connectStorageEmulator(getStorage(app), EMULATOR_HOST, 9199);
+  connectFunctionsEmulator(getFunctions(app), EMULATOR_HOST, 5001);
+  logOperation('connectToEmulators', 'success', { host: EMULATOR_HOST });
+};
@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Query, DocumentData, where as whereConstraint } from 'firebase/firestore';
+import { getDocsWhereIn, IN_QUERY_LIMIT } from './fanout';
+
+// Filters of each query run, and the document paths each value matches
+const firestore = vi.hoisted(() => ({
+  queries: [] as { field: string; op: string; value: unknown }[][],
+  docsByValue: new Map<string, string[]>()
+}));
+
+vi.mock('firebase/firestore', () => ({
+  where: (field: string, op: string, value: unknown) => ({ field, op, value }),
+  query: (_base: unknown, ...constraints: { field: string; op: string; value: unknown }[]) => constraints,
+  getDocs: async (constraints: { field: string; op: string; value: unknown }[]) => {
+    firestore.queries.push(constraints);
+    const filter = constraints[0];
+    const values = filter.op === 'in' ? filter.value as string[] : [filter.value as string];
+    return {
+      docs: values.flatMap(value =>
+        (firestore.docsByValue.get(value) || []).map(path => ({ ref: { path } }))
+      )
+    };
+  }
+}));
+
+const BASE = {} as Query<DocumentData>;
+
+const branchNumbers = (count: number): string[] =>
+  Array.from({ length: count }, (_, index) => String(100 + index));
+
+describe('getDocsWhereIn', () => {
+  beforeEach(() => {
+    firestore.queries = [];
+    firestore.docsByValue.clear();
+  });
+
+  it('runs no query without values', async () => {
+    expect(await getDocsWhereIn(BASE, 'branchNumber', [])).toEqual([]);
+    expect(firestore.queries).toHaveLength(0);
+  });
+
+  it('uses an equality filter for a single value', async () => {
+    await getDocsWhereIn(BASE, 'branchNumber', ['101', '101']);
+
+    expect(firestore.queries).toEqual([[{ field: 'branchNumber', op: '==', value: '101' }]]);
+  });
+
+  it('splits values over the in limit into one query per chunk', async () => {
+    const values = branchNumbers(IN_QUERY_LIMIT * 2 + 1);
+
+    await getDocsWhereIn(BASE, 'branchNumber', values);
+
+    expect(firestore.queries.map(([filter]) => filter.op)).toEqual(['in', 'in', '==']);
+    expect(firestore.queries.flatMap(([filter]) =>
+      filter.op === 'in' ? filter.value as string[] : [filter.value as string]
+    )).toEqual(values);
+  });
+
+  it('adds the extra constraints to every chunk', async () => {
+    const range = whereConstraint('date', '>=', 'start');
+
+    await getDocsWhereIn(BASE, 'branchNumber', branchNumbers(IN_QUERY_LIMIT + 1), [range]);
+
+    expect(firestore.queries.map(constraints => constraints.slice(1))).toEqual([[range], [range]]);
+  });
+
+  it('merges the results without duplicates', async () => {
+    firestore.docsByValue.set('101', ['metrics/a', 'metrics/b']);
+    firestore.docsByValue.set('102', ['metrics/b', 'metrics/c']);
+
+    const docs = await getDocsWhereIn(BASE, 'branchNumber', ['101', '102']);
+
+    expect(docs.map(doc => doc.ref.path).sort()).toEqual(['metrics/a', 'metrics/b', 'metrics/c']);
+  });
+});
@@ -0,0 +1,53 @@
+import {
+  query,
+  where,
+  getDocs,
+  Query,
+  QueryConstraint,
+  QueryDocumentSnapshot,
+  DocumentData
+} from 'firebase/firestore';
+
+// Firestore rejects 'in' filters with more values than this
+export const IN_QUERY_LIMIT = 30;
+
+export const chunkValues = <T>(values: T[], size = IN_QUERY_LIMIT): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < values.length; i += size) {
+    chunks.push(values.slice(i, i + size));
+  }
+  return chunks;
+};
+
+/**
+ * Runs a query filtered to any of the given values of a field, split into one
+ * query per chunk of values so the 'in' limit never applies. The chunks run in
+ * parallel and their results are merged with duplicates removed. The order of
+ * the documents across chunks is not preserved. Errors are thrown, not
+ * swallowed, so a failed chunk never reads as an empty result.
+ */
+export const getDocsWhereIn = async (
+  baseQuery: Query<DocumentData>,
+  field: string,
+  values: string[],
+  constraints: QueryConstraint[] = []
+): Promise<QueryDocumentSnapshot<DocumentData>[]> => {
+  const unique = [...new Set(values)];
+  if (!unique.length) return [];
+
+  const snapshots = await Promise.all(
+    chunkValues(unique).map(chunk =>
+      getDocs(query(
+        baseQuery,
+        chunk.length === 1 ? where(field, '==', chunk[0]) : where(field, 'in', chunk),
+        ...constraints
+      ))
+    )
+  );
+
+  const docs = new Map<string, QueryDocumentSnapshot<DocumentData>>();
+  snapshots.forEach(snapshot => {
+    snapshot.docs.forEach(doc => docs.set(doc.ref.path, doc));
+  });
+  return [...docs.values()];
+};
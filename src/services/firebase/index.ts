@@ -4,4 +4,5 @@ export { logOperation } from './logging';
 export { retry, type RetryOptions } from './retry';
 export { getCollection, COLLECTION_NAMES } from './collections';
 export type { CollectionName } from './collections';
-export type { FirebaseErrorDetails } from './types';
\ No newline at end of file
+export type { FirebaseErrorDetails } from './types';
+export { getDocsWhereIn, chunkValues, IN_QUERY_LIMIT } from './fanout';
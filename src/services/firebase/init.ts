@@ -7,6 +7,7 @@ import { clearCollectionCache } from './collections';
 import { initNetworkMonitoring } from './network';
 import { getFirebaseConfig } from '../../config/firebase-config';
 import { setDb, setAuth } from './db';
+import { connectToEmulators } from './emulators';
 
 const INIT_TIMEOUT = 15000; // 15 second timeout
 const MAX_RETRIES = 3;
@@ -64,6 +65,7 @@ const initializeCore = async () => {
     app = initializeApp(config);
     const auth = getAuth(app);
     const db = getFirestore(app);
+    connectToEmulators(app, auth, db);
 
     setAuth(auth);
     setDb(db);
@@ -1,7 +1,8 @@
 // Production-safe logging utility
 export const logOperation = (operation: string, status: 'start' | 'success' | 'error' | 'warning', data?: any) => {
-  // Only log errors in production
-  if (import.meta.env.PROD && status !== 'error') {
+  // Only log errors in production. Node scripts such as the migrations have no
+  // import.meta.env, so they log errors alone too
+  if (import.meta.env?.PROD && status !== 'error') {
     return;
   }
 
@@ -11,7 +12,7 @@ export const logOperation = (operation: string, status: 'start' | 'success' | 'e
   if (status === 'error') {
     console.error(message, data || '');
     // Could add production error reporting service here
-  } else if (import.meta.env.DEV) {
+  } else if (import.meta.env?.DEV) {
     if (status === 'warning') {
       console.warn(message, data || '');
     } else {
@@ -1,25 +1,51 @@
-import { 
-  collection, 
-  addDoc, 
-  query, 
-  orderBy, 
-  limit, 
+import {
+  collection,
+  addDoc,
+  doc,
+  setDoc,
+  getDoc,
+  query,
+  where,
+  orderBy,
+  limit,
   getDocs,
   serverTimestamp
 } from 'firebase/firestore';
 import { getCollection } from './firebase/collections';
-import { ImportHistoryEntry } from '../types/import';
+import { getAuth } from './firebase/db';
+import { ImportHistoryEntry, ImportChangeRecord } from '../types/import';
 import { logOperation } from './firebase/logging';
+import { writeInChunks, BatchOperation } from './firebase/batchWriter';
 
 const MAX_HISTORY_ENTRIES = 7;
 
-export const addImportHistory = async (data: Omit<ImportHistoryEntry, 'id' | 'timestamp'>) => {
+export interface UndoImportResult {
+  success: boolean;
+  restored: number;
+  deleted: number;
+  error?: string;
+}
+
+/**
+ * Records an import. Pass the plan's import ID so the entry can be linked to
+ * the metrics it wrote; imports that fail before planning get a random ID.
+ */
+export const addImportHistory = async (
+  data: Omit<ImportHistoryEntry, 'id' | 'timestamp'>,
+  importId?: string
+) => {
   try {
     const historyRef = getCollection('IMPORT_HISTORY');
-    await addDoc(historyRef, {
+    const entry = {
       ...data,
       timestamp: serverTimestamp()
-    });
+    };
+
+    if (importId) {
+      await setDoc(doc(historyRef, importId), entry);
+    } else {
+      await addDoc(historyRef, entry);
+    }
     logOperation('addImportHistory', 'success');
   } catch (error) {
     logOperation('addImportHistory', 'error', error);
@@ -40,7 +66,8 @@ export const getRecentImports = async (): Promise<ImportHistoryEntry[]> => {
     const imports = snapshot.docs.map(doc => ({
       id: doc.id,
       ...doc.data(),
-      timestamp: doc.data().timestamp?.toDate() || new Date()
+      timestamp: doc.data().timestamp?.toDate() || new Date(),
+      undoneAt: doc.data().undoneAt?.toDate()
     })) as ImportHistoryEntry[];
 
     logOperation('getRecentImports', 'success', { count: imports.length });
@@ -49,4 +76,97 @@ export const getRecentImports = async (): Promise<ImportHistoryEntry[]> => {
     logOperation('getRecentImports', 'error', error);
     return []; // Return empty array on error
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Reverts every metrics and sales line document written by an import: inserted
+ * documents are deleted and updated or removed ones are restored from their
+ * change records. Refuses when a later import has since overwritten any of the
+ * same keys.
+ */
+export const undoImport = async (importId: string): Promise<UndoImportResult> => {
+  try {
+    const historyRef = getCollection('IMPORT_HISTORY');
+    const metricsRef = getCollection('METRICS');
+    const linesRef = getCollection('SALES_LINES');
+    const entryRef = doc(historyRef, importId);
+
+    const entry = await getDoc(entryRef);
+    if (!entry.exists()) {
+      return { success: false, restored: 0, deleted: 0, error: 'Import not found' };
+    }
+    if (entry.data().undoneAt) {
+      return { success: false, restored: 0, deleted: 0, error: 'Import has already been undone' };
+    }
+
+    const [changesSnapshot, ownedSnapshot, ownedLinesSnapshot] = await Promise.all([
+      getDocs(collection(entryRef, 'changes')),
+      getDocs(query(metricsRef, where('importId', '==', importId))),
+      getDocs(query(linesRef, where('importId', '==', importId)))
+    ]);
+    const changes = changesSnapshot.docs.map(change => change.data() as ImportChangeRecord);
+    const owned = new Set([
+      ...ownedSnapshot.docs.map(metric => metric.id),
+      ...ownedLinesSnapshot.docs.map(line => `salesLines/${line.id}`)
+    ]);
+    const ownedKey = (change: ImportChangeRecord) =>
+      change.collection ? `${change.collection}/${change.metricId}` : change.metricId;
+
+    const changeRef = (change: ImportChangeRecord) =>
+      doc(change.collection === 'salesLines' ? linesRef : metricsRef, change.metricId);
+
+    // A written document no longer stamped with this import was taken over by a
+    // later one; a missing one was never written, e.g. after a failed commit
+    const unowned = changes.filter(change =>
+      change.action !== 'delete' && !owned.has(ownedKey(change))
+    );
+    const unownedDocs = await Promise.all(unowned.map(change => getDoc(changeRef(change))));
+    const neverWritten = new Set(
+      unowned.filter((_, index) => !unownedDocs[index].exists()).map(ownedKey)
+    );
+    const overwritten = unowned.filter(change => !neverWritten.has(ownedKey(change)));
+    if (overwritten.length > 0) {
+      logOperation('undoImport', 'warning', { importId, overwritten: overwritten.length });
+      return {
+        success: false,
+        restored: 0,
+        deleted: 0,
+        error: `${overwritten.length} metrics from this import have been changed by a later import`
+      };
+    }
+
+    const undone = changes.filter(change => !neverWritten.has(ownedKey(change)));
+    const operations: BatchOperation[] = undone.map(change => {
+      const ref = changeRef(change);
+      return change.action === 'insert'
+        ? { type: 'delete', ref }
+        : { type: 'set', ref, data: change.before || {} };
+    });
+    const deleted = undone.filter(change => change.action === 'insert').length;
+
+    const result = await writeInChunks(operations, { operation: 'undoImport' });
+    if (!result.success) {
+      return { success: false, restored: 0, deleted: 0, error: result.error };
+    }
+
+    const undoneBy = getAuth().currentUser?.uid || null;
+    await Promise.all([
+      setDoc(entryRef, { undoneAt: serverTimestamp(), undoneBy }, { merge: true }),
+      addDoc(getCollection('AUDIT_LOG'), {
+        action: 'undoImport',
+        importId,
+        fileName: entry.data().fileName,
+        deleted,
+        restored: undone.length - deleted,
+        userId: undoneBy,
+        timestamp: serverTimestamp()
+      })
+    ]);
+
+    logOperation('undoImport', 'success', { importId, deleted, restored: undone.length - deleted });
+    return { success: true, restored: undone.length - deleted, deleted };
+  } catch (error) {
+    logOperation('undoImport', 'error', error);
+    throw error;
+  }
+};
@@ -0,0 +1,77 @@
+import {
+  doc,
+  setDoc,
+  onSnapshot,
+  serverTimestamp,
+  Unsubscribe
+} from 'firebase/firestore';
+import { getStorage, ref, uploadBytes } from 'firebase/storage';
+import { getCollection } from './firebase/collections';
+import { getAuth } from './firebase/db';
+import { getFirebaseApp } from './firebase/init';
+import { logOperation } from './firebase/logging';
+import { ServerImport } from '../types/import';
+
+export interface ServerImportOptions {
+  // Sheets to import; all sheets when empty
+  sheetNames?: string[];
+  // Header names confirmed in the column mapping step, by field
+  aliases?: Record<string, string[]>;
+  allowPartial?: boolean;
+}
+
+/**
+ * Hands a file to the import function, which maps, validates and parses it
+ * with the same rules as the browser import before writing it. The request is
+ * recorded in imports/{id} first, then the upload to imports/{id}/{fileName}
+ * triggers processing. Returns the import ID to follow with subscribeToImport.
+ */
+export const startServerImport = async (
+  file: File,
+  options: ServerImportOptions = {}
+): Promise<string> => {
+  try {
+    const importRef = doc(getCollection('IMPORTS'));
+    await setDoc(importRef, {
+      fileName: file.name,
+      status: 'uploaded',
+      sheetNames: options.sheetNames || [],
+      aliases: options.aliases || {},
+      allowPartial: !!options.allowPartial,
+      createdBy: getAuth().currentUser?.uid || null,
+      createdAt: serverTimestamp()
+    });
+
+    const storage = getStorage(await getFirebaseApp());
+    await uploadBytes(ref(storage, `imports/${importRef.id}/${file.name}`), file);
+
+    logOperation('startServerImport', 'success', { importId: importRef.id, fileName: file.name });
+    return importRef.id;
+  } catch (error) {
+    logOperation('startServerImport', 'error', error);
+    throw error;
+  }
+};
+
+export const subscribeToImport = (
+  importId: string,
+  onChange: (serverImport: ServerImport) => void,
+  onError?: (error: Error) => void
+): Unsubscribe =>
+  onSnapshot(
+    doc(getCollection('IMPORTS'), importId),
+    snapshot => {
+      const data = snapshot.data();
+      if (!data) return;
+      onChange({
+        id: snapshot.id,
+        ...data,
+        createdAt: data.createdAt?.toDate(),
+        completedAt: data.completedAt?.toDate()
+      } as ServerImport);
+    },
+    error => {
+      logOperation('subscribeToImport', 'error', error);
+      onError?.(error);
+    }
+  );
@@ -0,0 +1,97 @@
+import { getDocs } from 'firebase/firestore';
+import { getCollection, logOperation } from './firebase';
+import { Store } from '../types';
+import { fetchStores } from './stores';
+import { fetchRollups } from './rollups';
+import { UnitPriceRanges } from '../utils/validation/anomalies';
+
+// Reference data imported rows are checked against
+export interface ImportMasterData {
+  stores: Store[];
+  staffCodes: string[];
+  unitPriceRanges: UnitPriceRanges;
+}
+
+// How far back unit prices are sampled, and how many store days are needed to trust a range
+const PRICE_HISTORY_DAYS = 90;
+const MIN_PRICE_SAMPLES = 20;
+// Ranges move slowly, so repeated validation runs reuse them for a while
+const PRICE_RANGES_TTL = 1000 * 60 * 60;
+
+let cachedPriceRanges: { ranges: UnitPriceRanges; loadedAt: number } | null = null;
+
+const percentile = (sorted: number[], fraction: number): number =>
+  sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * fraction))];
+
+/**
+ * Works out the usual unit price range of each supplier from the daily store
+ * rollups, ignoring the cheapest and dearest 5% of store days.
+ */
+export const fetchUnitPriceRanges = async (): Promise<UnitPriceRanges> => {
+  if (cachedPriceRanges && Date.now() - cachedPriceRanges.loadedAt < PRICE_RANGES_TTL) {
+    return cachedPriceRanges.ranges;
+  }
+
+  try {
+    const since = new Date();
+    since.setDate(since.getDate() - PRICE_HISTORY_DAYS);
+    const rollups = await fetchRollups('day', { scope: 'store' }, since, new Date());
+
+    const prices = new Map<number, number[]>();
+    rollups.forEach(rollup => {
+      if (rollup.type !== 'return' && rollup.quantity > 0 && rollup.salesAmount > 0) {
+        const supplierPrices = prices.get(rollup.supplierId) || [];
+        supplierPrices.push(rollup.salesAmount / rollup.quantity);
+        prices.set(rollup.supplierId, supplierPrices);
+      }
+    });
+
+    const ranges: UnitPriceRanges = {};
+    prices.forEach((supplierPrices, supplierId) => {
+      if (supplierPrices.length < MIN_PRICE_SAMPLES) return;
+      const sorted = supplierPrices.sort((a, b) => a - b);
+      ranges[supplierId] = { min: percentile(sorted, 0.05), max: percentile(sorted, 0.95) };
+    });
+
+    cachedPriceRanges = { ranges, loadedAt: Date.now() };
+    logOperation('fetchUnitPriceRanges', 'success', { suppliers: Object.keys(ranges).length });
+    return ranges;
+  } catch (error) {
+    logOperation('fetchUnitPriceRanges', 'error', error);
+    throw error;
+  }
+};
+
+/**
+ * Loads every store, every staff code and the usual unit prices known to the
+ * app. Staff codes come from both users and salespeople, since not every team
+ * member has a login.
+ */
+export const fetchImportMasterData = async (): Promise<ImportMasterData> => {
+  try {
+    const [stores, usersSnapshot, salespeopleSnapshot, unitPriceRanges] = await Promise.all([
+      fetchStores(),
+      getDocs(getCollection('USERS')),
+      getDocs(getCollection('SALESPEOPLE')),
+      // Unit prices only feed a warning, so validation goes ahead without them
+      fetchUnitPriceRanges().catch((): UnitPriceRanges => ({}))
+    ]);
+
+    const staffCodes = new Set<string>();
+    [...usersSnapshot.docs, ...salespeopleSnapshot.docs].forEach(doc => {
+      const staffCode = String(doc.data().staffCode || '').trim();
+      if (staffCode) {
+        staffCodes.add(staffCode);
+      }
+    });
+
+    logOperation('fetchImportMasterData', 'success', {
+      stores: stores.length,
+      staffCodes: staffCodes.size
+    });
+    return { stores, staffCodes: [...staffCodes], unitPriceRanges };
+  } catch (error) {
+    logOperation('fetchImportMasterData', 'error', error);
+    throw error;
+  }
+};
@@ -7,40 +7,80 @@ import {
   orderBy,
   limit,
   Query,
+  QueryConstraint,
+  QueryDocumentSnapshot,
   DocumentData 
 } from 'firebase/firestore';
-import { getCollection, logOperation } from './firebase';
+import { getCollection, getDocsWhereIn, logOperation } from './firebase';
 import { handleFirebaseError } from './firebase/error-handler';
 import { SalesMetrics } from '../types';
 
+const toSalesMetrics = (doc: QueryDocumentSnapshot<DocumentData>): SalesMetrics => {
+  const data = doc.data();
+  // Handle both Timestamp and string dates
+  const date = data.date instanceof Timestamp 
+    ? data.date.toDate().toISOString()
+    : new Date(data.date).toISOString();
+  
+  return {
+    id: doc.id,
+    ...data,
+    date
+  } as SalesMetrics;
+};
+
 const executeQuery = async (q: Query<DocumentData>): Promise<SalesMetrics[]> => {
   try {
     const querySnapshot = await getDocs(q);
-    return querySnapshot.docs.map(doc => {
-      const data = doc.data();
-      // Handle both Timestamp and string dates
-      const date = data.date instanceof Timestamp 
-        ? data.date.toDate().toISOString()
-        : new Date(data.date).toISOString();
-      
-      return {
-        id: doc.id,
-        ...data,
-        date
-      };
-    }) as SalesMetrics[];
+    return querySnapshot.docs.map(toSalesMetrics);
   } catch (error) {
     handleFirebaseError(error, 'executeQuery');
     throw error;
   }
 };
 
-export const fetchMetricsByRegion = async (regionId: string): Promise<SalesMetrics[]> => {
+// Fans a branch filter of any length out over several queries, newest first like a single query
+const executeBranchQuery = async (
+  q: Query<DocumentData>,
+  branchNumbers: string[],
+  constraints: QueryConstraint[]
+): Promise<SalesMetrics[]> => {
+  try {
+    const docs = await getDocsWhereIn(q, 'branchNumber', branchNumbers, constraints);
+    return docs
+      .map(toSalesMetrics)
+      .sort((a, b) => b.date.localeCompare(a.date));
+  } catch (error) {
+    handleFirebaseError(error);
+    throw error;
+  }
+};
+
+// Limits a query to metrics dated from the start of startDate to the end of endDate
+const inDateRange = (startDate: Date, endDate: Date): QueryConstraint[] => {
+  const end = new Date(endDate);
+  end.setHours(23, 59, 59, 999);
+
+  return [
+    where('date', '>=', Timestamp.fromDate(startDate)),
+    where('date', '<=', Timestamp.fromDate(end)),
+    orderBy('date', 'desc')
+  ];
+};
+
+export const fetchMetricsByRegion = async (
+  regionId: string,
+  startDate: Date,
+  endDate: Date
+): Promise<SalesMetrics[]> => {
   try {
     const metricsRef = getCollection('METRICS');
-    const constraints = [orderBy('date', 'desc')];
+    const constraints = inDateRange(startDate, endDate);
+    let metrics: SalesMetrics[];
     
-    if (regionId !== 'all') {
+    if (regionId === 'all') {
+      metrics = await executeQuery(query(metricsRef, ...constraints));
+    } else {
       // Get all stores for this region first
       const storesRef = getCollection('STORES');
       const storesQuery = query(storesRef, where('regionId', '==', regionId));
@@ -49,44 +89,31 @@ export const fetchMetricsByRegion = async (regionId: string): Promise<SalesMetri
       // Get branch numbers for all stores in region
       const branchNumbers = storesSnapshot.docs.map(doc => doc.data().branchNumber);
       
-      if (branchNumbers.length > 0) {
-        constraints.push(where('branchNumber', 'in', branchNumbers));
-      }
+      // Large regions are split across several queries; a region without stores has no metrics
+      metrics = await executeBranchQuery(metricsRef, branchNumbers, constraints);
     }
     
-    const metricsQuery = query(metricsRef, ...constraints);
-      
-    const metrics = await executeQuery(metricsQuery);
-    
     logOperation('fetchMetricsByRegion', 'success', { count: metrics.length });
     return metrics;
   } catch (error) {
     logOperation('fetchMetricsByRegion', 'error', error);
-    return []; // Return empty array on error for more graceful handling
+    throw error;
   }
 };
 
-export const fetchMetricsByStore = async (branchNumbers: string[]): Promise<SalesMetrics[]> => {
+export const fetchMetricsByStore = async (
+  branchNumbers: string[],
+  startDate: Date,
+  endDate: Date
+): Promise<SalesMetrics[]> => {
   try {
     const metricsRef = getCollection('METRICS');
-    let metricsQuery;
 
-    if (!branchNumbers.length) {
-      // If no branch numbers specified, get all metrics
-      metricsQuery = query(
-        metricsRef,
-        orderBy('date', 'desc')
-      );
-    } else {
-      // Query metrics for specific branch numbers
-      metricsQuery = query(
-        metricsRef,
-        where('branchNumber', 'in', branchNumbers),
-        orderBy('date', 'desc')
-      );
-    }
+    // If no branch numbers specified, get all metrics
+    const metrics = branchNumbers.length
+      ? await executeBranchQuery(metricsRef, branchNumbers, inDateRange(startDate, endDate))
+      : await executeQuery(query(metricsRef, ...inDateRange(startDate, endDate)));
 
-    const metrics = await executeQuery(metricsQuery);
     logOperation('fetchMetricsByStore', 'success', { count: metrics.length });
     return metrics;
   } catch (error) {
@@ -95,41 +122,26 @@ export const fetchMetricsByStore = async (branchNumbers: string[]): Promise<Sale
   }
 };
 
-export const fetchMetricsByStaff = async (staffCode: string, branchNumbers: string[]): Promise<SalesMetrics[]> => {
+export const fetchMetricsByStaff = async (
+  staffCode: string,
+  branchNumbers: string[],
+  startDate: Date,
+  endDate: Date
+): Promise<SalesMetrics[]> => {
   try {
     if (!staffCode || !branchNumbers.length) {
       logOperation('fetchMetricsByStaff', 'skip', 'Missing required parameters');
       return [];
     }
 
-    const metricsRef = getCollection('METRICS');
-    let metricsQuery;
-
-    if (branchNumbers.length === 1) {
-      metricsQuery = query(
-        metricsRef,
-        where('staffCode', '==', staffCode),
-        where('branchNumber', '==', branchNumbers[0]),
-        orderBy('date', 'desc')
-      );
-    } else {
-      // For multiple branches, we need to fetch all staff metrics and filter by branch
-      metricsQuery = query(
-        metricsRef,
-        where('staffCode', '==', staffCode),
-        orderBy('date', 'desc')
-      );
-    }
-
-    const metrics = await executeQuery(metricsQuery);
-    
-    // Filter by branch numbers if multiple branches
-    const filteredMetrics = branchNumbers.length > 1 
-      ? metrics.filter(m => branchNumbers.includes(m.branchNumber))
-      : metrics;
+    const metrics = await executeBranchQuery(
+      query(getCollection('METRICS'), where('staffCode', '==', staffCode)),
+      branchNumbers,
+      inDateRange(startDate, endDate)
+    );
 
-    logOperation('fetchMetricsByStaff', 'success', { count: filteredMetrics.length });
-    return filteredMetrics;
+    logOperation('fetchMetricsByStaff', 'success', { count: metrics.length });
+    return metrics;
   } catch (error) {
     logOperation('fetchMetricsByStaff', 'error', error);
     throw error;
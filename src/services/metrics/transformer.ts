@@ -41,7 +41,8 @@ export const transformMetricsDoc = (doc: QueryDocumentSnapshot<DocumentData>): S
       date: dateStr,
       branchNumber: String(data.branchNumber || ''),
       staffCode: String(data.staffCode || ''),
-      regionId: String(data.regionId || '')
+      regionId: String(data.regionId || ''),
+      type: data.type === 'return' ? 'return' : 'sale'
     };
 
     return metrics;
@@ -0,0 +1,79 @@
+import { doc, getDocs } from 'firebase/firestore';
+import { getCollection, logOperation } from './firebase';
+import { writeInChunks } from './firebase/batchWriter';
+import { Product, ProductCategory } from '../types';
+import { DEFAULT_PRODUCT_CATEGORIES } from '../data/products';
+
+export interface ProductCatalogue {
+  products: Product[];
+  categories: ProductCategory[];
+}
+
+// SKUs may contain slashes, which are not allowed in document IDs
+export const getProductId = (sku: string): string => encodeURIComponent(sku.trim());
+
+/**
+ * Loads products and categories for line-level imports and drill-downs. The
+ * built-in categories are used while the productCategories collection is empty.
+ */
+export const fetchProductCatalogue = async (): Promise<ProductCatalogue> => {
+  try {
+    const [productsSnapshot, categoriesSnapshot] = await Promise.all([
+      getDocs(getCollection('PRODUCTS')),
+      getDocs(getCollection('PRODUCT_CATEGORIES'))
+    ]);
+
+    const products = productsSnapshot.docs.map(productDoc => {
+      const data = productDoc.data();
+      return {
+        sku: String(data.sku || decodeURIComponent(productDoc.id)),
+        name: String(data.name || ''),
+        supplierId: Number(data.supplierId),
+        categoryId: String(data.categoryId || '')
+      };
+    });
+    const categories = categoriesSnapshot.docs.map(categoryDoc => ({
+      id: categoryDoc.id,
+      name: String(categoryDoc.data().name || categoryDoc.id)
+    }));
+
+    logOperation('fetchProductCatalogue', 'success', {
+      products: products.length,
+      categories: categories.length
+    });
+    return {
+      products,
+      categories: categories.length ? categories : DEFAULT_PRODUCT_CATEGORIES
+    };
+  } catch (error) {
+    logOperation('fetchProductCatalogue', 'error', error);
+    throw error;
+  }
+};
+
+/**
+ * Adds SKUs first seen on a line-level export to the catalogue. Existing
+ * products keep their supplier and category.
+ */
+export const saveProducts = async (products: Product[]): Promise<void> => {
+  if (!products.length) return;
+
+  try {
+    const result = await writeInChunks(
+      products.map(product => ({
+        type: 'set',
+        ref: doc(getCollection('PRODUCTS'), getProductId(product.sku)),
+        data: { ...product }
+      })),
+      { operation: 'saveProducts' }
+    );
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+
+    logOperation('saveProducts', 'success', { count: products.length });
+  } catch (error) {
+    logOperation('saveProducts', 'error', error);
+    throw error;
+  }
+};
@@ -0,0 +1,101 @@
+import { query, where, getDocs, QueryDocumentSnapshot, DocumentData } from 'firebase/firestore';
+import { getCollection, getDocsWhereIn, logOperation } from './firebase';
+import { fetchRegionTotals, fetchStoreStaffTotals } from './rollups';
+import { SalesMetrics, Store, Rankings, RankingBoard } from '../types';
+import { toRankingParticipant } from '../utils/rankingUtils';
+
+const groupBy = (metrics: SalesMetrics[], getKey: (metric: SalesMetrics) => string): Map<string, SalesMetrics[]> => {
+  const groups = new Map<string, SalesMetrics[]>();
+  metrics.forEach(metric => {
+    const key = getKey(metric);
+    if (key) groups.set(key, [...(groups.get(key) || []), metric]);
+  });
+  return groups;
+};
+
+// Salespeople at a store by staff code, named from their profiles where they have one.
+// Staff without a login, including placeholders made during import, are only in salespeople.
+const fetchStaffNames = async (staffCodes: string[]): Promise<Map<string, string>> => {
+  const names = new Map<string, string>();
+  const addNames = (docs: QueryDocumentSnapshot<DocumentData>[]) => docs.forEach(staffDoc => {
+    const { staffCode, name } = staffDoc.data();
+    if (name && !names.has(String(staffCode))) names.set(String(staffCode), String(name));
+  });
+
+  addNames(await getDocsWhereIn(query(getCollection('USERS')), 'staffCode', staffCodes));
+  const unnamed = staffCodes.filter(code => !names.has(code));
+  if (unnamed.length) {
+    addNames(await getDocsWhereIn(query(getCollection('SALESPEOPLE')), 'staffCode', unnamed));
+  }
+  return names;
+};
+
+const fetchStaffBoard = async (
+  staffCode: string,
+  store: Store,
+  startDate: Date,
+  endDate: Date
+): Promise<RankingBoard> => {
+  const byStaff = groupBy(
+    await fetchStoreStaffTotals(store.branchNumber, startDate, endDate),
+    metric => metric.staffCode
+  );
+  // The viewer is always on their own board, even before their first sale
+  if (!byStaff.has(staffCode)) byStaff.set(staffCode, []);
+
+  const names = await fetchStaffNames([...byStaff.keys()]);
+  return {
+    currentId: staffCode,
+    participants: [...byStaff].map(([code, metrics]) =>
+      toRankingParticipant(code, names.get(code) || `Staff ${code}`, metrics))
+  };
+};
+
+const fetchStoreBoard = async (store: Store, startDate: Date, endDate: Date): Promise<RankingBoard> => {
+  const [metrics, storesSnapshot] = await Promise.all([
+    fetchRegionTotals(store.regionId, startDate, endDate),
+    getDocs(query(getCollection('STORES'), where('regionId', '==', store.regionId)))
+  ]);
+  const byBranch = groupBy(metrics, metric => metric.branchNumber);
+
+  // Stores with no sales in the period are still on the board
+  return {
+    currentId: store.id,
+    participants: storesSnapshot.docs.map(storeDoc => {
+      const data = storeDoc.data();
+      return toRankingParticipant(
+        storeDoc.id,
+        data.name || `Branch ${data.branchNumber}`,
+        byBranch.get(String(data.branchNumber)) || []
+      );
+    })
+  };
+};
+
+/**
+ * Loads what's needed to rank a salesperson within their store and the store
+ * within its region for a period. Ranking itself is left to rankParticipants
+ * so the KPI can be switched without reloading.
+ */
+export const fetchRankings = async (
+  staffCode: string,
+  store: Store,
+  startDate: Date,
+  endDate: Date
+): Promise<Rankings> => {
+  try {
+    const [storeBoard, regionBoard] = await Promise.all([
+      fetchStaffBoard(staffCode, store, startDate, endDate),
+      store.regionId ? fetchStoreBoard(store, startDate, endDate) : Promise.resolve(null)
+    ]);
+
+    logOperation('fetchRankings', 'success', {
+      staff: storeBoard.participants.length,
+      stores: regionBoard?.participants.length || 0
+    });
+    return { store: storeBoard, region: regionBoard };
+  } catch (error) {
+    logOperation('fetchRankings', 'error', error);
+    throw error;
+  }
+};
@@ -0,0 +1,57 @@
+import { describe, it, expect, vi } from 'vitest';
+import { getRollupSpans } from './rollups';
+import { getComparisonDates, getSelectionDates } from '../utils/dateUtils';
+
+// Today, as the date range selections see it
+const today = vi.hoisted(() => new Date(2024, 9, 18));
+
+vi.mock('../utils/dateUtils/constants', async importOriginal => ({
+  ...await importOriginal<typeof import('../utils/dateUtils/constants')>(),
+  CURRENT_DATE: today
+}));
+
+// Only the span arithmetic is under test; Firebase setup expects a browser
+vi.mock('./firebase', () => ({ getCollection: vi.fn(), getDocsWhereIn: vi.fn(), logOperation: vi.fn() }));
+vi.mock('./metrics', () => ({ fetchMetricsByStaff: vi.fn(), fetchMetricsByStore: vi.fn() }));
+
+const day = (start: Date, end: Date) => ({ period: 'day', start, end });
+const month = (start: Date, end: Date) => ({ period: 'month', start, end });
+
+describe('getRollupSpans', () => {
+  it('reads short ranges by day', () => {
+    const start = new Date(2024, 6, 1);
+    const end = new Date(2024, 8, 30);
+
+    expect(getRollupSpans(start, end)).toEqual([day(start, end)]);
+  });
+
+  it('reads a range of whole months from monthly rollups', () => {
+    const start = new Date(2024, 0, 1);
+    const end = new Date(2024, 5, 30);
+
+    expect(getRollupSpans(start, end)).toEqual([month(start, end)]);
+  });
+
+  it('reads part months at either end by day', () => {
+    expect(getRollupSpans(new Date(2024, 2, 15), new Date(2024, 8, 10))).toEqual([
+      day(new Date(2024, 2, 15), new Date(2024, 2, 31)),
+      month(new Date(2024, 3, 1), new Date(2024, 7, 31)),
+      day(new Date(2024, 8, 1), new Date(2024, 8, 10))
+    ]);
+  });
+
+  it('compares a year to date mid-month with the same days last year, day by day in both Octobers', () => {
+    const year = { year: 2024 };
+    const current = getSelectionDates('yearly', undefined, year);
+    const comparison = getComparisonDates('yearly', undefined, year, 'sameDays');
+
+    expect(getRollupSpans(current!.startDate, current!.endDate)).toEqual([
+      month(new Date(2024, 0, 1), new Date(2024, 8, 30)),
+      day(new Date(2024, 9, 1), new Date(2024, 9, 18))
+    ]);
+    expect(getRollupSpans(comparison!.startDate, comparison!.endDate)).toEqual([
+      month(new Date(2023, 0, 1), new Date(2023, 8, 30)),
+      day(new Date(2023, 9, 1), new Date(2023, 9, 18))
+    ]);
+  });
+});
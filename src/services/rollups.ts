@@ -0,0 +1,166 @@
+import { query, where, getDocs, Timestamp, QueryConstraint } from 'firebase/firestore';
+import { getCollection, getDocsWhereIn, logOperation } from './firebase';
+import { fetchMetricsByStaff, fetchMetricsByStore } from './metrics';
+import { SalesMetrics } from '../types';
+
+// The rollups are maintained by the onMetricWritten function; see functions/src/rollups
+export type RollupPeriod = 'day' | 'month';
+export type RollupScope = 'staff' | 'store' | 'region' | 'all';
+
+export interface RollupFilter {
+  scope: RollupScope;
+  branchNumbers?: string[];
+  staffCode?: string;
+  regionId?: string;
+}
+
+// Part of a range read from one kind of rollup
+export interface RollupSpan {
+  period: RollupPeriod;
+  start: Date;
+  end: Date;
+}
+
+// Ranges longer than this read monthly rollups for the whole months they cover
+const MONTHLY_AFTER_DAYS = 93;
+
+const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const endOfDay = (date: Date): Date => {
+  const end = new Date(date);
+  end.setHours(23, 59, 59, 999);
+  return end;
+};
+
+/**
+ * Splits a range into the rollups that cover it exactly. A monthly rollup holds
+ * its whole month, so long ranges read monthly rollups only for the months they
+ * cover from the 1st to the last day, and daily rollups for a part month at
+ * either end. A year to date therefore reads this month by day, and so does a
+ * same-days comparison that stops partway through a month.
+ */
+export const getRollupSpans = (start: Date, end: Date): RollupSpan[] => {
+  const days = (end.getTime() - start.getTime()) / 86400000;
+  const firstMonth = start.getDate() === 1 ? start : new Date(start.getFullYear(), start.getMonth() + 1, 1);
+  const lastMonthEnd = addDays(end, 1).getDate() === 1 ? end : new Date(end.getFullYear(), end.getMonth(), 0);
+  if (days <= MONTHLY_AFTER_DAYS || firstMonth > lastMonthEnd) {
+    return [{ period: 'day', start, end }];
+  }
+
+  const spans: RollupSpan[] = [];
+  if (firstMonth > start) {
+    spans.push({ period: 'day', start, end: addDays(firstMonth, -1) });
+  }
+  spans.push({ period: 'month', start: firstMonth, end: lastMonthEnd });
+  if (lastMonthEnd < end) {
+    spans.push({ period: 'day', start: addDays(lastMonthEnd, 1), end });
+  }
+  return spans;
+};
+
+// Reads each span of the range and puts the results together
+const fetchSpans = async (
+  start: Date,
+  end: Date,
+  read: (span: RollupSpan) => Promise<SalesMetrics[]>
+): Promise<SalesMetrics[]> =>
+  (await Promise.all(getRollupSpans(start, end).map(read))).flat();
+
+/**
+ * Loads the rollup totals for a scope and date range, shaped like metrics so
+ * the dashboards can use them unchanged. Rollups carry no staff code below the
+ * staff scope and no branch number above the store scope.
+ */
+export const fetchRollups = async (
+  period: RollupPeriod,
+  filter: RollupFilter,
+  start: Date,
+  end: Date
+): Promise<SalesMetrics[]> => {
+  try {
+    const constraints: QueryConstraint[] = [where('scope', '==', filter.scope)];
+    if (filter.staffCode) constraints.push(where('staffCode', '==', filter.staffCode));
+    if (filter.regionId) constraints.push(where('regionId', '==', filter.regionId));
+
+    // Monthly rollups are dated on the 1st, so take in the month the range starts in
+    const from = period === 'month' ? new Date(start.getFullYear(), start.getMonth(), 1) : start;
+    constraints.push(
+      where('date', '>=', Timestamp.fromDate(from)),
+      where('date', '<=', Timestamp.fromDate(endOfDay(end)))
+    );
+
+    const rollupsRef = getCollection(period === 'day' ? 'ROLLUPS_DAILY' : 'ROLLUPS_MONTHLY');
+    const docs = filter.branchNumbers?.length
+      ? await getDocsWhereIn(query(rollupsRef), 'branchNumber', filter.branchNumbers, constraints)
+      : (await getDocs(query(rollupsRef, ...constraints))).docs;
+
+    const metrics: SalesMetrics[] = docs.map(rollupDoc => {
+      const data = rollupDoc.data();
+      return {
+        id: rollupDoc.id,
+        supplierId: Number(data.supplierId),
+        quantity: Number(data.quantity) || 0,
+        salesAmount: Number(data.salesAmount) || 0,
+        marginAmount: Number(data.marginAmount) || 0,
+        date: (data.date as Timestamp).toDate().toISOString(),
+        branchNumber: String(data.branchNumber || ''),
+        staffCode: String(data.staffCode || ''),
+        regionId: String(data.regionId || ''),
+        type: data.type === 'return' ? 'return' : 'sale',
+        rollup: period
+      };
+    });
+
+    logOperation('fetchRollups', 'success', { period, ...filter, count: metrics.length });
+    return metrics;
+  } catch (error) {
+    logOperation('fetchRollups', 'error', error);
+    throw error;
+  }
+};
+
+// Totals for a set of stores, or national totals when none are given
+export const fetchStoreTotals = async (branchNumbers: string[], start: Date, end: Date): Promise<SalesMetrics[]> =>
+  fetchSpans(start, end, span => fetchRollups(
+    span.period,
+    branchNumbers.length ? { scope: 'store', branchNumbers } : { scope: 'all' },
+    span.start,
+    span.end
+  ));
+
+/**
+ * Totals for one region, or national totals for 'all'. A region is read as its
+ * stores' rollups so the supplier drill-down can still match lines by branch.
+ */
+export const fetchRegionTotals = async (regionId: string, start: Date, end: Date): Promise<SalesMetrics[]> =>
+  fetchSpans(start, end, span => fetchRollups(
+    span.period,
+    regionId === 'all' ? { scope: 'all' } : { scope: 'store', regionId },
+    span.start,
+    span.end
+  ));
+
+/**
+ * One salesperson's totals. Staff have monthly rollups but no daily ones (see
+ * PERIOD_SCOPES in the rollup functions), so days outside whole months read
+ * the raw metrics.
+ */
+export const fetchStaffTotals = async (
+  staffCode: string,
+  branchNumbers: string[],
+  start: Date,
+  end: Date
+): Promise<SalesMetrics[]> => {
+  if (!staffCode || !branchNumbers.length) return [];
+
+  return fetchSpans(start, end, span => span.period === 'month'
+    ? fetchRollups('month', { scope: 'staff', staffCode, branchNumbers }, span.start, span.end)
+    : fetchMetricsByStaff(staffCode, branchNumbers, span.start, span.end));
+};
+
+// Every salesperson's totals at one store, for comparing them with each other
+export const fetchStoreStaffTotals = async (branchNumber: string, start: Date, end: Date): Promise<SalesMetrics[]> =>
+  fetchSpans(start, end, span => span.period === 'month'
+    ? fetchRollups('month', { scope: 'staff', branchNumbers: [branchNumber] }, span.start, span.end)
+    : fetchMetricsByStore([branchNumber], span.start, span.end));
@@ -1,84 +1,510 @@
-import { 
+import {
   collection,
-  writeBatch,
   doc,
-  Timestamp
+  query,
+  where,
+  Timestamp,
+  QueryDocumentSnapshot,
+  DocumentData
 } from 'firebase/firestore';
 import { getDb } from './firebase/db';
-import { SalesDataRow } from '../types/import';
+import {
+  SalesDataRow,
+  ImportSummary,
+  SalesImportPlan,
+  SalesImportResult,
+  ImportPreview,
+  MetricChange,
+  MetricValues,
+  SalesLineValues,
+  SupplierTotal
+} from '../types/import';
 import { logOperation } from './firebase/logging';
 import { createNZTimestamp } from '../utils/dateUtils/timezone';
 import { COLLECTION_NAMES } from './firebase/collections';
+import {
+  writeInChunks,
+  BatchOperation,
+  ChunkedWriteCheckpoint,
+  ChunkedWriteProgress
+} from './firebase/batchWriter';
+import { getDocsWhereIn } from './firebase/fanout';
+import { getSalesLineId } from './salesLines';
+import { TransactionType } from '../types';
 
-export const importSalesData = async (
-  data: SalesDataRow[],
-  onProgress?: (progress: number) => void
-): Promise<void> => {
+export interface SupplierMetric {
+  id: number;
+  quantity: number;
+  salesAmount: number;
+  marginAmount: number;
+}
+
+// The store a metric was sold at, stamped on the metric so region queries need no store lookup
+interface StoreStamp {
+  storeId: string;
+  regionId: string;
+}
+
+interface MetricWrite {
+  key: string;
+  type: TransactionType;
+  date: Timestamp;
+  branchNumber: string;
+  staffCode: string;
+  supplier: SupplierMetric;
+  // Set for line-level imports; the supplier totals are the sum of these
+  lines?: SalesLineValues[];
+}
+
+// Splits a spreadsheet row into one metric per supplier
+export const getSupplierMetrics = (row: SalesDataRow): SupplierMetric[] =>
+  Object.entries(row.suppliers).map(([id, values]) => ({
+    id: Number(id),
+    quantity: values.quantity,
+    salesAmount: values.salesAmount,
+    marginAmount: values.marginAmount
+  }));
+
+/**
+ * Negative supplier values on a row are a return. POS exports list returns on
+ * their own rows, so a row is never part sale and part return for one supplier.
+ */
+export const getTransactionType = (values: MetricValues): TransactionType =>
+  values.quantity < 0 || (values.quantity === 0 && values.salesAmount < 0) ? 'return' : 'sale';
+
+const isZero = (values: MetricValues): boolean =>
+  values.quantity === 0 && values.salesAmount === 0 && values.marginAmount === 0;
+
+// A row listing a day's returns, whose other supplier columns are blank
+const isReturnRow = (row: SalesDataRow): boolean =>
+  getSupplierMetrics(row).some(supplier => getTransactionType(supplier) === 'return');
+
+/**
+ * Builds the natural key of a metrics document. It doubles as the document ID
+ * so re-importing the same day overwrites instead of appending. Returns get
+ * their own key so they sit alongside the day's sales instead of replacing them.
+ */
+export const getMetricKey = (
+  date: Date,
+  branchNumber: string,
+  staffCode: string,
+  supplierId: number,
+  type: TransactionType = 'sale'
+): string => {
+  const day = [
+    date.getFullYear(),
+    (date.getMonth() + 1).toString().padStart(2, '0'),
+    date.getDate().toString().padStart(2, '0')
+  ].join('-');
+
+  return [day, branchNumber, staffCode, supplierId, ...(type === 'return' ? [type] : [])]
+    .map(part => encodeURIComponent(String(part)))
+    .join('_');
+};
+
+const isSameMetric = (existing: DocumentData, supplier: SupplierMetric): boolean =>
+  Number(existing.quantity) === supplier.quantity &&
+  Number(existing.salesAmount) === supplier.salesAmount &&
+  Number(existing.marginAmount) === supplier.marginAmount;
+
+const buildPreview = (data: SalesDataRow[], changes: MetricChange[]): ImportPreview => {
+  const totals = new Map<number, SupplierTotal>();
+  changes.forEach(change => {
+    const total = totals.get(change.supplierId) || {
+      supplierId: change.supplierId,
+      quantity: 0,
+      salesAmount: 0,
+      marginAmount: 0
+    };
+    total.quantity += change.after.quantity;
+    total.salesAmount += change.after.salesAmount;
+    total.marginAmount += change.after.marginAmount;
+    totals.set(change.supplierId, total);
+  });
+
+  const dates = changes.map(change => change.date.getTime());
+
+  return {
+    rowsParsed: data.length,
+    lineCount: data.reduce((count, row) => count + (row.lines?.length || 0), 0),
+    dateRange: dates.length
+      ? { start: new Date(Math.min(...dates)), end: new Date(Math.max(...dates)) }
+      : null,
+    branchNumbers: [...new Set(changes.map(change => change.branchNumber))].sort(),
+    staffCodes: [...new Set(changes.map(change => change.staffCode))].sort(),
+    supplierTotals: [...totals.values()].sort((a, b) => a.supplierId - b.supplierId),
+    changes
+  };
+};
+
+// Range of days an import covers, for reading what is already stored for its branches
+const getDateConstraints = (writes: MetricWrite[]) => {
+  const millis = writes.map(write => write.date.toMillis());
+  return [
+    where('date', '>=', Timestamp.fromMillis(Math.min(...millis))),
+    where('date', '<=', Timestamp.fromMillis(Math.max(...millis)))
+  ];
+};
+
+/**
+ * Loads the metrics already stored for the dates and branches in an import,
+ * grouped by natural key. Older imports used random IDs, so a key may map to
+ * several documents.
+ */
+const fetchExistingMetrics = async (
+  writes: MetricWrite[]
+): Promise<Map<string, QueryDocumentSnapshot<DocumentData>[]>> => {
+  const existing = new Map<string, QueryDocumentSnapshot<DocumentData>[]>();
+  if (!writes.length) return existing;
+
+  const metricDocs = await getDocsWhereIn(
+    query(collection(getDb(), COLLECTION_NAMES.METRICS)),
+    'branchNumber',
+    writes.map(write => write.branchNumber),
+    getDateConstraints(writes)
+  );
+
+  metricDocs.forEach(metricDoc => {
+    const data = metricDoc.data();
+    if (!(data.date instanceof Timestamp)) return;
+
+    const key = getMetricKey(
+      data.date.toDate(),
+      data.branchNumber,
+      data.staffCode,
+      Number(data.supplierId),
+      data.type === 'return' ? 'return' : 'sale'
+    );
+    existing.set(key, [...(existing.get(key) || []), metricDoc]);
+  });
+
+  return existing;
+};
+
+const fetchStoreStamps = async (writes: MetricWrite[]): Promise<Map<string, StoreStamp>> => {
+  const storeDocs = await getDocsWhereIn(
+    query(collection(getDb(), COLLECTION_NAMES.STORES)),
+    'branchNumber',
+    writes.map(write => write.branchNumber)
+  );
+
+  return new Map(storeDocs.map(storeDoc => [
+    String(storeDoc.data().branchNumber),
+    { storeId: storeDoc.id, regionId: String(storeDoc.data().regionId || '') }
+  ]));
+};
+
+/**
+ * Loads the product lines stored for the dates in an import, grouped by the
+ * metrics document they belong to.
+ */
+const fetchExistingLines = async (
+  writes: MetricWrite[]
+): Promise<Map<string, QueryDocumentSnapshot<DocumentData>[]>> => {
+  const existing = new Map<string, QueryDocumentSnapshot<DocumentData>[]>();
+  if (!writes.length) return existing;
+
+  const keys = new Set(writes.map(write => write.key));
+  const lineDocs = await getDocsWhereIn(
+    query(collection(getDb(), COLLECTION_NAMES.SALES_LINES)),
+    'branchNumber',
+    writes.map(write => write.branchNumber),
+    getDateConstraints(writes)
+  );
+
+  lineDocs.forEach(lineDoc => {
+    const key = lineDoc.data().metricKey;
+    if (keys.has(key)) {
+      existing.set(key, [...(existing.get(key) || []), lineDoc]);
+    }
+  });
+
+  return existing;
+};
+
+const isSameLine = (existing: DocumentData, line: SalesLineValues): boolean =>
+  existing.categoryId === line.categoryId &&
+  Number(existing.quantity) === line.quantity &&
+  Number(existing.salesAmount) === line.salesAmount &&
+  Number(existing.marginAmount) === line.marginAmount;
+
+/**
+ * Keeps a metrics document's product lines in step with its totals. A
+ * line-level import replaces the stored lines; a supplier-level import that
+ * changes the totals removes them, since they would no longer add up.
+ */
+const planLineWrites = (
+  write: MetricWrite,
+  existing: QueryDocumentSnapshot<DocumentData>[],
+  context: {
+    importId: string;
+    linesRef: ReturnType<typeof collection>;
+    changesRef: ReturnType<typeof collection>;
+    totalsChanged: boolean;
+  }
+): BatchOperation[] => {
+  const operations: BatchOperation[] = [];
+  const recordChange = (lineId: string, action: 'insert' | 'update' | 'delete', before?: DocumentData) =>
+    operations.push({
+      type: 'set',
+      ref: doc(context.changesRef, lineId),
+      data: { metricId: lineId, collection: 'salesLines', action, ...(before ? { before } : {}) }
+    });
+
+  if (!write.lines) {
+    if (context.totalsChanged) {
+      existing.forEach(line => {
+        operations.push({ type: 'delete', ref: line.ref });
+        recordChange(line.id, 'delete', line.data());
+      });
+    }
+    return operations;
+  }
+
+  const stored = new Map(existing.map(line => [line.id, line]));
+  write.lines.forEach(line => {
+    const lineId = getSalesLineId(write.key, line.sku);
+    const current = stored.get(lineId);
+    stored.delete(lineId);
+    if (current && isSameLine(current.data(), line)) return;
+
+    if (current) {
+      operations.push({
+        type: 'update',
+        ref: current.ref,
+        data: { ...line, importId: context.importId, updatedAt: Timestamp.now() }
+      });
+      recordChange(lineId, 'update', current.data());
+    } else {
+      operations.push({
+        type: 'set',
+        ref: doc(context.linesRef, lineId),
+        data: {
+          metricKey: write.key,
+          date: write.date,
+          branchNumber: write.branchNumber,
+          staffCode: write.staffCode,
+          ...line,
+          importId: context.importId,
+          createdAt: Timestamp.now()
+        }
+      });
+      recordChange(lineId, 'insert');
+    }
+  });
+
+  // SKUs no longer on the export for this day
+  stored.forEach(line => {
+    operations.push({ type: 'delete', ref: line.ref });
+    recordChange(line.id, 'delete', line.data());
+  });
+
+  return operations;
+};
+
+/**
+ * Works out which metrics documents an import inserts, updates or leaves
+ * alone without writing anything. Every write is stamped with the import ID
+ * and paired with a change record under importHistory/{importId}/changes so
+ * the import can be undone.
+ */
+export const planSalesImport = async (data: SalesDataRow[]): Promise<SalesImportPlan> => {
   try {
-    const db = await getDb();
-    const batch = writeBatch(db);
+    const db = getDb();
     const metricsRef = collection(db, COLLECTION_NAMES.METRICS);
-    let processedRows = 0;
+    const linesRef = collection(db, COLLECTION_NAMES.SALES_LINES);
+    // The import ID is also the ID of its importHistory entry
+    const importId = doc(collection(db, COLLECTION_NAMES.IMPORT_HISTORY)).id;
+    const changesRef = collection(db, COLLECTION_NAMES.IMPORT_HISTORY, importId, 'changes');
+    const summary: ImportSummary = { inserted: 0, updated: 0, unchanged: 0 };
+    const operations: BatchOperation[] = [];
+    const changes: MetricChange[] = [];
 
+    // Later rows win when the same key appears more than once in a file. A
+    // return row's zero columns are skipped, so they never write a sale
+    const writes = new Map<string, MetricWrite>();
     for (const row of data) {
-      // Create metrics entries for each supplier
-      const suppliers = [
-        {
-          id: 1,
-          quantity: row.cellnetQuantity,
-          salesAmount: row.cellnetSales,
-          marginAmount: row.cellnetMargin
-        },
-        {
-          id: 2,
-          quantity: row.likewizeAccQuantity,
-          salesAmount: row.likewizeAccSales,
-          marginAmount: row.likewizeAccMargin
-        },
-        {
-          id: 3,
-          quantity: row.pacificommQuantity,
-          salesAmount: row.pacificommSales,
-          marginAmount: row.pacificommMargin
-        },
-        {
-          id: 4,
-          quantity: row.studiotechQuantity,
-          salesAmount: row.studiotechSales,
-          marginAmount: row.studiotechMargin
-        },
-        {
-          id: 5,
-          quantity: row.likewizeDeviceQuantity,
-          salesAmount: 0,
-          marginAmount: 0
-        }
-      ];
+      const date = createNZTimestamp(row.date);
+      const returnRow = isReturnRow(row);
+      for (const supplier of getSupplierMetrics(row)) {
+        if (returnRow && isZero(supplier)) continue;
+
+        const type = getTransactionType(supplier);
+        const key = getMetricKey(date.toDate(), row.branchNumber, row.staffCode, supplier.id, type);
 
-      for (const supplier of suppliers) {
-        const docRef = doc(metricsRef);
-        batch.set(docRef, {
-          date: createNZTimestamp(row.date),
+        writes.set(key, {
+          key,
+          type,
+          date,
           branchNumber: row.branchNumber,
           staffCode: row.staffCode,
-          supplierId: supplier.id,
-          quantity: supplier.quantity,
-          salesAmount: supplier.salesAmount,
-          marginAmount: supplier.marginAmount,
-          createdAt: Timestamp.now()
+          supplier,
+          lines: row.lines?.filter(line => line.supplierId === supplier.id)
         });
       }
+    }
+
+    const [existingMetrics, existingLines, stores] = await Promise.all([
+      fetchExistingMetrics([...writes.values()]),
+      fetchExistingLines([...writes.values()]),
+      fetchStoreStamps([...writes.values()])
+    ]);
+
+    for (const write of writes.values()) {
+      const [current, ...duplicates] = existingMetrics.get(write.key) || [];
+      const after: MetricValues = {
+        quantity: write.supplier.quantity,
+        salesAmount: write.supplier.salesAmount,
+        marginAmount: write.supplier.marginAmount
+      };
+      // Branches not yet set up as stores are imported without a region
+      const store = stores.get(write.branchNumber) || {};
+      const change: MetricChange = {
+        key: write.key,
+        date: write.date.toDate(),
+        branchNumber: write.branchNumber,
+        staffCode: write.staffCode,
+        supplierId: write.supplier.id,
+        type: write.type,
+        status: 'unchanged',
+        after
+      };
 
-      processedRows++;
-      if (onProgress) {
-        onProgress(processedRows / data.length);
+      // Remove copies left behind by earlier non-idempotent imports
+      duplicates.forEach(duplicate => {
+        operations.push({ type: 'delete', ref: duplicate.ref });
+        operations.push({
+          type: 'set',
+          ref: doc(changesRef, duplicate.id),
+          data: { metricId: duplicate.id, action: 'delete', before: duplicate.data() }
+        });
+      });
+
+      if (!current) {
+        operations.push({
+          type: 'set',
+          ref: doc(metricsRef, write.key),
+          data: {
+            date: write.date,
+            branchNumber: write.branchNumber,
+            staffCode: write.staffCode,
+            supplierId: write.supplier.id,
+            type: write.type,
+            ...store,
+            ...after,
+            importId,
+            createdAt: Timestamp.now()
+          }
+        });
+        operations.push({
+          type: 'set',
+          ref: doc(changesRef, write.key),
+          data: { metricId: write.key, action: 'insert' }
+        });
+        change.status = 'insert';
+        summary.inserted++;
+      } else if (duplicates.length || !isSameMetric(current.data(), write.supplier)) {
+        const existing = current.data();
+        change.status = 'update';
+        change.before = {
+          quantity: Number(existing.quantity) || 0,
+          salesAmount: Number(existing.salesAmount) || 0,
+          marginAmount: Number(existing.marginAmount) || 0
+        };
+        // A metric keeps the region it was first stamped with, so a re-import
+        // after a store moves region doesn't restate history; older metrics gain one
+        operations.push({
+          type: 'update',
+          ref: current.ref,
+          data: {
+            ...(existing.regionId ? {} : store),
+            ...after,
+            importId,
+            updatedAt: Timestamp.now()
+          }
+        });
+        operations.push({
+          type: 'set',
+          ref: doc(changesRef, current.id),
+          data: { metricId: current.id, action: 'update', before: existing }
+        });
+        summary.updated++;
+      } else {
+        summary.unchanged++;
       }
+
+      operations.push(...planLineWrites(write, existingLines.get(write.key) || [], {
+        importId,
+        linesRef,
+        changesRef,
+        totalsChanged: change.status !== 'unchanged'
+      }));
+      changes.push(change);
+    }
+
+    logOperation('planSalesImport', 'success', { rows: data.length, ...summary });
+    return {
+      importId,
+      rowCount: data.length,
+      operations,
+      summary,
+      preview: buildPreview(data, changes)
+    };
+  } catch (error) {
+    logOperation('planSalesImport', 'error', error);
+    throw error;
+  }
+};
+
+/**
+ * Writes a planned import in chunks. On failure the returned checkpoint can be
+ * passed back with the same plan to resume from the chunks not yet committed.
+ */
+export const commitSalesImport = async (
+  plan: SalesImportPlan,
+  options: {
+    checkpoint?: ChunkedWriteCheckpoint;
+    onProgress?: (progress: number, detail: ChunkedWriteProgress) => void;
+  } = {}
+): Promise<SalesImportResult> => {
+  const result = await writeInChunks(plan.operations, {
+    operation: 'commitSalesImport',
+    writeId: plan.importId,
+    checkpoint: options.checkpoint,
+    onProgress: detail => options.onProgress?.(
+      detail.totalOperations ? detail.committedOperations / detail.totalOperations : 1,
+      detail
+    )
+  });
+
+  return { ...result, summary: plan.summary };
+};
+
+/**
+ * Plans and commits an import. With `dryRun` the plan, including its preview
+ * and diff against stored metrics, is returned without writing.
+ */
+export const importSalesData = async (
+  data: SalesDataRow[],
+  onProgress?: (progress: number) => void,
+  options: { dryRun?: boolean } = {}
+): Promise<SalesImportPlan> => {
+  try {
+    const plan = await planSalesImport(data);
+    if (options.dryRun) {
+      logOperation('importSalesData', 'success', { dryRun: true, ...plan.summary });
+      return plan;
+    }
+
+    const result = await commitSalesImport(plan, { onProgress });
+    if (!result.success) {
+      throw new Error(result.error);
     }
 
-    await batch.commit();
-    logOperation('importSalesData', 'success', { rowsProcessed: data.length });
+    logOperation('importSalesData', 'success', { rowsProcessed: data.length, ...plan.summary });
+    return plan;
   } catch (error) {
     logOperation('importSalesData', 'error', error);
     throw error;
   }
-};
\ No newline at end of file
+};
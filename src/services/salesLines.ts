@@ -0,0 +1,49 @@
+import { query, where, getDocs, Timestamp } from 'firebase/firestore';
+import { getCollection, logOperation } from './firebase';
+import { SalesLine } from '../types';
+
+// One document per SKU per metrics document, so re-importing a day overwrites its lines
+export const getSalesLineId = (metricKey: string, sku: string): string =>
+  `${metricKey}_${encodeURIComponent(sku)}`;
+
+/**
+ * Loads one supplier's product lines for a date range. Callers narrow the
+ * result to the metrics they are showing by metricKey.
+ */
+export const fetchSalesLines = async (
+  supplierId: number,
+  start: Date,
+  end: Date
+): Promise<SalesLine[]> => {
+  try {
+    const snapshot = await getDocs(query(
+      getCollection('SALES_LINES'),
+      where('supplierId', '==', supplierId),
+      where('date', '>=', Timestamp.fromDate(start)),
+      where('date', '<=', Timestamp.fromDate(end))
+    ));
+
+    const lines = snapshot.docs.map(lineDoc => {
+      const data = lineDoc.data();
+      return {
+        id: lineDoc.id,
+        metricKey: data.metricKey,
+        date: data.date instanceof Timestamp ? data.date.toDate().toISOString() : String(data.date),
+        branchNumber: data.branchNumber,
+        staffCode: data.staffCode,
+        supplierId: Number(data.supplierId),
+        sku: data.sku,
+        categoryId: data.categoryId,
+        quantity: Number(data.quantity) || 0,
+        salesAmount: Number(data.salesAmount) || 0,
+        marginAmount: Number(data.marginAmount) || 0
+      };
+    });
+
+    logOperation('fetchSalesLines', 'success', { supplierId, count: lines.length });
+    return lines;
+  } catch (error) {
+    logOperation('fetchSalesLines', 'error', error);
+    throw error;
+  }
+};
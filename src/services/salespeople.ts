@@ -156,4 +156,36 @@ export const deleteSalesperson = async (id: string): Promise<void> => {
     logOperation('deleteSalesperson', 'error', error);
     throw error;
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Creates a minimal team member for a staff code seen in imported sales but
+ * not yet set up, so its metrics show on dashboards. An admin completes the
+ * name and email later.
+ */
+export const createPlaceholderSalesperson = async (
+  staffCode: string,
+  storeId?: string
+): Promise<string> => {
+  try {
+    const salesRef = getCollection('SALESPEOPLE');
+    const docRef = await addDoc(salesRef, {
+      name: `Unassigned (${staffCode.trim()})`,
+      email: '',
+      staffCode: staffCode.trim(),
+      storeIds: storeId ? [storeId] : [],
+      primaryStoreId: storeId || '',
+      role: 'team_member',
+      approved: false,
+      placeholder: true,
+      createdAt: serverTimestamp(),
+      createdBy: getAuth().currentUser?.uid
+    });
+
+    logOperation('createPlaceholderSalesperson', 'success', { staffCode });
+    return docRef.id;
+  } catch (error) {
+    logOperation('createPlaceholderSalesperson', 'error', error);
+    throw error;
+  }
+};
@@ -0,0 +1,140 @@
+import { doc, getDocs, setDoc, updateDoc, deleteDoc, deleteField, serverTimestamp } from 'firebase/firestore';
+import { getCollection, logOperation } from './firebase';
+import { Supplier } from '../types';
+import { DEFAULT_SUPPLIERS, setSuppliers } from '../data/suppliers';
+
+let catalogueLoad: Promise<Supplier[]> | null = null;
+
+const toSupplier = (id: string, data: Record<string, any>): Supplier => ({
+  id: Number(data.id ?? id),
+  name: String(data.name || '').trim(),
+  color: data.color || 'rgba(156, 163, 175, 0.7)',
+  category: data.category || 'other',
+  activeFrom: data.activeFrom || undefined,
+  activeTo: data.activeTo || undefined,
+  importKey: String(data.importKey || `supplier${id}`),
+  importColumns: Array.isArray(data.importColumns) ? data.importColumns : ['quantity', 'sales', 'margin'],
+  importAliases: data.importAliases || {},
+  optionalImportColumns: Array.isArray(data.optionalImportColumns) ? data.optionalImportColumns : undefined,
+  showShareKPI: !!data.showShareKPI
+});
+
+// Firestore rejects undefined fields, e.g. an open-ended active date range
+const toDocument = (data: Partial<Supplier>): Record<string, unknown> =>
+  Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined));
+
+export const fetchSuppliers = async (): Promise<Supplier[]> => {
+  try {
+    const snapshot = await getDocs(getCollection('SUPPLIERS'));
+    const suppliers = snapshot.docs
+      .map(doc => toSupplier(doc.id, doc.data()))
+      .filter(s => s.name && !isNaN(s.id))
+      .sort((a, b) => a.id - b.id);
+
+    logOperation('fetchSuppliers', 'success', { count: suppliers.length });
+    return suppliers;
+  } catch (error) {
+    logOperation('fetchSuppliers', 'error', error);
+    throw error;
+  }
+};
+
+/**
+ * Loads the suppliers collection into the shared catalogue once per session.
+ * Until then, and if the collection is empty, the built-in suppliers are used.
+ */
+export const loadSupplierCatalogue = (force = false): Promise<Supplier[]> => {
+  if (!catalogueLoad || force) {
+    catalogueLoad = fetchSuppliers()
+      .then(suppliers => {
+        setSuppliers(suppliers);
+        return suppliers;
+      })
+      .catch(error => {
+        catalogueLoad = null;
+        throw error;
+      });
+  }
+  return catalogueLoad;
+};
+
+// Supplier IDs are stored on metrics, so new suppliers take the next free number
+// and never reuse a built-in supplier's ID, even before those have been saved
+export const createSupplier = async (data: Omit<Supplier, 'id'>, existing: Supplier[]): Promise<number> => {
+  try {
+    if (!existing.length) {
+      throw new Error('Save the built-in suppliers before adding a new one');
+    }
+
+    const id = [...DEFAULT_SUPPLIERS, ...existing].reduce((max, s) => Math.max(max, s.id), 0) + 1;
+    await setDoc(doc(getCollection('SUPPLIERS'), String(id)), {
+      ...toDocument(data),
+      id,
+      createdAt: serverTimestamp()
+    });
+
+    logOperation('createSupplier', 'success', { id });
+    await loadSupplierCatalogue(true);
+    return id;
+  } catch (error) {
+    logOperation('createSupplier', 'error', error);
+    throw error;
+  }
+};
+
+export const updateSupplier = async (id: number, data: Partial<Supplier>): Promise<void> => {
+  try {
+    // Fields cleared in the form, such as an end date, are removed
+    const changes = Object.fromEntries(Object.entries(data).map(([key, value]) =>
+      [key, value === undefined ? deleteField() : value]
+    ));
+    await updateDoc(doc(getCollection('SUPPLIERS'), String(id)), {
+      ...changes,
+      id,
+      updatedAt: serverTimestamp()
+    });
+
+    logOperation('updateSupplier', 'success', { id });
+    await loadSupplierCatalogue(true);
+  } catch (error) {
+    logOperation('updateSupplier', 'error', error);
+    throw error;
+  }
+};
+
+// An empty collection falls back to the built-in suppliers, so the last one stays
+export const deleteSupplier = async (id: number, existing: Supplier[]): Promise<void> => {
+  try {
+    if (existing.length <= 1) {
+      throw new Error('The last saved supplier cannot be deleted');
+    }
+
+    await deleteDoc(doc(getCollection('SUPPLIERS'), String(id)));
+
+    logOperation('deleteSupplier', 'success', { id });
+    await loadSupplierCatalogue(true);
+  } catch (error) {
+    logOperation('deleteSupplier', 'error', error);
+    throw error;
+  }
+};
+
+/**
+ * Writes the built-in suppliers to an empty collection so they can be edited.
+ */
+export const seedDefaultSuppliers = async (suppliers: Supplier[]): Promise<void> => {
+  try {
+    await Promise.all(suppliers.map(supplier =>
+      setDoc(doc(getCollection('SUPPLIERS'), String(supplier.id)), {
+        ...toDocument(supplier),
+        createdAt: serverTimestamp()
+      })
+    ));
+
+    logOperation('seedDefaultSuppliers', 'success', { count: suppliers.length });
+    await loadSupplierCatalogue(true);
+  } catch (error) {
+    logOperation('seedDefaultSuppliers', 'error', error);
+    throw error;
+  }
+};
@@ -0,0 +1,103 @@
+import { addDoc, doc, getDocs, updateDoc, deleteDoc, deleteField, serverTimestamp } from 'firebase/firestore';
+import { getCollection, logOperation } from './firebase';
+import { KPITarget, TargetKPI, TargetLevel } from '../types';
+import { setTargets } from '../data/targets';
+
+let catalogueLoad: Promise<KPITarget[]> | null = null;
+
+const toTarget = (id: string, data: Record<string, any>): KPITarget => ({
+  id,
+  kpi: data.kpi as TargetKPI,
+  level: (data.level || 'national') as TargetLevel,
+  scopeId: data.scopeId || undefined,
+  supplierId: data.supplierId === undefined || data.supplierId === null ? undefined : Number(data.supplierId),
+  low: Number(data.low) || 0,
+  medium: Number(data.medium) || 0,
+  effectiveFrom: data.effectiveFrom || undefined,
+  effectiveTo: data.effectiveTo || undefined
+});
+
+// Firestore rejects undefined fields, e.g. an open-ended effective date range
+const toDocument = (data: Partial<KPITarget>): Record<string, unknown> =>
+  Object.fromEntries(Object.entries(data).filter(([key, value]) => key !== 'id' && value !== undefined));
+
+export const fetchTargets = async (): Promise<KPITarget[]> => {
+  try {
+    const snapshot = await getDocs(getCollection('TARGETS'));
+    const targets = snapshot.docs
+      .map(doc => toTarget(doc.id, doc.data()))
+      .filter(target => target.kpi);
+
+    logOperation('fetchTargets', 'success', { count: targets.length });
+    return targets;
+  } catch (error) {
+    logOperation('fetchTargets', 'error', error);
+    throw error;
+  }
+};
+
+/**
+ * Loads the targets collection into the shared catalogue once per session.
+ * Until then the built-in national targets are used.
+ */
+export const loadTargetCatalogue = (force = false): Promise<KPITarget[]> => {
+  if (!catalogueLoad || force) {
+    catalogueLoad = fetchTargets()
+      .then(targets => {
+        setTargets(targets);
+        return targets;
+      })
+      .catch(error => {
+        catalogueLoad = null;
+        throw error;
+      });
+  }
+  return catalogueLoad;
+};
+
+export const createTarget = async (data: Omit<KPITarget, 'id'>): Promise<string> => {
+  try {
+    const ref = await addDoc(getCollection('TARGETS'), {
+      ...toDocument(data),
+      createdAt: serverTimestamp()
+    });
+
+    logOperation('createTarget', 'success', { id: ref.id });
+    await loadTargetCatalogue(true);
+    return ref.id;
+  } catch (error) {
+    logOperation('createTarget', 'error', error);
+    throw error;
+  }
+};
+
+export const updateTarget = async (id: string, data: Omit<KPITarget, 'id'>): Promise<void> => {
+  try {
+    // Fields cleared in the form, such as an end date, are removed
+    const changes = Object.fromEntries(Object.entries(data).map(([key, value]) =>
+      [key, value === undefined ? deleteField() : value]
+    ));
+    await updateDoc(doc(getCollection('TARGETS'), id), {
+      ...changes,
+      updatedAt: serverTimestamp()
+    });
+
+    logOperation('updateTarget', 'success', { id });
+    await loadTargetCatalogue(true);
+  } catch (error) {
+    logOperation('updateTarget', 'error', error);
+    throw error;
+  }
+};
+
+export const deleteTarget = async (id: string): Promise<void> => {
+  try {
+    await deleteDoc(doc(getCollection('TARGETS'), id));
+
+    logOperation('deleteTarget', 'success', { id });
+    await loadTargetCatalogue(true);
+  } catch (error) {
+    logOperation('deleteTarget', 'error', error);
+    throw error;
+  }
+};
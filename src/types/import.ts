@@ -1,3 +1,75 @@
+import type { BatchOperation, ChunkedWriteResult } from '../services/firebase/batchWriter';
+import type { TransactionType } from './index';
+
+export interface SalesDataRow {
+  date: Date;
+  branchNumber: string;
+  staffCode: string;
+  // Values per supplier ID; suppliers without sales or margin columns report 0
+  suppliers: Record<number, MetricValues>;
+  // Product lines the supplier values were summed from, for line-level exports
+  lines?: SalesLineValues[];
+}
+
+export interface SalesLineValues extends MetricValues {
+  sku: string;
+  supplierId: number;
+  categoryId: string;
+}
+
+// Outcome of an import, counted per metrics document (one per supplier per row)
+export interface ImportSummary {
+  inserted: number;
+  updated: number;
+  unchanged: number;
+}
+
+export interface MetricValues {
+  quantity: number;
+  salesAmount: number;
+  marginAmount: number;
+}
+
+export interface MetricChange {
+  key: string;
+  date: Date;
+  branchNumber: string;
+  staffCode: string;
+  supplierId: number;
+  type: TransactionType;
+  status: 'insert' | 'update' | 'unchanged';
+  before?: MetricValues;
+  after: MetricValues;
+}
+
+export interface SupplierTotal extends MetricValues {
+  supplierId: number;
+}
+
+// What an import would do, built before anything is written
+export interface ImportPreview {
+  rowsParsed: number;
+  dateRange: { start: Date; end: Date } | null;
+  branchNumbers: string[];
+  staffCodes: string[];
+  supplierTotals: SupplierTotal[];
+  changes: MetricChange[];
+  // Product lines written alongside the metrics, for line-level exports
+  lineCount: number;
+}
+
+export interface SalesImportPlan {
+  importId: string;
+  rowCount: number;
+  operations: BatchOperation[];
+  summary: ImportSummary;
+  preview: ImportPreview;
+}
+
+export interface SalesImportResult extends ChunkedWriteResult {
+  summary: ImportSummary;
+}
+
 // Add to existing types
 export interface ImportHistoryEntry {
   id: string;
@@ -5,7 +77,48 @@ export interface ImportHistoryEntry {
   timestamp: Date;
   success: boolean;
   rowsProcessed: number;
+  // Rows left out of a partial import because they failed validation
+  rowsRejected?: number;
+  inserted?: number;
+  updated?: number;
+  unchanged?: number;
   error?: string;
+  undoneAt?: Date;
+  // How the file arrived: the browser, an upload to the import function, or the drop folder
+  source?: 'browser' | 'upload' | 'scheduled';
+  // Set on drop-folder files that failed and were moved aside for review
+  flagged?: boolean;
+  sourcePath?: string;
+}
+
+// Stored under importHistory/{importId}/changes, one per metrics or sales line document touched
+export interface ImportChangeRecord {
+  // Document ID in `collection`, which is metrics unless set
+  metricId: string;
+  collection?: 'salesLines';
+  action: 'insert' | 'update' | 'delete';
+  before?: Record<string, unknown>;
+}
+
+export type ServerImportStatus = 'uploaded' | 'processing' | 'completed' | 'failed';
+
+// imports/{id}: a file handed to the import function and its live progress
+export interface ServerImport {
+  id: string;
+  fileName: string;
+  status: ServerImportStatus;
+  currentStep?: string;
+  // 0 to 1
+  progress?: number;
+  totalRows?: number;
+  processedRows?: number;
+  rowsRejected?: number;
+  summary?: ImportSummary;
+  errors?: string[];
+  // Rows imported despite looking wrong, such as future dates
+  warnings?: string[];
+  createdAt?: Date;
+  completedAt?: Date;
 }
 
 export interface ImportProgress {
@@ -13,4 +126,4 @@ export interface ImportProgress {
   progress: number;
   totalRows: number;
   processedRows: number;
-}
\ No newline at end of file
+}
@@ -1,8 +1,62 @@
+export type SupplierCategory = 'accessory' | 'device' | 'other';
+
+export type SupplierMeasure = 'quantity' | 'sales' | 'margin';
+
 export interface Supplier {
+  // Stored on metrics as supplierId; also the suppliers document ID
   id: number;
   name: string;
+  color: string;
+  // Accessories count towards attachment rates against device sales
+  category: SupplierCategory;
+  // First and last day (YYYY-MM-DD) the supplier is sold; open-ended when unset
+  activeFrom?: string;
+  activeTo?: string;
+  // Prefix of the supplier's import fields, e.g. 'cellnet' for cellnetQuantity
+  importKey: string;
+  // Columns the POS export has for this supplier
+  importColumns: SupplierMeasure[];
+  // Other header names the POS export has used for each column
+  importAliases?: Partial<Record<SupplierMeasure, string[]>>;
+  // Columns older exports leave out; imported as 0 when missing
+  optionalImportColumns?: SupplierMeasure[];
+  // Show a share-of-accessory-sales KPI for this supplier on dashboards
+  showShareKPI?: boolean;
+}
+
+// Accessory category such as cases or chargers; also the productCategories document ID
+export interface ProductCategory {
+  id: string;
+  name: string;
+}
+
+// products/{sku}: an item that appears on line-level POS exports
+export interface Product {
+  sku: string;
+  name: string;
+  supplierId: number;
+  categoryId: string;
+}
+
+// salesLines: one SKU's share of a metrics document
+export interface SalesLine {
+  id: string;
+  // ID of the metrics document the line adds up to
+  metricKey: string;
+  date: string;
+  branchNumber: string;
+  staffCode: string;
+  supplierId: number;
+  sku: string;
+  categoryId: string;
+  quantity: number;
+  salesAmount: number;
+  marginAmount: number;
 }
 
+// Returns are stored apart from sales with negative values, so summing both gives net figures
+export type TransactionType = 'sale' | 'return';
+
 export interface SalesMetrics {
   id: string;
   supplierId: number;
@@ -12,7 +66,14 @@ export interface SalesMetrics {
   date: string;
   branchNumber: string;
   staffCode: string;
+  // The store and its region at the time of sale; missing on metrics imported
+  // before they were stamped and not yet migrated
+  storeId?: string;
   regionId?: string;
+  // Missing on metrics imported before returns were split out, which are sales
+  type?: TransactionType;
+  // Set on totals read from the rollups, which are dated at the start of their day or month
+  rollup?: 'day' | 'month';
 }
 
 export interface Store {
@@ -27,10 +88,30 @@ export interface Region {
   name: string;
 }
 
+export type RankingKPI = 'attachmentRate' | 'avgSalesPerUnit' | 'revenueRatio' | 'netSales';
+
+// A salesperson or store's results for the period, before ranking
+export interface RankingParticipant {
+  id: string;
+  name: string;
+  attachmentRate: number;
+  avgSalesPerUnit: number;
+  revenueRatio: number;
+  netSales: number;
+  deviceUnits: number;
+}
+
+export interface RankingBoard {
+  participants: RankingParticipant[];
+  // The viewer's own entry: their staff code, or their store's ID
+  currentId: string;
+}
+
 export interface Rankings {
-  storeRank: number;
-  regionRank: number;
-  totalParticipants: number;
+  // Salespeople within the viewer's store
+  store: RankingBoard;
+  // Stores within the store's region; null when the store has no region
+  region: RankingBoard | null;
 }
 
 export interface DateSelection {
@@ -44,16 +125,61 @@ export interface KPIThresholds {
   high: number;
 }
 
+export type TargetKPI = 'attachmentRate' | 'avgSalesPerUnit' | 'revenueRatio' | 'supplierShare';
+
+// Narrowest level wins: a salesperson's target overrides their store's, which overrides its region's
+export type TargetLevel = 'national' | 'region' | 'store' | 'staff';
+
+export interface KPITarget {
+  id: string;
+  kpi: TargetKPI;
+  level: TargetLevel;
+  // Region or store ID, or staff code; unset for national targets
+  scopeId?: string;
+  // Share targets can be set per supplier; unset applies to every supplier
+  supplierId?: number;
+  // Below low is under target, below medium is meeting it, anything else exceeds it
+  low: number;
+  medium: number;
+  // First and last day (YYYY-MM-DD) the target applies; open-ended when unset
+  effectiveFrom?: string;
+  effectiveTo?: string;
+}
+
+// Who a dashboard's figures belong to, used to find the targets that apply
+export interface TargetScope {
+  regionId?: string;
+  storeId?: string;
+  staffCode?: string;
+}
+
 export interface PerformanceLevel {
   rate: number;
   level: 'below' | 'meeting' | 'exceeding';
   color: string;
 }
 
-export interface RankingDetails {
-  id: string;
-  name: string;
-  rank: number;
-  attachmentRate: number;
-  avgSalesPerUnit: number;
+// KPIs compared between the selected period and its comparison period
+export type ComparisonKPI =
+  | 'netSales'
+  | 'margin'
+  | 'units'
+  | 'returns'
+  | 'attachmentRate'
+  | 'avgSalesPerUnit'
+  | 'revenueRatio'
+  | 'marginRate';
+
+export interface KPIDelta {
+  current: number;
+  previous: number;
+  // current - previous, in the KPI's own units (percentage points for rates)
+  change: number;
+  // Relative change as a decimal; null when the comparison period has nothing to compare with
+  percentage: number | null;
+}
+
+export interface RankingDetails extends RankingParticipant {
+  // Null for participants below the minimum volume, who are listed but not ranked
+  rank: number | null;
 }
\ No newline at end of file
@@ -1,9 +1,21 @@
 import { SalesMetrics, DateRange } from '../types';
+import { MetricValues } from '../types/import';
+import { isAccessorySupplier, isDeviceSupplier } from '../data/suppliers';
+import { CURRENT_DATE } from './dateUtils/constants';
+
+const getDaysCovered = (monthStart: Date): number => {
+  const monthEnd = new Date(monthStart.getFullYear(), monthStart.getMonth() + 1, 0);
+  const lastDay = monthEnd > CURRENT_DATE ? CURRENT_DATE : monthEnd;
+  return Math.max(1, lastDay.getDate() - monthStart.getDate() + 1);
+};
 
 export const calculateAverages = (metrics: SalesMetrics[], dateRange: DateRange) => {
   if (dateRange === 'daily') return null;
 
-  const totalDays = new Set(metrics.map(m => m.date.split('T')[0])).size;
+  // A monthly rollup stands for every day of its month up to today
+  const days = new Map<string, number>();
+  metrics.forEach(m => days.set(m.date.split('T')[0], m.rollup === 'month' ? getDaysCovered(new Date(m.date)) : 1));
+  const totalDays = [...days.values()].reduce((sum, count) => sum + count, 0);
   
   if (totalDays === 0) return null;
 
@@ -18,12 +30,104 @@ export const calculateAverages = (metrics: SalesMetrics[], dateRange: DateRange)
   };
 };
 
+// Accessory units sold per device unit, as a percentage
+export const calculateAttachmentRate = (metrics: SalesMetrics[]): number => {
+  const accessoryQuantity = metrics
+    .filter(m => isAccessorySupplier(m.supplierId))
+    .reduce((sum, metric) => sum + metric.quantity, 0);
+  const deviceQuantity = metrics
+    .filter(m => isDeviceSupplier(m.supplierId))
+    .reduce((sum, metric) => sum + metric.quantity, 0);
+
+  if (deviceQuantity === 0) return 0;
+
+  return Number((accessoryQuantity / deviceQuantity * 100).toFixed(2));
+};
+
+// One supplier's share of the accessory units sold, as a percentage
+export const calculateSupplierShare = (metrics: SalesMetrics[], supplierId: number): number => {
+  const accessoryQuantity = metrics
+    .filter(m => isAccessorySupplier(m.supplierId))
+    .reduce((sum, metric) => sum + metric.quantity, 0);
+  const supplierQuantity = metrics
+    .filter(m => m.supplierId === supplierId)
+    .reduce((sum, metric) => sum + metric.quantity, 0);
+
+  if (accessoryQuantity === 0) return 0;
+
+  return Number((supplierQuantity / accessoryQuantity * 100).toFixed(2));
+};
+
 export const calculateAverageSalesPerUnit = (metrics: SalesMetrics[]): number => {
-  const nonDeviceMetrics = metrics.filter(m => m.supplierId >= 1 && m.supplierId <= 4);
+  const nonDeviceMetrics = metrics.filter(m => isAccessorySupplier(m.supplierId));
   const totalQuantity = nonDeviceMetrics.reduce((sum, metric) => sum + metric.quantity, 0);
   const totalSales = nonDeviceMetrics.reduce((sum, metric) => sum + metric.salesAmount, 0);
   
   if (totalQuantity === 0) return 0;
   
   return Number((totalSales / totalQuantity).toFixed(2));
-};
\ No newline at end of file
+};
+
+// Accessory sales per dollar of device sales, as a percentage
+export const calculateRevenueRatio = (metrics: SalesMetrics[]): number => {
+  const accessorySales = metrics
+    .filter(m => isAccessorySupplier(m.supplierId))
+    .reduce((sum, metric) => sum + metric.salesAmount, 0);
+  const deviceSales = metrics
+    .filter(m => isDeviceSupplier(m.supplierId))
+    .reduce((sum, metric) => sum + metric.salesAmount, 0);
+
+  if (deviceSales === 0) return 0;
+
+  return Number((accessorySales / deviceSales * 100).toFixed(2));
+};
+
+// Margin as a percentage of sales across accessories and devices together
+export const calculateBlendedMarginRate = (metrics: SalesMetrics[]): number => {
+  const totalSales = metrics.reduce((sum, metric) => sum + metric.salesAmount, 0);
+  const totalMargin = metrics.reduce((sum, metric) => sum + metric.marginAmount, 0);
+
+  if (totalSales === 0) return 0;
+
+  return Number((totalMargin / totalSales * 100).toFixed(2));
+};
+
+export interface ReturnsSummary {
+  gross: MetricValues;
+  // Positive amounts; stored return metrics are negative
+  returns: MetricValues;
+  net: MetricValues;
+  // Share of the units sold that came back, as a percentage
+  returnRate: number;
+}
+
+const sumValues = (metrics: SalesMetrics[]): MetricValues => metrics.reduce((acc, metric) => ({
+  quantity: acc.quantity + metric.quantity,
+  salesAmount: acc.salesAmount + metric.salesAmount,
+  marginAmount: acc.marginAmount + metric.marginAmount,
+}), { quantity: 0, salesAmount: 0, marginAmount: 0 });
+
+export const isReturn = (metric: SalesMetrics): boolean => metric.type === 'return';
+
+export const summarizeReturns = (metrics: SalesMetrics[]): ReturnsSummary => {
+  const gross = sumValues(metrics.filter(m => !isReturn(m)));
+  const returned = sumValues(metrics.filter(isReturn));
+  const returns = {
+    quantity: -returned.quantity,
+    salesAmount: -returned.salesAmount,
+    marginAmount: -returned.marginAmount,
+  };
+
+  return {
+    gross,
+    returns,
+    net: {
+      quantity: gross.quantity - returns.quantity,
+      salesAmount: gross.salesAmount - returns.salesAmount,
+      marginAmount: gross.marginAmount - returns.marginAmount,
+    },
+    returnRate: gross.quantity !== 0
+      ? Number((returns.quantity / gross.quantity * 100).toFixed(2))
+      : 0,
+  };
+};
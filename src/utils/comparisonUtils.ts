@@ -0,0 +1,90 @@
+import { SalesMetrics, ComparisonKPI, KPIDelta } from '../types';
+import {
+  calculateAttachmentRate,
+  calculateAverageSalesPerUnit,
+  calculateRevenueRatio,
+  calculateBlendedMarginRate,
+  summarizeReturns
+} from './calculationUtils';
+import { formatCurrency, formatNumber, formatPercentage } from './formatting/index';
+
+interface ComparisonKPIDefinition {
+  label: string;
+  format: (value: number) => string;
+  // Rates change by percentage points rather than by a percentage of themselves
+  rate?: boolean;
+  // A rise is bad news, e.g. more returns
+  lowerIsBetter?: boolean;
+  value: (metrics: SalesMetrics[]) => number;
+}
+
+export const COMPARISON_KPIS: Record<ComparisonKPI, ComparisonKPIDefinition> = {
+  netSales: {
+    label: 'Net Sales',
+    format: formatCurrency,
+    value: metrics => summarizeReturns(metrics).net.salesAmount
+  },
+  margin: {
+    label: 'Margin',
+    format: formatCurrency,
+    value: metrics => summarizeReturns(metrics).net.marginAmount
+  },
+  units: {
+    label: 'Units Sold',
+    format: formatNumber,
+    value: metrics => summarizeReturns(metrics).net.quantity
+  },
+  returns: {
+    label: 'Returns',
+    format: formatCurrency,
+    lowerIsBetter: true,
+    value: metrics => summarizeReturns(metrics).returns.salesAmount
+  },
+  attachmentRate: {
+    label: 'Attachment Rate',
+    format: value => `${value.toFixed(2)}%`,
+    rate: true,
+    value: calculateAttachmentRate
+  },
+  avgSalesPerUnit: {
+    label: 'Avg Sales/Unit',
+    format: formatCurrency,
+    value: calculateAverageSalesPerUnit
+  },
+  revenueRatio: {
+    label: 'Revenue Ratio',
+    format: value => `${value.toFixed(2)}%`,
+    rate: true,
+    value: calculateRevenueRatio
+  },
+  marginRate: {
+    label: 'Margin Rate',
+    format: value => `${value.toFixed(2)}%`,
+    rate: true,
+    value: calculateBlendedMarginRate
+  }
+};
+
+export const calculateDelta = (current: number, previous: number): KPIDelta => ({
+  current,
+  previous,
+  change: current - previous,
+  percentage: previous !== 0 ? (current - previous) / Math.abs(previous) : null
+});
+
+// Every KPI for the selected period against the comparison period
+export const compareKPIs = (
+  current: SalesMetrics[],
+  previous: SalesMetrics[]
+): Record<ComparisonKPI, KPIDelta> => Object.fromEntries(
+  (Object.keys(COMPARISON_KPIS) as ComparisonKPI[]).map(kpi => {
+    const { value } = COMPARISON_KPIS[kpi];
+    return [kpi, calculateDelta(value(current), value(previous))];
+  })
+) as Record<ComparisonKPI, KPIDelta>;
+
+// "12.3%" or, for rates, "1.5 pts"; null when there is nothing to compare with
+export const formatDelta = (kpi: ComparisonKPI, delta: KPIDelta): string | null => {
+  if (COMPARISON_KPIS[kpi].rate) return `${Math.abs(delta.change).toFixed(1)} pts`;
+  return delta.percentage === null ? null : formatPercentage(Math.abs(delta.percentage));
+};
@@ -4,4 +4,5 @@ export * from './dateUtils/types';
 export * from './dateUtils/ranges';
 export * from './dateUtils/filters';
 export * from './dateUtils/formatters';
-export * from './dateUtils/timezone';
\ No newline at end of file
+export * from './dateUtils/timezone';
+export * from './dateUtils/comparison';
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getComparisonDates } from './comparison';
+
+// Today, as the date range selections see it
+const today = vi.hoisted(() => new Date(2024, 9, 18));
+
+vi.mock('./constants', async importOriginal => ({
+  ...await importOriginal<typeof import('./constants')>(),
+  CURRENT_DATE: today
+}));
+
+const setToday = (year: number, month: number, day: number) => {
+  today.setTime(new Date(year, month, day).getTime());
+};
+
+const period = (start: Date, end: Date) => ({ startDate: start, endDate: end });
+
+describe('getComparisonDates', () => {
+  beforeEach(() => setToday(2024, 9, 18));
+
+  it('is null until the selection is complete', () => {
+    expect(getComparisonDates('monthly', undefined, undefined, 'previous')).toBeNull();
+    expect(getComparisonDates('custom', { startDate: new Date(2024, 9, 1), endDate: null }, undefined, 'previous'))
+      .toBeNull();
+  });
+
+  describe('month to date', () => {
+    it('compares with the whole of last month', () => {
+      expect(getComparisonDates('mtd', undefined, undefined, 'previous'))
+        .toEqual(period(new Date(2024, 8, 1), new Date(2024, 8, 30)));
+    });
+
+    it('compares with the same days of last month', () => {
+      expect(getComparisonDates('mtd', undefined, undefined, 'sameDays'))
+        .toEqual(period(new Date(2024, 8, 1), new Date(2024, 8, 18)));
+    });
+
+    it('compares with the same days last year', () => {
+      expect(getComparisonDates('mtd', undefined, undefined, 'lastYear'))
+        .toEqual(period(new Date(2023, 9, 1), new Date(2023, 9, 18)));
+    });
+
+    it('keeps to the end of a shorter previous month', () => {
+      setToday(2024, 2, 30);
+
+      expect(getComparisonDates('mtd', undefined, undefined, 'sameDays'))
+        .toEqual(period(new Date(2024, 1, 1), new Date(2024, 1, 29)));
+    });
+  });
+
+  it('compares a finished month with the whole previous month whatever the basis', () => {
+    const march = { month: 2, year: 2024 };
+
+    expect(getComparisonDates('monthly', undefined, march, 'previous'))
+      .toEqual(period(new Date(2024, 1, 1), new Date(2024, 1, 29)));
+    expect(getComparisonDates('monthly', undefined, march, 'sameDays'))
+      .toEqual(period(new Date(2024, 1, 1), new Date(2024, 1, 29)));
+    expect(getComparisonDates('monthly', undefined, march, 'lastYear'))
+      .toEqual(period(new Date(2023, 2, 1), new Date(2023, 2, 31)));
+  });
+
+  it('cuts a quarter under way to the same days, keeping to month ends', () => {
+    setToday(2024, 4, 30);
+    const secondQuarter = { quarter: 1, year: 2024 };
+
+    expect(getComparisonDates('quarterly', undefined, secondQuarter, 'sameDays'))
+      .toEqual(period(new Date(2024, 0, 1), new Date(2024, 1, 29)));
+    expect(getComparisonDates('quarterly', undefined, secondQuarter, 'previous'))
+      .toEqual(period(new Date(2024, 0, 1), new Date(2024, 2, 31)));
+  });
+
+  describe('custom ranges', () => {
+    const range = { startDate: new Date(2024, 9, 10), endDate: new Date(2024, 9, 16) };
+
+    it('compares with the same number of days just before', () => {
+      const before = period(new Date(2024, 9, 3), new Date(2024, 9, 9));
+
+      expect(getComparisonDates('custom', range, undefined, 'previous')).toEqual(before);
+      expect(getComparisonDates('custom', range, undefined, 'sameDays')).toEqual(before);
+    });
+
+    it('moves a leap day back to 28 February last year', () => {
+      const leapDay = { startDate: new Date(2024, 1, 29), endDate: new Date(2024, 1, 29) };
+
+      expect(getComparisonDates('custom', leapDay, undefined, 'lastYear'))
+        .toEqual(period(new Date(2023, 1, 28), new Date(2023, 1, 28)));
+    });
+  });
+});
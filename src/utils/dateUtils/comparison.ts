@@ -0,0 +1,87 @@
+import { DateRange, DateSelection, SelectedPeriod } from './types';
+import { getSelectionDates } from './ranges';
+
+// What the selected period is compared with
+export type ComparisonBasis = 'previous' | 'sameDays' | 'lastYear';
+
+export interface ComparisonWindow {
+  startDate: Date;
+  endDate: Date;
+}
+
+export const COMPARISON_BASES: Record<ComparisonBasis, string> = {
+  previous: 'Previous period',
+  sameDays: 'Same days of previous period',
+  lastYear: 'Same period last year'
+};
+
+const PERIOD_MONTHS: Partial<Record<DateRange, number>> = {
+  mtd: 1,
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12
+};
+
+const PERIOD_NAMES: Partial<Record<DateRange, string>> = {
+  mtd: 'Month',
+  monthly: 'Month',
+  quarterly: 'Quarter',
+  yearly: 'Year'
+};
+
+// Moves a date by whole months, keeping to the last day of shorter months (31 March -> 28 February)
+const shiftMonths = (date: Date, months: number): Date => {
+  const lastDay = new Date(date.getFullYear(), date.getMonth() + months + 1, 0).getDate();
+  return new Date(date.getFullYear(), date.getMonth() + months, Math.min(date.getDate(), lastDay));
+};
+
+const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+/**
+ * The days the selected period is compared with:
+ * - previous: the whole period before, e.g. all of last month for month to date
+ * - sameDays: the period before cut to the same days, e.g. 1-18 September
+ *   against 1-18 October, so a part-finished period is compared like for like
+ * - lastYear: the same days a year earlier
+ * Custom ranges compare with the same number of days just before them, so
+ * previous and sameDays agree. Null until the selection is complete.
+ */
+export const getComparisonDates = (
+  range: DateRange,
+  customRange: DateSelection | undefined,
+  selectedPeriod: SelectedPeriod | undefined,
+  basis: ComparisonBasis
+): ComparisonWindow | null => {
+  const current = getSelectionDates(range, customRange, selectedPeriod);
+  if (!current) return null;
+
+  const months = PERIOD_MONTHS[range];
+  if (!months) {
+    if (basis === 'lastYear') {
+      return { startDate: shiftMonths(current.startDate, -12), endDate: shiftMonths(current.endDate, -12) };
+    }
+    const days = Math.round((current.endDate.getTime() - current.startDate.getTime()) / 86400000);
+    const endDate = addDays(current.startDate, -1);
+    return { startDate: addDays(endDate, -days), endDate };
+  }
+
+  // Months, quarters and years still under way end today rather than on their last day
+  const finished = current.endDate >= addDays(shiftMonths(current.startDate, months), -1);
+  const offset = basis === 'lastYear' ? 12 : months;
+  const startDate = shiftMonths(current.startDate, -offset);
+  const periodEnd = addDays(shiftMonths(startDate, months), -1);
+  if (basis === 'previous' || finished) {
+    return { startDate, endDate: periodEnd };
+  }
+
+  return { startDate, endDate: shiftMonths(current.endDate, -offset) };
+};
+
+// e.g. "vs Same Days Last Month"
+export const getComparisonLabel = (range: DateRange, basis: ComparisonBasis): string => {
+  const period = PERIOD_NAMES[range];
+  if (basis === 'lastYear') return 'vs Same Period Last Year';
+  if (!period) return 'vs Previous Period';
+  return basis === 'sameDays' ? `vs Same Days Last ${period}` : `vs Last ${period}`;
+};
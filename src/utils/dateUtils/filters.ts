@@ -27,13 +27,13 @@ export const isInDateRange = (
             targetDate.getDate() <= now.getDate();
 
     case 'monthly': {
-      if (!selectedPeriod?.month || !selectedPeriod?.year) return false;
+      if (selectedPeriod?.month === undefined || !selectedPeriod?.year) return false;
       const { startDate, endDate } = getMonthDates(selectedPeriod.month, selectedPeriod.year);
       return targetDate >= startDate && targetDate <= endDate;
     }
 
     case 'quarterly': {
-      if (!selectedPeriod?.quarter || !selectedPeriod?.year) return false;
+      if (selectedPeriod?.quarter === undefined || !selectedPeriod?.year) return false;
       const { startDate, endDate } = getQuarterDates(selectedPeriod.quarter, selectedPeriod.year);
       return targetDate >= startDate && targetDate <= endDate;
     }
@@ -1,11 +1,13 @@
 // Export types
 export type { DateRange, DateSelection, SelectedPeriod } from './types';
+export type { ComparisonBasis, ComparisonWindow } from './comparison';
 
 // Export constants
 export { dateRanges, CURRENT_DATE } from './constants';
 
 // Export date utilities
-export { getQuarterDates, getMonthDates, getYearDates } from './ranges';
+export { getQuarterDates, getMonthDates, getYearDates, getSelectionDates } from './ranges';
+export { COMPARISON_BASES, getComparisonDates, getComparisonLabel } from './comparison';
 export { isInDateRange, filterMetricsByDateRange } from './filters';
 export { formatDistanceToNow, getDateRangeLabel } from './formatters';
 export { toNZDateTime, createNZTimestamp } from './timezone';
\ No newline at end of file
@@ -42,6 +42,57 @@ export const parseDateString = (value: string): Date | null => {
   }
 };
 
+export type DateFormat = 'dd/mm/yyyy' | 'iso' | 'excel-serial';
+
+// Every format an import date may be written in, in the order they are tried
+export const DATE_FORMATS: DateFormat[] = ['dd/mm/yyyy', 'iso', 'excel-serial'];
+
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:[T ].*)?$/;
+const SERIAL_DATE_PATTERN = /^\d+(\.\d+)?$/;
+
+const toLocalDate = (year: number, month: number, day: number): Date | null => {
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null; // Rolled over, e.g. 31/04
+  }
+  return date;
+};
+
+const parseWithFormat = (text: string, format: DateFormat): Date | null => {
+  switch (format) {
+    case 'dd/mm/yyyy':
+      return parseDateString(text);
+    case 'iso': {
+      const match = text.match(ISO_DATE_PATTERN);
+      return match ? toLocalDate(Number(match[1]), Number(match[2]), Number(match[3])) : null;
+    }
+    case 'excel-serial': {
+      if (!SERIAL_DATE_PATTERN.test(text)) return null;
+      // Excel counts days from 30/12/1899 (ignoring its 1900 leap-year bug)
+      const date = new Date(1899, 11, 30 + Math.floor(Number(text)));
+      return isNaN(date.getTime()) ? null : date;
+    }
+  }
+};
+
+/**
+ * Parses an import date cell as local midnight, trying each format in turn.
+ * Date objects, as read with cellDates, are accepted whatever the formats.
+ */
+export const parseImportDate = (value: unknown, formats: DateFormat[] = DATE_FORMATS): Date | null => {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : new Date(value.getFullYear(), value.getMonth(), value.getDate());
+  }
+  if (value === undefined || value === null || value === '') return null;
+
+  const text = String(value).trim();
+  for (const format of formats) {
+    const date = parseWithFormat(text, format);
+    if (date) return date;
+  }
+  return null;
+};
+
 /**
  * Formats a date to dd/mm/yyyy string
  */
@@ -1,4 +1,5 @@
 import { CURRENT_DATE } from './constants';
+import { DateRange, DateSelection, SelectedPeriod } from './types';
 
 export const getQuarterDates = (quarter: number, year: number) => {
   const startMonth = quarter * 3;
@@ -35,4 +36,58 @@ export const getYearDates = (year: number) => {
   }
   
   return { startDate, endDate };
-};
\ No newline at end of file
+};
+
+/**
+ * First and last day of a date range selection, the same days isInDateRange
+ * accepts. With `includePrevious` the start moves back one period so the
+ * selection can be compared with the period before it.
+ */
+export const getSelectionDates = (
+  range: DateRange,
+  customRange?: DateSelection,
+  selectedPeriod?: SelectedPeriod,
+  options: { includePrevious?: boolean } = {}
+): { startDate: Date; endDate: Date } | null => {
+  let dates: { startDate: Date; endDate: Date } | null = null;
+  let previousMonths = 0;
+
+  switch (range) {
+    case 'mtd':
+      dates = {
+        startDate: new Date(CURRENT_DATE.getFullYear(), CURRENT_DATE.getMonth(), 1),
+        endDate: new Date(CURRENT_DATE)
+      };
+      previousMonths = 1;
+      break;
+    case 'monthly':
+      if (selectedPeriod?.month !== undefined) dates = getMonthDates(selectedPeriod.month, selectedPeriod.year);
+      previousMonths = 1;
+      break;
+    case 'quarterly':
+      if (selectedPeriod?.quarter !== undefined) dates = getQuarterDates(selectedPeriod.quarter, selectedPeriod.year);
+      previousMonths = 3;
+      break;
+    case 'yearly':
+      if (selectedPeriod?.year) dates = getYearDates(selectedPeriod.year);
+      previousMonths = 12;
+      break;
+    case 'custom':
+      if (customRange?.startDate && customRange?.endDate) {
+        dates = { startDate: new Date(customRange.startDate), endDate: new Date(customRange.endDate) };
+        dates.startDate.setHours(0, 0, 0, 0);
+        dates.endDate.setHours(0, 0, 0, 0);
+      }
+      break;
+  }
+
+  if (!dates || !options.includePrevious) return dates;
+
+  const startDate = new Date(dates.startDate);
+  if (previousMonths) {
+    startDate.setMonth(startDate.getMonth() - previousMonths);
+  } else {
+    startDate.setDate(startDate.getDate() - Math.round((dates.endDate.getTime() - dates.startDate.getTime()) / 86400000) - 1);
+  }
+  return { startDate, endDate: dates.endDate };
+};
@@ -0,0 +1,49 @@
+// Cells the browser import and the import function in functions/src/imports
+// must read the same way. Both parsers' tests run every case against a row of
+// '15/10/2024', '101', 'ST001' and one Cellnet sale, with the one cell swapped
+// in. `expected` is the value read, or null when the row is rejected.
+// Plain data only, so the functions package can import it too.
+
+export type ImportRuleField = 'date' | 'branchNumber' | 'staffCode' | 'quantity' | 'salesAmount';
+
+export interface ImportRuleCase {
+  field: ImportRuleField;
+  cell: string;
+  // Dates as [year, month, day]
+  expected: string | number | [number, number, number] | null;
+}
+
+export const IMPORT_RULE_CASES: ImportRuleCase[] = [
+  { field: 'date', cell: '15/10/2024', expected: [2024, 10, 15] },
+  { field: 'date', cell: '5/1/2024', expected: [2024, 1, 5] },
+  { field: 'date', cell: '2024-10-15', expected: [2024, 10, 15] },
+  { field: 'date', cell: '45580', expected: [2024, 10, 15] },
+  { field: 'date', cell: '31/04/2024', expected: null },
+  { field: 'date', cell: '15/10/1850', expected: null },
+  { field: 'date', cell: '10-15-2024', expected: null },
+  { field: 'date', cell: 'yesterday', expected: null },
+
+  { field: 'branchNumber', cell: '101', expected: '101' },
+  { field: 'branchNumber', cell: ' B-12 ', expected: 'B-12' },
+  { field: 'branchNumber', cell: 'B!@#', expected: null },
+  { field: 'branchNumber', cell: 'BR12345678901', expected: null },
+  { field: 'branchNumber', cell: '', expected: null },
+
+  { field: 'staffCode', cell: 'ST001', expected: 'ST001' },
+  { field: 'staffCode', cell: 'ST 001', expected: null },
+  { field: 'staffCode', cell: 'S'.repeat(21), expected: null },
+
+  { field: 'quantity', cell: '2', expected: 2 },
+  { field: 'quantity', cell: '-1', expected: -1 },
+  { field: 'quantity', cell: '1,234', expected: 1234 },
+  { field: 'quantity', cell: '', expected: 0 },
+  { field: 'quantity', cell: '2.5', expected: null },
+  { field: 'quantity', cell: 'abc', expected: null },
+
+  { field: 'salesAmount', cell: '59.98', expected: 59.98 },
+  { field: 'salesAmount', cell: '-29.99', expected: -29.99 },
+  { field: 'salesAmount', cell: '1,019.996', expected: 1020 },
+  { field: 'salesAmount', cell: '8.504', expected: 8.5 },
+  { field: 'salesAmount', cell: '', expected: 0 },
+  { field: 'salesAmount', cell: '$10', expected: null }
+];
@@ -0,0 +1,47 @@
+import { DEFAULT_SUPPLIERS } from '../../../data/suppliers';
+import { getExpectedHeaders } from '../../validation/columnDefinitions';
+
+// Quantity, sales and margin for one supplier, as the cells appear in an export
+type SupplierCells = [unknown, unknown, unknown];
+
+export const HEADER = getExpectedHeaders(DEFAULT_SUPPLIERS);
+
+// A row in canonical column order; suppliers left out are blank
+export const salesRow = (
+  date: unknown,
+  branchNumber: unknown,
+  staffCode: unknown,
+  ...suppliers: SupplierCells[]
+): unknown[] => {
+  const cells: unknown[] = [date, branchNumber, staffCode];
+  DEFAULT_SUPPLIERS.forEach((_, index) => cells.push(...(suppliers[index] || ['', '', ''])));
+  return cells;
+};
+
+// 15 October 2024 in each date format the importer reads
+export const DATE_CELLS = {
+  'dd/mm/yyyy': '15/10/2024',
+  iso: '2024-10-15',
+  'excel-serial': '45580'
+} as const;
+
+export const SALE_DAY = new Date(2024, 9, 15);
+
+export const SALE_ROW = salesRow('15/10/2024', '101', 'ST001', ['2', '59.98', '24.10'], ['1', '29.99', '12']);
+
+export const RETURN_ROW = salesRow('15/10/2024', '101', 'ST001', ['-1', '-29.99', '-12.05']);
+
+export const FRACTIONAL_QUANTITY_ROW = salesRow('15/10/2024', '101', 'ST001', ['2.6', '59.98', '24.10']);
+
+export const LONG_AMOUNT_ROW = salesRow('15/10/2024', '101', 'ST001', ['1', '1,019.996', '8.504']);
+
+// Sheet with a header, good rows, a blank row and rows that fail to parse
+export const MIXED_SHEET: unknown[][] = [
+  HEADER,
+  SALE_ROW,
+  salesRow('31/04/2024', '101', 'ST001', ['1', '10', '4']),
+  salesRow('', '', ''),
+  salesRow('16/10/2024', '205', '', ['1', '10', '4']),
+  salesRow('16/10/2024', '205', 'ST010', ['one', '10', '4']),
+  salesRow('2024-10-16', '205', 'ST010', ['3', '89.97', '36.40'])
+];
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_SUPPLIERS } from '../../data/suppliers';
+import { getColumnDefinitions } from '../validation/columnDefinitions';
+import { applyColumnMapping, detectColumnMapping, mappingToAliases } from './columnMapping';
+
+const COLUMNS = getColumnDefinitions(DEFAULT_SUPPLIERS);
+
+// An export with its own header names, extra columns and a different order
+const EXPORT_HEADER = ['Staff', 'Notes', 'Trans Date', 'Store No', 'Cellnet Qty', 'Cellnet Revenue', 'Cellnet GP'];
+const EXPORT_ROW = ['ST001', 'till 2', '15/10/2024', '101', '2', '59.98', '24.10'];
+
+describe('detectColumnMapping', () => {
+  it('matches headers by built-in alias, ignoring case and punctuation', () => {
+    const { mapping } = detectColumnMapping(['DATE', 'branch-number', 'Staff  Code'], null, COLUMNS);
+
+    expect(mapping).toEqual({ date: 0, branchNumber: 1, staffCode: 2 });
+  });
+
+  it("checks the profile's aliases first", () => {
+    const profile = { id: 'pos', name: 'POS', aliases: { staffCode: ['Notes'] } };
+
+    expect(detectColumnMapping(EXPORT_HEADER, profile, COLUMNS).mapping.staffCode).toBe(1);
+  });
+
+  it('lists required fields it could not find, but not optional columns', () => {
+    const { missingFields } = detectColumnMapping(EXPORT_HEADER, null, COLUMNS);
+
+    expect(missingFields).toContain('likewizeAccQuantity');
+    expect(missingFields).toContain('likewizeDeviceQuantity');
+    expect(missingFields).not.toContain('likewizeDeviceSales');
+    expect(missingFields).not.toContain('cellnetQuantity');
+  });
+});
+
+describe('applyColumnMapping', () => {
+  it('puts mapped cells in canonical order and leaves unmapped fields blank', () => {
+    const { mapping } = detectColumnMapping(EXPORT_HEADER, null, COLUMNS);
+    const [header, row] = applyColumnMapping([EXPORT_HEADER, EXPORT_ROW], mapping, COLUMNS);
+
+    expect(header).toEqual(COLUMNS.map(col => col.name));
+    expect(row.slice(0, 6)).toEqual(['15/10/2024', '101', 'ST001', '2', '59.98', '24.10']);
+    expect(row.slice(6).every((cell: unknown) => cell === '')).toBe(true);
+  });
+
+  it('keeps blank rows blank', () => {
+    const [, row] = applyColumnMapping([EXPORT_HEADER, null], { date: 2 }, COLUMNS);
+
+    expect(row).toEqual(COLUMNS.map(() => ''));
+  });
+});
+
+describe('mappingToAliases', () => {
+  it('turns a confirmed mapping into aliases that detect it again', () => {
+    const { mapping } = detectColumnMapping(EXPORT_HEADER, null, COLUMNS);
+    const profile = { id: 'pos', name: 'POS', aliases: mappingToAliases(EXPORT_HEADER, mapping) };
+
+    expect(profile.aliases.date).toEqual(['Trans Date']);
+    expect(detectColumnMapping(EXPORT_HEADER, profile, COLUMNS).mapping).toEqual(mapping);
+  });
+});
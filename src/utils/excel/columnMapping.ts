@@ -0,0 +1,120 @@
+import { getColumnDefinitions } from '../validation/columnDefinitions';
+import { ColumnDefinition } from '../validation/types';
+import { logOperation } from '../../services/firebase/logging';
+
+// A column definition's field: a SalesDataRow base field or a supplier field
+export type SalesDataField = string;
+
+// Column index in the uploaded sheet for each field
+export type ColumnMapping = Partial<Record<SalesDataField, number>>;
+
+export interface ColumnMappingProfile {
+  id: string;
+  name: string;
+  // Extra header names per field, checked before the built-in aliases
+  aliases: Record<SalesDataField, string[]>;
+}
+
+export interface ColumnMappingResult {
+  headers: string[];
+  mapping: ColumnMapping;
+  missingFields: SalesDataField[];
+}
+
+// Compare headers ignoring case, spacing and punctuation
+const normalizeHeader = (header: unknown): string =>
+  String(header ?? '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export const getFieldLabel = (
+  field: SalesDataField,
+  columns: ColumnDefinition[] = getColumnDefinitions()
+): string =>
+  columns.find(col => col.field === field)?.name || field;
+
+export const getMissingFields = (
+  mapping: ColumnMapping,
+  columns: ColumnDefinition[] = getColumnDefinitions()
+): SalesDataField[] =>
+  columns
+    .filter(col => !col.optionalColumn)
+    .map(col => col.field)
+    .filter(field => mapping[field] === undefined);
+
+/**
+ * Matches each expected field to a header in the sheet by name, using the
+ * profile's aliases first and then the built-in ones. A header is only ever
+ * assigned to one field.
+ */
+export const detectColumnMapping = (
+  headerRow: unknown[],
+  profile?: ColumnMappingProfile | null,
+  columns: ColumnDefinition[] = getColumnDefinitions()
+): ColumnMappingResult => {
+  const headers = (headerRow || []).map(header => String(header ?? '').trim());
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping: ColumnMapping = {};
+
+  columns.forEach(col => {
+    const candidates = [
+      ...(profile?.aliases[col.field] || []),
+      col.name,
+      ...(col.aliases || [])
+    ].map(normalizeHeader);
+
+    const index = candidates
+      .map(candidate => normalized.findIndex((header, i) => header === candidate && !used.has(i)))
+      .find(i => i !== -1);
+
+    if (index !== undefined) {
+      mapping[col.field] = index;
+      used.add(index);
+    }
+  });
+
+  const missingFields = getMissingFields(mapping, columns);
+  logOperation('detectColumnMapping', missingFields.length ? 'warning' : 'success', {
+    headers: headers.length,
+    mapped: Object.keys(mapping).length,
+    missingFields
+  });
+
+  return { headers, mapping, missingFields };
+};
+
+/**
+ * Rearranges sheet rows into the canonical column order so validation and
+ * parsing can keep reading columns by position. Unmapped columns are dropped.
+ */
+export const applyColumnMapping = (
+  data: any[],
+  mapping: ColumnMapping,
+  columns: ColumnDefinition[] = getColumnDefinitions()
+): any[] => {
+  const rows = data.slice(1).map(row =>
+    columns.map(col => {
+      const index = mapping[col.field];
+      return index === undefined || !row ? '' : row[index] ?? '';
+    })
+  );
+
+  return [columns.map(col => col.name), ...rows];
+};
+
+/**
+ * Turns a confirmed mapping into profile aliases keyed by the sheet's header
+ * names, so the same export layout is recognised next time.
+ */
+export const mappingToAliases = (
+  headers: string[],
+  mapping: ColumnMapping
+): ColumnMappingProfile['aliases'] => {
+  const aliases: ColumnMappingProfile['aliases'] = {};
+  (Object.keys(mapping) as SalesDataField[]).forEach(field => {
+    const header = headers[mapping[field]!];
+    if (header) {
+      aliases[field] = [header];
+    }
+  });
+  return aliases;
+};
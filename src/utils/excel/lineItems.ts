@@ -0,0 +1,362 @@
+import { ColumnDefinition, ValidationError } from '../validation/types';
+import { BASE_COLUMN_DEFINITIONS } from '../validation/columnDefinitions';
+import { isValidNumber } from '../validation/validators';
+import { validateRow } from '../validation/rowValidator';
+import { SheetData, RejectedRow } from './types';
+import { ValidatedSheet, SheetValidationResult } from './sheets';
+import {
+  ColumnMapping,
+  ColumnMappingProfile,
+  detectColumnMapping,
+  applyColumnMapping,
+  mappingToAliases,
+  getFieldLabel
+} from './columnMapping';
+import { parseDateValue, parseQuantity, parseAmount, ParsingPolicy, DEFAULT_PARSING_POLICY } from './parsing';
+import { SalesDataRow, SalesLineValues } from '../../types/import';
+import { Product, Supplier } from '../../types';
+import { ProductCatalogue } from '../../services/products';
+import { findCategory, UNCATEGORISED_ID } from '../../data/products';
+import { getSuppliers } from '../../data/suppliers';
+import { logOperation } from '../../services/firebase/logging';
+
+const acceptAny = () => ({ isValid: true });
+
+/**
+ * Layout of a line-level POS export: one row per SKU sold. Supplier and
+ * category are only needed for SKUs not yet in the product catalogue.
+ */
+export const LINE_COLUMN_DEFINITIONS: ColumnDefinition[] = [
+  ...BASE_COLUMN_DEFINITIONS,
+  {
+    field: 'sku',
+    name: 'SKU',
+    aliases: ['Product Code', 'Item Code', 'Article Number', 'Product SKU'],
+    type: 'string',
+    required: true,
+    validate: acceptAny
+  },
+  {
+    field: 'productName',
+    name: 'Product Name',
+    aliases: ['Description', 'Item Description', 'Product'],
+    type: 'string',
+    required: false,
+    validate: acceptAny,
+    optionalColumn: true
+  },
+  {
+    field: 'supplierName',
+    name: 'Supplier',
+    aliases: ['Supplier Name', 'Vendor'],
+    type: 'string',
+    required: false,
+    validate: acceptAny,
+    optionalColumn: true
+  },
+  {
+    field: 'categoryName',
+    name: 'Category',
+    aliases: ['Product Category', 'Accessory Category'],
+    type: 'string',
+    required: false,
+    validate: acceptAny,
+    optionalColumn: true
+  },
+  {
+    field: 'lineQuantity',
+    name: 'Quantity',
+    aliases: ['Qty', 'Units', 'Quantity Sold'],
+    type: 'number',
+    required: true,
+    validate: (value) => isValidNumber(value, true) // true for integers only
+  },
+  {
+    field: 'lineSales',
+    name: 'Sales',
+    aliases: ['Sales Value', 'Sales Amount', 'Revenue'],
+    type: 'number',
+    required: false,
+    validate: isValidNumber
+  },
+  {
+    field: 'lineMargin',
+    name: 'Margin',
+    aliases: ['GP', 'Margin Amount'],
+    type: 'number',
+    required: false,
+    validate: isValidNumber
+  }
+];
+
+// Cell positions once a sheet is in LINE_COLUMN_DEFINITIONS order
+const LINE_INDEX = Object.fromEntries(
+  LINE_COLUMN_DEFINITIONS.map((col, index) => [col.field, index])
+) as Record<string, number>;
+
+export interface ParsedSalesLine extends SalesLineValues {
+  date: Date;
+  branchNumber: string;
+  staffCode: string;
+}
+
+export interface SalesLineParseResult {
+  lines: ParsedSalesLine[];
+  rejected: RejectedRow[];
+  // SKUs first seen in this file, to add to the catalogue once imported
+  newProducts: Product[];
+}
+
+const isEmpty = (value: unknown): boolean =>
+  value === undefined || value === null || value === '';
+
+const text = (value: unknown): string => (isEmpty(value) ? '' : String(value).trim());
+
+/**
+ * Whether a sheet is a line-level export rather than the one-row-per-salesperson
+ * supplier layout. Line-level exports are recognised by their SKU column.
+ */
+export const isLineLevelExport = (headerRow: unknown[], profile?: ColumnMappingProfile | null): boolean =>
+  detectColumnMapping(headerRow, profile, LINE_COLUMN_DEFINITIONS).mapping.sku !== undefined;
+
+const findSupplier = (suppliers: Supplier[], value: string): Supplier | undefined => {
+  const normalized = value.toLowerCase();
+  return suppliers.find(supplier =>
+    supplier.name.toLowerCase() === normalized || supplier.importKey.toLowerCase() === normalized
+  );
+};
+
+/**
+ * Works out the supplier and category of each row's SKU, from the catalogue or
+ * from the row's Supplier and Category columns for SKUs not seen before.
+ */
+const resolveProduct = (
+  row: any[],
+  catalogue: Map<string, Product>,
+  categories: ProductCatalogue['categories'],
+  suppliers: Supplier[]
+): { product: Product; isNew: boolean } => {
+  const sku = text(row[LINE_INDEX.sku]);
+  const known = catalogue.get(sku);
+  if (known) return { product: known, isNew: false };
+
+  const supplierName = text(row[LINE_INDEX.supplierName]);
+  if (!supplierName) {
+    throw new Error(`SKU ${sku} is not in the product catalogue and the row has no Supplier`);
+  }
+  const supplier = findSupplier(suppliers, supplierName);
+  if (!supplier) {
+    throw new Error(`Unknown supplier "${supplierName}" for SKU ${sku}`);
+  }
+
+  const categoryName = text(row[LINE_INDEX.categoryName]);
+  const category = categoryName ? findCategory(categories, categoryName) : undefined;
+  if (categoryName && !category) {
+    throw new Error(`Unknown category "${categoryName}" for SKU ${sku}`);
+  }
+
+  return {
+    product: {
+      sku,
+      name: text(row[LINE_INDEX.productName]) || sku,
+      supplierId: supplier.id,
+      categoryId: category?.id || UNCATEGORISED_ID
+    },
+    isNew: true
+  };
+};
+
+/**
+ * Applies a mapping confirmed on the first sheet to every selected sheet and
+ * checks each row against LINE_COLUMN_DEFINITIONS. The mapped sheets keep date,
+ * branch number and staff code first, like the supplier layout, so reference
+ * checks work on either.
+ */
+export const validateLineSheets = (
+  sheets: SheetData[],
+  headers: string[],
+  mapping: ColumnMapping
+): SheetValidationResult => {
+  const confirmedProfile = {
+    id: '',
+    name: '',
+    aliases: mappingToAliases(headers, mapping)
+  };
+  const tagSheet = sheets.length > 1;
+  const errors: ValidationError[] = [];
+  const mappedSheets: ValidatedSheet[] = [];
+
+  sheets.forEach((sheet, index) => {
+    const sheetMapping = index === 0
+      ? { mapping, missingFields: [] }
+      : detectColumnMapping(sheet.data[0], confirmedProfile, LINE_COLUMN_DEFINITIONS);
+    const sheetName = tagSheet ? sheet.name : undefined;
+
+    if (sheetMapping.missingFields.length > 0) {
+      errors.push({
+        row: 1,
+        sheet: sheetName,
+        message: `Missing columns: ${sheetMapping.missingFields
+          .map(field => getFieldLabel(field, LINE_COLUMN_DEFINITIONS))
+          .join(', ')}`
+      });
+      return;
+    }
+
+    const data = applyColumnMapping(sheet.data, sheetMapping.mapping, LINE_COLUMN_DEFINITIONS);
+    const sheetErrors = data.length < 2
+      ? [{ row: 0, sheet: sheetName, message: 'Invalid or empty Excel file' }]
+      : data.slice(1).flatMap((row, rowIndex) =>
+          validateRow(row, rowIndex + 2, LINE_COLUMN_DEFINITIONS).map(error => ({ ...error, sheet: sheetName }))
+        );
+    errors.push(...sheetErrors);
+    mappedSheets.push({ name: sheet.name, label: sheetName, data, errors: sheetErrors, warnings: [] });
+  });
+
+  return { sheets: mappedSheets, errors, warnings: [] };
+};
+
+/**
+ * Row errors for SKUs that cannot be placed under a supplier, so they block the
+ * import or are set aside like any other invalid row.
+ */
+export const findUnresolvedProducts = (
+  sheets: ValidatedSheet[],
+  catalogue: ProductCatalogue,
+  suppliers: Supplier[] = getSuppliers()
+): ValidationError[] => {
+  const products = new Map(catalogue.products.map(product => [product.sku, product]));
+
+  return sheets.flatMap(sheet =>
+    sheet.data.slice(1).flatMap((row: any[], index: number) => {
+      if (!row || row.every(isEmpty) || !text(row[LINE_INDEX.sku])) return [];
+      try {
+        resolveProduct(row, products, catalogue.categories, suppliers);
+        return [];
+      } catch (error) {
+        return [{ row: index + 2, sheet: sheet.label, column: 'SKU', message: (error as Error).message }];
+      }
+    })
+  );
+};
+
+/**
+ * Parses mapped line rows. Unless `collectRejects` is set, the first failing
+ * row aborts parsing.
+ */
+export const parseSalesLines = (
+  data: any[],
+  catalogue: ProductCatalogue,
+  options: { policy?: ParsingPolicy; collectRejects?: boolean; sheet?: string; suppliers?: Supplier[] } = {}
+): SalesLineParseResult => {
+  const policy = options.policy || DEFAULT_PARSING_POLICY;
+  const suppliers = options.suppliers || getSuppliers();
+  const products = new Map(catalogue.products.map(product => [product.sku, product]));
+  const newProducts = new Map<string, Product>();
+  const lines: ParsedSalesLine[] = [];
+  const rejected: RejectedRow[] = [];
+
+  data.slice(1).forEach((row: any[], index: number) => {
+    if (!row || row.every(isEmpty)) return;
+
+    try {
+      const { product, isNew } = resolveProduct(row, products, catalogue.categories, suppliers);
+      if (isNew) {
+        // Later rows for the same SKU reuse the first row's supplier and category
+        products.set(product.sku, product);
+        newProducts.set(product.sku, product);
+      }
+
+      const branchNumber = text(row[LINE_INDEX.branchNumber]);
+      const staffCode = text(row[LINE_INDEX.staffCode]);
+      if (!branchNumber || !staffCode) {
+        throw new Error(`${branchNumber ? 'Staff Code' : 'Branch Number'} is required`);
+      }
+
+      lines.push({
+        date: parseDateValue(row[LINE_INDEX.date], policy),
+        branchNumber,
+        staffCode,
+        sku: product.sku,
+        supplierId: product.supplierId,
+        categoryId: product.categoryId,
+        quantity: parseQuantity(row[LINE_INDEX.lineQuantity], 'Quantity', policy),
+        salesAmount: parseAmount(row[LINE_INDEX.lineSales], 'Sales', policy),
+        marginAmount: parseAmount(row[LINE_INDEX.lineMargin], 'Margin', policy)
+      });
+    } catch (error) {
+      const message = `Error processing row ${index + 2}: ${(error as Error).message}`;
+      if (!options.collectRejects) {
+        logOperation('parseSalesLines', 'error', { row: index + 2, error });
+        throw new Error(message);
+      }
+      rejected.push({ sheet: options.sheet, row: index + 2, data: row, errors: [message] });
+    }
+  });
+
+  logOperation('parseSalesLines', rejected.length ? 'warning' : 'success', {
+    lineCount: lines.length,
+    rejectedCount: rejected.length,
+    newProducts: newProducts.size
+  });
+  return { lines, rejected, newProducts: [...newProducts.values()] };
+};
+
+const toDayKey = (date: Date): string =>
+  `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+
+/**
+ * Adds product lines up into one row per day, branch and staff code with the
+ * usual per-supplier totals, so stored supplier metrics always equal the sum
+ * of their lines. Suppliers with no lines that day get zero totals, which
+ * replaces any value an earlier import stored for them.
+ */
+export const aggregateSalesLines = (
+  lines: ParsedSalesLine[],
+  suppliers: Supplier[] = getSuppliers()
+): SalesDataRow[] => {
+  const rows = new Map<string, SalesDataRow & { lines: SalesLineValues[] }>();
+
+  lines.forEach(line => {
+    const key = [toDayKey(line.date), line.branchNumber, line.staffCode].join('|');
+    let row = rows.get(key);
+    if (!row) {
+      row = {
+        date: line.date,
+        branchNumber: line.branchNumber,
+        staffCode: line.staffCode,
+        suppliers: Object.fromEntries(suppliers.map(supplier => [
+          supplier.id,
+          { quantity: 0, salesAmount: 0, marginAmount: 0 }
+        ])),
+        lines: []
+      };
+      rows.set(key, row);
+    }
+
+    const totals = row.suppliers[line.supplierId] || { quantity: 0, salesAmount: 0, marginAmount: 0 };
+    totals.quantity += line.quantity;
+    totals.salesAmount = Number((totals.salesAmount + line.salesAmount).toFixed(2));
+    totals.marginAmount = Number((totals.marginAmount + line.marginAmount).toFixed(2));
+    row.suppliers[line.supplierId] = totals;
+
+    // The same SKU sold twice in a day becomes one line
+    const existing = row.lines.find(other => other.sku === line.sku);
+    if (existing) {
+      existing.quantity += line.quantity;
+      existing.salesAmount = Number((existing.salesAmount + line.salesAmount).toFixed(2));
+      existing.marginAmount = Number((existing.marginAmount + line.marginAmount).toFixed(2));
+    } else {
+      row.lines.push({
+        sku: line.sku,
+        supplierId: line.supplierId,
+        categoryId: line.categoryId,
+        quantity: line.quantity,
+        salesAmount: line.salesAmount,
+        marginAmount: line.marginAmount
+      });
+    }
+  });
+
+  return [...rows.values()];
+};
@@ -0,0 +1,205 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_PARSING_POLICY,
+  DateFormat,
+  ParsingPolicy,
+  parseSalesRow,
+  parseSalesRows
+} from './parsing';
+import { isValidDate } from '../validation/validators';
+import { validateRow } from '../validation/rowValidator';
+import { getColumnDefinitions } from '../validation/columnDefinitions';
+import { DEFAULT_SUPPLIERS } from '../../data/suppliers';
+import {
+  DATE_CELLS,
+  FRACTIONAL_QUANTITY_ROW,
+  LONG_AMOUNT_ROW,
+  MIXED_SHEET,
+  RETURN_ROW,
+  SALE_DAY,
+  SALE_ROW,
+  salesRow
+} from './__fixtures__/salesRows';
+import { IMPORT_RULE_CASES, ImportRuleCase } from './__fixtures__/importRules';
+
+const withPolicy = (overrides: Partial<ParsingPolicy>): ParsingPolicy => ({
+  ...DEFAULT_PARSING_POLICY,
+  ...overrides
+});
+
+describe('parseSalesRow', () => {
+  it('reads the row into supplier values', () => {
+    const row = parseSalesRow(SALE_ROW, 2);
+
+    expect(row.date).toEqual(SALE_DAY);
+    expect(row.branchNumber).toBe('101');
+    expect(row.staffCode).toBe('ST001');
+    expect(row.suppliers[1]).toEqual({ quantity: 2, salesAmount: 59.98, marginAmount: 24.1 });
+    expect(row.suppliers[2]).toEqual({ quantity: 1, salesAmount: 29.99, marginAmount: 12 });
+    expect(row.suppliers[3]).toEqual({ quantity: 0, salesAmount: 0, marginAmount: 0 });
+  });
+
+  it('requires a branch number and staff code', () => {
+    expect(() => parseSalesRow(salesRow('15/10/2024', '', 'ST001'), 4))
+      .toThrow('Error processing row 4: Branch Number is required');
+    expect(() => parseSalesRow(salesRow('15/10/2024', '101', ''), 4))
+      .toThrow('Error processing row 4: Staff Code is required');
+  });
+
+  describe('date formats', () => {
+    (Object.entries(DATE_CELLS) as [DateFormat, string][]).forEach(([format, cell]) => {
+      it(`reads ${format} dates as local midnight`, () => {
+        expect(parseSalesRow(salesRow(cell, '101', 'ST001'), 2).date).toEqual(SALE_DAY);
+      });
+
+      it(`rejects ${format} dates when the policy leaves the format out`, () => {
+        const policy = withPolicy({
+          dateFormats: DEFAULT_PARSING_POLICY.dateFormats.filter(other => other !== format)
+        });
+        expect(() => parseSalesRow(salesRow(cell, '101', 'ST001'), 2, policy)).toThrow('Invalid date value');
+      });
+
+      it(`passes validation for ${format} dates`, () => {
+        expect(isValidDate(cell).isValid).toBe(true);
+      });
+    });
+
+    it('reads Date objects whatever the policy', () => {
+      const policy = withPolicy({ dateFormats: ['iso'] });
+      const row = parseSalesRow(salesRow(new Date(2024, 9, 15, 13, 45), '101', 'ST001'), 2, policy);
+      expect(row.date).toEqual(SALE_DAY);
+    });
+
+    it('rejects days that do not exist', () => {
+      expect(() => parseSalesRow(salesRow('31/04/2024', '101', 'ST001'), 2)).toThrow('Invalid date value');
+      expect(() => parseSalesRow(salesRow('2024-02-30', '101', 'ST001'), 2)).toThrow('Invalid date value');
+      expect(isValidDate('31/04/2024').isValid).toBe(false);
+    });
+  });
+
+  describe('negativeValues', () => {
+    it('keeps negative values with allow', () => {
+      const row = parseSalesRow(RETURN_ROW, 2, withPolicy({ negativeValues: 'allow' }));
+      expect(row.suppliers[1]).toEqual({ quantity: -1, salesAmount: -29.99, marginAmount: -12.05 });
+    });
+
+    it('turns negative values into 0 with clamp', () => {
+      const row = parseSalesRow(RETURN_ROW, 2, withPolicy({ negativeValues: 'clamp' }));
+      expect(row.suppliers[1]).toEqual({ quantity: 0, salesAmount: 0, marginAmount: 0 });
+    });
+
+    it('fails the row with reject', () => {
+      expect(() => parseSalesRow(RETURN_ROW, 2, withPolicy({ negativeValues: 'reject' })))
+        .toThrow('Cellnet Quantity cannot be negative: -1');
+    });
+  });
+
+  describe('quantityRounding', () => {
+    const quantity = (rounding: ParsingPolicy['quantityRounding']) =>
+      parseSalesRow(FRACTIONAL_QUANTITY_ROW, 2, withPolicy({ quantityRounding: rounding })).suppliers[1].quantity;
+
+    it('keeps fractional quantities with none', () => {
+      expect(quantity('none')).toBe(2.6);
+    });
+
+    it('rounds down with floor', () => {
+      expect(quantity('floor')).toBe(2);
+    });
+
+    it('rounds to the nearest unit with round', () => {
+      expect(quantity('round')).toBe(3);
+    });
+
+    it('fails the row with reject', () => {
+      expect(() => quantity('reject')).toThrow('Cellnet Quantity must be a whole number: 2.6');
+    });
+  });
+
+  describe('amountDecimals', () => {
+    const amounts = (decimals: number | null) => {
+      const { salesAmount, marginAmount } = parseSalesRow(
+        LONG_AMOUNT_ROW,
+        2,
+        withPolicy({ amountDecimals: decimals })
+      ).suppliers[1];
+      return [salesAmount, marginAmount];
+    };
+
+    it('rounds to cents by default', () => {
+      expect(amounts(2)).toEqual([1020, 8.5]);
+    });
+
+    it('keeps amounts as-is with null', () => {
+      expect(amounts(null)).toEqual([1019.996, 8.504]);
+    });
+
+    it('rounds to whole dollars with 0', () => {
+      expect(amounts(0)).toEqual([1020, 9]);
+    });
+  });
+});
+
+describe('parseSalesRows', () => {
+  it('stops at the first failing row unless rejects are collected', () => {
+    expect(() => parseSalesRows(MIXED_SHEET)).toThrow('Error processing row 3');
+  });
+
+  it('sets failing rows aside with their spreadsheet row numbers', () => {
+    const { rows, rejected } = parseSalesRows(MIXED_SHEET, { collectRejects: true, sheet: 'October' });
+
+    expect(rows.map(row => row.staffCode)).toEqual(['ST001', 'ST010']);
+    expect(rejected.map(reject => reject.row)).toEqual([3, 5, 6]);
+    expect(rejected.every(reject => reject.sheet === 'October')).toBe(true);
+    expect(rejected[0].data).toBe(MIXED_SHEET[2]);
+    expect(rejected[2].errors).toEqual(['Error processing row 6: Invalid Cellnet Quantity: one']);
+  });
+
+  it('applies the policy to every row', () => {
+    const { rows } = parseSalesRows(
+      [MIXED_SHEET[0], RETURN_ROW, SALE_ROW],
+      { policy: withPolicy({ negativeValues: 'clamp' }) }
+    );
+    expect(rows.map(row => row.suppliers[1].quantity)).toEqual([0, 2]);
+  });
+});
+
+// The same cases run against the import function's parser in functions/src/imports
+describe('shared import rules', () => {
+  const columns = getColumnDefinitions(DEFAULT_SUPPLIERS);
+
+  const ruleRow = ({ field, cell }: ImportRuleCase): unknown[] => {
+    const cells: Record<string, string> = {
+      date: '15/10/2024', branchNumber: '101', staffCode: 'ST001', quantity: '2', salesAmount: '59.98'
+    };
+    cells[field] = cell;
+    return salesRow(cells.date, cells.branchNumber, cells.staffCode, [cells.quantity, cells.salesAmount, '24.10']);
+  };
+
+  const readValue = ({ field }: ImportRuleCase, row: ReturnType<typeof parseSalesRow>): unknown => {
+    switch (field) {
+      case 'date':
+        return [row.date.getFullYear(), row.date.getMonth() + 1, row.date.getDate()];
+      case 'branchNumber':
+      case 'staffCode':
+        return row[field];
+      default:
+        return row.suppliers[1][field];
+    }
+  };
+
+  IMPORT_RULE_CASES.forEach(ruleCase => {
+    const { field, cell, expected } = ruleCase;
+
+    it(`${expected === null ? 'rejects' : 'reads'} ${field} "${cell}" in validation and parsing`, () => {
+      const row = ruleRow(ruleCase);
+
+      if (expected === null) {
+        expect(validateRow(row, 2, columns)).not.toEqual([]);
+        expect(() => parseSalesRow(row, 2)).toThrow();
+      } else {
+        expect(validateRow(row, 2, columns)).toEqual([]);
+        expect(readValue(ruleCase, parseSalesRow(row, 2))).toEqual(expected);
+      }
+    });
+  });
+});
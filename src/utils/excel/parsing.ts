@@ -0,0 +1,179 @@
+import { SalesDataRow, MetricValues } from '../../types/import';
+import { getColumnDefinitions } from '../validation/columnDefinitions';
+import { DateFormat, DATE_FORMATS, parseImportDate } from '../dateUtils/parsers';
+import { readNumber } from '../validation/validators';
+import { RejectedRow } from './types';
+import { logOperation } from '../../services/firebase/logging';
+
+export type { DateFormat };
+
+export interface ParsingPolicy {
+  // 'allow' keeps negative values, which are imported as returns; 'clamp' turns them into 0
+  negativeValues: 'allow' | 'clamp' | 'reject';
+  // How fractional quantities are handled
+  quantityRounding: 'none' | 'floor' | 'round' | 'reject';
+  // Decimal places kept on sales and margin amounts, or null to keep them as-is
+  amountDecimals: number | null;
+  // Accepted date formats, tried in order. Date objects are always accepted.
+  dateFormats: DateFormat[];
+}
+
+export const DEFAULT_PARSING_POLICY: ParsingPolicy = {
+  negativeValues: 'allow',
+  quantityRounding: 'reject',
+  amountDecimals: 2,
+  dateFormats: DATE_FORMATS
+};
+
+const isEmpty = (value: unknown): boolean =>
+  value === undefined || value === null || value === '';
+
+export const parseDateValue = (value: unknown, policy: ParsingPolicy = DEFAULT_PARSING_POLICY): Date => {
+  const date = parseImportDate(value, policy.dateFormats);
+  if (!date) {
+    throw new Error(`Invalid date value: ${value}. Expected ${policy.dateFormats.join(' or ')}`);
+  }
+  return date;
+};
+
+const parseNumberValue = (value: unknown, label: string, policy: ParsingPolicy): number => {
+  if (isEmpty(value)) return 0;
+
+  const num = readNumber(value);
+  if (isNaN(num) || !isFinite(num)) {
+    throw new Error(`Invalid ${label}: ${value}`);
+  }
+
+  if (num < 0) {
+    switch (policy.negativeValues) {
+      case 'clamp':
+        return 0;
+      case 'reject':
+        throw new Error(`${label} cannot be negative: ${value}`);
+    }
+  }
+
+  return num;
+};
+
+export const parseQuantity = (
+  value: unknown,
+  label: string = 'quantity',
+  policy: ParsingPolicy = DEFAULT_PARSING_POLICY
+): number => {
+  const num = parseNumberValue(value, label, policy);
+  if (Number.isInteger(num)) return num;
+
+  switch (policy.quantityRounding) {
+    case 'floor':
+      return Math.floor(num);
+    case 'round':
+      return Math.round(num);
+    case 'reject':
+      throw new Error(`${label} must be a whole number: ${value}`);
+    default:
+      return num;
+  }
+};
+
+export const parseAmount = (
+  value: unknown,
+  label: string = 'amount',
+  policy: ParsingPolicy = DEFAULT_PARSING_POLICY
+): number => {
+  const num = parseNumberValue(value, label, policy);
+  return policy.amountDecimals === null ? num : Number(num.toFixed(policy.amountDecimals));
+};
+
+const MEASURE_FIELDS: Record<string, keyof MetricValues> = {
+  quantity: 'quantity',
+  sales: 'salesAmount',
+  margin: 'marginAmount'
+};
+
+/**
+ * Parses one data row in canonical column order (see getColumnDefinitions).
+ * This is the only place spreadsheet cells are turned into a SalesDataRow.
+ */
+export const parseSalesRow = (
+  row: unknown[],
+  rowNumber: number,
+  policy: ParsingPolicy = DEFAULT_PARSING_POLICY
+): SalesDataRow => {
+  try {
+    const parsed: SalesDataRow = { date: new Date(NaN), branchNumber: '', staffCode: '', suppliers: {} };
+
+    getColumnDefinitions().forEach((col, index) => {
+      const value = row[index];
+      if (col.supplierId !== undefined && col.measure) {
+        const values = parsed.suppliers[col.supplierId] || { quantity: 0, salesAmount: 0, marginAmount: 0 };
+        values[MEASURE_FIELDS[col.measure]] = col.measure === 'quantity'
+          ? parseQuantity(value, col.name, policy)
+          : parseAmount(value, col.name, policy);
+        parsed.suppliers[col.supplierId] = values;
+      } else if (col.type === 'date') {
+        parsed.date = parseDateValue(value, policy);
+      } else {
+        if (isEmpty(value)) {
+          throw new Error(`${col.name} is required`);
+        }
+        // Same length and character rules as validateRow and the import function
+        const check = col.validate(value);
+        if (!check.isValid) {
+          throw new Error(check.error || `Invalid ${col.name}`);
+        }
+        if (col.field === 'branchNumber') {
+          parsed.branchNumber = String(value).trim();
+        } else {
+          parsed.staffCode = String(value).trim();
+        }
+      }
+    });
+
+    return parsed;
+  } catch (error) {
+    throw new Error(`Error processing row ${rowNumber}: ${(error as Error).message}`);
+  }
+};
+
+const hasData = (row: unknown[]): boolean =>
+  !!row && row.some(cell => !isEmpty(cell));
+
+/**
+ * Parses every data row after the header. Row numbers in errors and rejects
+ * match the spreadsheet, so the first data row is row 2. Unless `collectRejects`
+ * is set, the first failing row aborts parsing.
+ */
+export const parseSalesRows = (
+  data: unknown[][],
+  options: { policy?: ParsingPolicy; collectRejects?: boolean; sheet?: string } = {}
+): { rows: SalesDataRow[]; rejected: RejectedRow[] } => {
+  const policy = options.policy || DEFAULT_PARSING_POLICY;
+  const rows: SalesDataRow[] = [];
+  const rejected: RejectedRow[] = [];
+
+  data.slice(1).forEach((row, index) => {
+    if (!hasData(row)) return;
+
+    try {
+      rows.push(parseSalesRow(row, index + 2, policy));
+    } catch (error) {
+      if (!options.collectRejects) {
+        logOperation('parseSalesRows', 'error', { row: index + 2, error });
+        throw error;
+      }
+      rejected.push({
+        sheet: options.sheet,
+        row: index + 2,
+        data: row,
+        errors: [(error as Error).message]
+      });
+    }
+  });
+
+  logOperation('parseSalesRows', rejected.length ? 'warning' : 'success', {
+    rowCount: rows.length,
+    rejectedCount: rejected.length
+  });
+  return { rows, rejected };
+};
@@ -8,9 +8,9 @@ export const processExcelData = async (data: any[]): Promise<SalesDataRow[]> =>
     logOperation('processExcelData', 'start');
 
     // Validate data first
-    const validationErrors = validateExcelData(data);
-    if (validationErrors.length > 0) {
-      throw new Error(`Validation failed with ${validationErrors.length} errors`);
+    const { errors } = validateExcelData(data);
+    if (errors.length > 0) {
+      throw new Error(`Validation failed with ${errors.length} errors`);
     }
 
     // Parse data if validation passes
@@ -0,0 +1,73 @@
+import * as XLSX from 'xlsx';
+import { RejectedRow } from './types';
+import { ValidationError } from '../validation/types';
+import { getExpectedHeaders } from '../validation/columnDefinitions';
+import { logOperation } from '../../services/firebase/logging';
+
+export interface QuarantineResult {
+  data: any[];
+  rejected: RejectedRow[];
+}
+
+/**
+ * Splits sheet rows into those without validation errors, kept with the
+ * header row, and rejected rows carrying their error messages. Row numbers
+ * match the spreadsheet, so the header is row 1.
+ */
+export const quarantineRows = (
+  data: any[],
+  errors: ValidationError[],
+  sheet?: string
+): QuarantineResult => {
+  const errorsByRow = errors.reduce((acc, error) => {
+    acc.set(error.row, [...(acc.get(error.row) || []), error.message]);
+    return acc;
+  }, new Map<number, string[]>());
+
+  const rejected: RejectedRow[] = [];
+  const valid = data.slice(1).filter((row, index) => {
+    const rowErrors = errorsByRow.get(index + 2);
+    if (rowErrors) {
+      rejected.push({ sheet, row: index + 2, data: row, errors: rowErrors });
+      return false;
+    }
+    return true;
+  });
+
+  return { data: [data[0], ...valid], rejected };
+};
+
+/**
+ * Downloads rejected rows as an .xlsx in the import layout with an extra
+ * Error column, so they can be corrected and uploaded again.
+ */
+export const exportRejectedRows = (
+  rejected: RejectedRow[],
+  fileName: string,
+  expectedHeaders: string[] = getExpectedHeaders()
+): void => {
+  try {
+    const includeSheet = rejected.some(row => row.sheet);
+    const header = [
+      ...expectedHeaders,
+      'Error',
+      'Source Row',
+      ...(includeSheet ? ['Source Sheet'] : [])
+    ];
+    const rows = rejected.map(row => [
+      ...expectedHeaders.map((_, index) => row.data[index] ?? ''),
+      row.errors.join('; '),
+      row.row,
+      ...(includeSheet ? [row.sheet || ''] : [])
+    ]);
+
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([header, ...rows]), 'Rejected Rows');
+    XLSX.writeFile(workbook, fileName);
+
+    logOperation('exportRejectedRows', 'success', { count: rejected.length });
+  } catch (error) {
+    logOperation('exportRejectedRows', 'error', error);
+    throw error;
+  }
+};
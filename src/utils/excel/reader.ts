@@ -1,43 +1,82 @@
 import * as XLSX from 'xlsx';
-import { ExcelProcessingResult } from './types';
+import { ExcelProcessingResult, WorkbookReadResult, SheetData } from './types';
 import { logOperation } from '../../services/firebase/logging';
 
-export const readExcelFile = async (file: File): Promise<ExcelProcessingResult> => {
+export const SUPPORTED_IMPORT_EXTENSIONS = ['.xlsx', '.xls', '.csv', '.tsv'];
+
+// Delimited text files are read as strings so SheetJS can detect the separator
+const TEXT_EXTENSIONS = ['.csv', '.tsv'];
+
+const getExtension = (fileName: string): string =>
+  fileName.slice(fileName.lastIndexOf('.')).toLowerCase();
+
+export const isSupportedImportFile = (fileName: string): boolean =>
+  SUPPORTED_IMPORT_EXTENSIONS.includes(getExtension(fileName));
+
+const sheetToRows = (sheet: XLSX.WorkSheet): any[] =>
+  // Convert to JSON with specific options for date handling
+  XLSX.utils.sheet_to_json(sheet, {
+    header: 1,
+    raw: false,
+    dateNF: 'dd/mm/yyyy',
+    defval: '',
+    rawNumbers: false
+  });
+
+/**
+ * Reads every sheet of a workbook, or the single sheet of a CSV/TSV file.
+ */
+export const readWorkbookSheets = async (file: File): Promise<WorkbookReadResult> => {
   try {
-    logOperation('readExcelFile', 'start', { fileName: file.name });
+    logOperation('readWorkbookSheets', 'start', { fileName: file.name });
 
-    const data = await file.arrayBuffer();
-    const workbook = XLSX.read(data, { 
-      type: 'array',
-      cellDates: true,
-      dateNF: 'dd/mm/yyyy', // Expected input format
-    });
+    const isText = TEXT_EXTENSIONS.includes(getExtension(file.name));
+    const workbook = isText
+      ? XLSX.read(await file.text(), {
+          type: 'string',
+          cellDates: true,
+          dateNF: 'dd/mm/yyyy'
+        })
+      : XLSX.read(await file.arrayBuffer(), {
+          type: 'array',
+          cellDates: true,
+          dateNF: 'dd/mm/yyyy', // Expected input format
+        });
 
-    // Get first sheet
-    const firstSheet = workbook.Sheets[workbook.SheetNames[0]];
-    if (!firstSheet) {
+    if (!workbook.SheetNames.length) {
       throw new Error('No sheets found in workbook');
     }
 
-    // Convert to JSON with specific options for date handling
-    const jsonData = XLSX.utils.sheet_to_json(firstSheet, {
-      header: 1,
-      raw: false,
-      dateNF: 'dd/mm/yyyy',
-      defval: '',
-      rawNumbers: false
-    });
+    const sheets: SheetData[] = workbook.SheetNames.map(name => ({
+      name,
+      data: sheetToRows(workbook.Sheets[name])
+    }));
 
-    logOperation('readExcelFile', 'success', { rowCount: jsonData.length });
+    logOperation('readWorkbookSheets', 'success', {
+      sheets: sheets.map(sheet => ({ name: sheet.name, rowCount: sheet.data.length }))
+    });
     return {
       success: true,
-      data: jsonData
+      sheets
     };
   } catch (error) {
-    logOperation('readExcelFile', 'error', error);
+    logOperation('readWorkbookSheets', 'error', error);
     return {
       success: false,
-      error: 'Failed to read Excel file: ' + (error as Error).message
+      error: 'Failed to read file: ' + (error as Error).message
     };
   }
-};
\ No newline at end of file
+};
+
+export const readExcelFile = async (file: File): Promise<ExcelProcessingResult> => {
+  const result = await readWorkbookSheets(file);
+  if (!result.success) {
+    return { success: false, error: result.error };
+  }
+
+  // Get first sheet
+  return {
+    success: true,
+    data: result.sheets![0].data
+  };
+};
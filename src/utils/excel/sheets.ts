@@ -0,0 +1,76 @@
+import { SheetData } from './types';
+import { ValidationError } from '../validation/types';
+import { validateExcelData } from '../validation/excelValidator';
+import { AnomalyOptions } from '../validation/anomalies';
+import {
+  ColumnMapping,
+  detectColumnMapping,
+  applyColumnMapping,
+  mappingToAliases,
+  getFieldLabel
+} from './columnMapping';
+
+export interface ValidatedSheet extends SheetData {
+  // Name to report errors under; unset when only one sheet is imported
+  label?: string;
+  errors: ValidationError[];
+  warnings: ValidationError[];
+}
+
+export interface SheetValidationResult {
+  sheets: ValidatedSheet[];
+  errors: ValidationError[];
+  warnings: ValidationError[];
+}
+
+// Header and empty-file errors cannot be quarantined row by row
+export const isRowLevelError = (error: ValidationError): boolean => error.row > 1;
+
+/**
+ * Applies a mapping confirmed on the first sheet to every selected sheet and
+ * validates each one. Other sheets are matched by the same header names, so
+ * their columns may be in a different order. Errors carry the sheet name when
+ * more than one sheet is imported.
+ */
+export const validateSheets = (
+  sheets: SheetData[],
+  headers: string[],
+  mapping: ColumnMapping,
+  options: AnomalyOptions = {}
+): SheetValidationResult => {
+  const confirmedProfile = {
+    id: '',
+    name: '',
+    aliases: mappingToAliases(headers, mapping)
+  };
+  const tagSheet = sheets.length > 1;
+  const errors: ValidationError[] = [];
+  const warnings: ValidationError[] = [];
+  const mappedSheets: ValidatedSheet[] = [];
+
+  sheets.forEach((sheet, index) => {
+    const sheetMapping = index === 0
+      ? { mapping, missingFields: [] }
+      : detectColumnMapping(sheet.data[0], confirmedProfile);
+    const sheetName = tagSheet ? sheet.name : undefined;
+
+    if (sheetMapping.missingFields.length > 0) {
+      errors.push({
+        row: 1,
+        sheet: sheetName,
+        message: `Missing columns: ${sheetMapping.missingFields.map(field => getFieldLabel(field)).join(', ')}`
+      });
+      return;
+    }
+
+    const data = applyColumnMapping(sheet.data, sheetMapping.mapping);
+    const result = validateExcelData(data, options);
+    const sheetErrors = result.errors.map(error => ({ ...error, sheet: sheetName }));
+    const sheetWarnings = result.warnings.map(warning => ({ ...warning, sheet: sheetName }));
+    errors.push(...sheetErrors);
+    warnings.push(...sheetWarnings);
+    mappedSheets.push({ name: sheet.name, label: sheetName, data, errors: sheetErrors, warnings: sheetWarnings });
+  });
+
+  return { sheets: mappedSheets, errors, warnings };
+};
@@ -15,4 +15,23 @@ export interface ProcessingOptions {
   skipRows?: number;
   maxRows?: number;
   validateData?: boolean;
-}
\ No newline at end of file
+}
+
+export interface SheetData {
+  name: string;
+  data: any[];
+}
+
+export interface WorkbookReadResult {
+  success: boolean;
+  sheets?: SheetData[];
+  error?: string;
+}
+
+// A data row left out of a partial import, kept with its original cells
+export interface RejectedRow {
+  sheet?: string;
+  row: number;
+  data: any[];
+  errors: string[];
+}
@@ -0,0 +1,105 @@
+import {
+  collection,
+  getDocs,
+  query,
+  orderBy,
+  limit,
+  startAfter,
+  writeBatch,
+  QueryDocumentSnapshot,
+  DocumentData
+} from 'firebase/firestore';
+// Only modules that load under Node, so the migration can run as a script
+import { getDb } from '../../services/firebase/db';
+import { logOperation } from '../../services/firebase/logging';
+import { MetricMigrationResult, MigrationOptions } from './types';
+import { initializeMigrationServices } from './initFirebase';
+
+// Also the most writes one batch can hold, so each page is committed as one batch
+const DEFAULT_BATCH_SIZE = 500;
+
+/**
+ * Stamps metrics imported before imports recorded the store with the store's
+ * ID and current region, so region queries can filter metrics directly.
+ * Metrics that already carry a region keep it.
+ */
+export const migrateMetricRegions = async (options: MigrationOptions = {}): Promise<MetricMigrationResult> => {
+  const { dryRun = false, batchSize = DEFAULT_BATCH_SIZE } = options;
+
+  // Initialize Firebase first
+  await initializeMigrationServices();
+
+  const result: MetricMigrationResult = {
+    success: true,
+    scannedCount: 0,
+    migratedCount: 0,
+    unmatchedBranches: []
+  };
+
+  try {
+    const db = getDb();
+    const storesSnapshot = await getDocs(collection(db, 'stores'));
+    const stores = new Map(storesSnapshot.docs.map(storeDoc => [
+      String(storeDoc.data().branchNumber),
+      { storeId: storeDoc.id, regionId: String(storeDoc.data().regionId || '') }
+    ]));
+    const unmatched = new Set<string>();
+
+    logOperation('migrateMetricRegions', 'start', { stores: stores.size, dryRun });
+
+    // Page through metrics so large collections aren't held in memory at once
+    let last: QueryDocumentSnapshot<DocumentData> | undefined;
+    for (;;) {
+      const page = query(
+        collection(db, 'metrics'),
+        orderBy('date'),
+        ...(last ? [startAfter(last)] : []),
+        limit(batchSize)
+      );
+      const snapshot = await getDocs(page);
+      if (snapshot.empty) break;
+
+      const batch = writeBatch(db);
+      let batchCount = 0;
+      snapshot.docs.forEach(metricDoc => {
+        const data = metricDoc.data();
+        result.scannedCount++;
+        if (data.regionId && data.storeId) return;
+
+        const store = stores.get(String(data.branchNumber));
+        if (!store) {
+          unmatched.add(String(data.branchNumber));
+          return;
+        }
+
+        batch.update(metricDoc.ref, {
+          storeId: store.storeId,
+          regionId: data.regionId || store.regionId
+        });
+        batchCount++;
+      });
+
+      if (!dryRun && batchCount > 0) {
+        await batch.commit();
+      }
+
+      result.migratedCount += batchCount;
+      last = snapshot.docs[snapshot.docs.length - 1];
+    }
+
+    result.unmatchedBranches = [...unmatched].sort();
+
+    logOperation('migrateMetricRegions', 'success', {
+      scannedCount: result.scannedCount,
+      migratedCount: result.migratedCount,
+      unmatchedBranches: result.unmatchedBranches,
+      dryRun
+    });
+
+    return result;
+  } catch (error) {
+    logOperation('migrateMetricRegions', 'error', error);
+    result.success = false;
+    throw error;
+  }
+};
@@ -14,4 +14,11 @@ export interface MigrationError {
 export interface MigrationOptions {
   dryRun?: boolean;
   batchSize?: number;
-}
\ No newline at end of file
+}
+export interface MetricMigrationResult {
+  success: boolean;
+  scannedCount: number;
+  migratedCount: number;
+  // Metrics from branches that aren't set up as stores
+  unmatchedBranches: string[];
+}
@@ -1,6 +1,6 @@
 import { KPIThresholds, PerformanceLevel } from '../types';
 
-export const getPerformanceLevel = (value: number, thresholds: KPIThresholds): PerformanceLevel => {
+export const getPerformanceLevel = (value: number, thresholds: Pick<KPIThresholds, 'low' | 'medium'>): PerformanceLevel => {
   if (value < thresholds.low) {
     return {
       rate: value,
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { RankingParticipant } from '../types';
+import { rankParticipants } from './rankingUtils';
+
+const participant = (name: string, attachmentRate: number, deviceUnits = 10): RankingParticipant => ({
+  id: name,
+  name,
+  attachmentRate,
+  avgSalesPerUnit: 0,
+  revenueRatio: 0,
+  netSales: 0,
+  deviceUnits
+});
+
+describe('rankParticipants', () => {
+  it('ranks the highest value first', () => {
+    const ranked = rankParticipants([participant('A', 120), participant('B', 180), participant('C', 150)], 'attachmentRate');
+
+    expect(ranked.map(entry => [entry.name, entry.rank])).toEqual([['B', 1], ['C', 2], ['A', 3]]);
+  });
+
+  it('gives equal values the same rank and skips the next one', () => {
+    const ranked = rankParticipants(
+      [participant('A', 150), participant('B', 180), participant('C', 150), participant('D', 100)],
+      'attachmentRate'
+    );
+
+    expect(ranked.map(entry => [entry.name, entry.rank])).toEqual([['B', 1], ['A', 2], ['C', 2], ['D', 4]]);
+  });
+
+  it('lists participants below the minimum volume last without a rank', () => {
+    const ranked = rankParticipants(
+      [participant('A', 300, 2), participant('B', 180), participant('C', 150, 4)],
+      'attachmentRate'
+    );
+
+    expect(ranked.map(entry => [entry.name, entry.rank])).toEqual([['B', 1], ['A', null], ['C', null]]);
+  });
+
+  it('takes the minimum volume as an argument', () => {
+    const ranked = rankParticipants([participant('A', 300, 2), participant('B', 180)], 'attachmentRate', 0);
+
+    expect(ranked.map(entry => entry.rank)).toEqual([1, 2]);
+  });
+});
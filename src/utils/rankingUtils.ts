@@ -0,0 +1,60 @@
+import { SalesMetrics, RankingKPI, RankingParticipant, RankingDetails } from '../types';
+import { isDeviceSupplier } from '../data/suppliers';
+import {
+  calculateAttachmentRate,
+  calculateAverageSalesPerUnit,
+  calculateRevenueRatio
+} from './calculationUtils';
+import { formatCurrency } from './formatting/index';
+
+// Below this many device units in the period the KPIs swing too far on a single sale to rank fairly
+export const MINIMUM_RANKING_DEVICE_UNITS = 5;
+
+export const RANKING_KPIS: Record<RankingKPI, { label: string; format: (value: number) => string }> = {
+  attachmentRate: { label: 'Attachment Rate', format: value => `${value.toFixed(2)}%` },
+  avgSalesPerUnit: { label: 'Avg Sales/Unit', format: value => formatCurrency(value) },
+  revenueRatio: { label: 'Revenue Ratio', format: value => `${value.toFixed(2)}%` },
+  netSales: { label: 'Net Sales', format: value => formatCurrency(value) }
+};
+
+export const toRankingParticipant = (id: string, name: string, metrics: SalesMetrics[]): RankingParticipant => ({
+  id,
+  name,
+  attachmentRate: calculateAttachmentRate(metrics),
+  avgSalesPerUnit: calculateAverageSalesPerUnit(metrics),
+  revenueRatio: calculateRevenueRatio(metrics),
+  netSales: Number(metrics.reduce((sum, metric) => sum + metric.salesAmount, 0).toFixed(2)),
+  deviceUnits: metrics
+    .filter(metric => isDeviceSupplier(metric.supplierId))
+    .reduce((sum, metric) => sum + metric.quantity, 0)
+});
+
+/**
+ * Ranks participants on a KPI, highest first. Equal values share a rank and
+ * the next rank is skipped (1, 2, 2, 4). Participants below the minimum
+ * volume are listed after the ranked ones without a rank.
+ */
+export const rankParticipants = (
+  participants: RankingParticipant[],
+  kpi: RankingKPI,
+  minimumDeviceUnits = MINIMUM_RANKING_DEVICE_UNITS
+): RankingDetails[] => {
+  const byValue = (a: RankingParticipant, b: RankingParticipant) =>
+    b[kpi] - a[kpi] || a.name.localeCompare(b.name);
+
+  const ranked = participants
+    .filter(participant => participant.deviceUnits >= minimumDeviceUnits)
+    .sort(byValue);
+  const unranked = participants
+    .filter(participant => participant.deviceUnits < minimumDeviceUnits)
+    .sort(byValue);
+
+  const results: RankingDetails[] = [];
+  ranked.forEach((participant, index) => {
+    const previous = results[index - 1];
+    const rank = previous && ranked[index - 1][kpi] === participant[kpi] ? previous.rank : index + 1;
+    results.push({ ...participant, rank });
+  });
+
+  return [...results, ...unranked.map(participant => ({ ...participant, rank: null }))];
+};
@@ -0,0 +1,67 @@
+import { describe, it, expect, vi } from 'vitest';
+import { detectAnomalies } from './anomalies';
+import { HEADER, RETURN_ROW, SALE_ROW, salesRow } from '../excel/__fixtures__/salesRows';
+
+// The sales service is only needed for its row helpers; Firebase setup expects a browser
+vi.mock('../../services/firebase', () => ({ getCollection: vi.fn(), logOperation: vi.fn() }));
+vi.mock('../../services/firebase/retry', () => ({ retry: (operation: () => Promise<unknown>) => operation() }));
+
+// October 2024, which the fixture rows fall in
+const OCTOBER = { reportingPeriod: { start: new Date(2024, 9, 1), end: new Date(2024, 9, 31) } };
+
+const messages = (sheet: unknown[][], options = OCTOBER) =>
+  detectAnomalies(sheet, options).map(warning => [warning.row, warning.message]);
+
+const formatDay = (date: Date): string => [
+  String(date.getDate()).padStart(2, '0'),
+  String(date.getMonth() + 1).padStart(2, '0'),
+  date.getFullYear()
+].join('/');
+
+describe('detectAnomalies', () => {
+  it('has nothing to say about ordinary rows', () => {
+    expect(detectAnomalies([HEADER, SALE_ROW, RETURN_ROW], OCTOBER)).toEqual([]);
+  });
+
+  it('flags a repeated date, branch and staff code', () => {
+    expect(messages([HEADER, SALE_ROW, RETURN_ROW, SALE_ROW])).toEqual([
+      [4, 'Duplicate of row 2 (same date, branch, staff code and sale or return)']
+    ]);
+  });
+
+  it('flags dates in the future and outside the reporting period', () => {
+    const tomorrow = new Date();
+    tomorrow.setDate(tomorrow.getDate() + 1);
+    const futureRow = salesRow(formatDay(tomorrow), '101', 'ST001', ['1', '10', '4']);
+    const septemberRow = salesRow('30/09/2024', '101', 'ST001', ['1', '10', '4']);
+
+    const warnings = detectAnomalies([HEADER, futureRow, septemberRow], OCTOBER);
+
+    expect(warnings.map(warning => warning.row)).toEqual([2, 3]);
+    expect(warnings[0].message).toMatch(/is in the future$/);
+    expect(warnings[1].message).toMatch(/is outside the expected reporting period$/);
+  });
+
+  it('flags margins above sales and sales without a quantity', () => {
+    const row = salesRow('15/10/2024', '101', 'ST001', ['1', '10', '12'], ['0', '29.99', '12']);
+
+    expect(messages([HEADER, row])).toEqual([
+      [2, 'Cellnet margin $12.00 is greater than sales $10.00'],
+      [2, 'Likewize Acc has sales of $29.99 but zero quantity']
+    ]);
+  });
+
+  it('flags unit prices well outside the usual range', () => {
+    const options = { ...OCTOBER, unitPriceRanges: { 1: { min: 20, max: 40 } } };
+    const usual = salesRow('15/10/2024', '101', 'ST001', ['2', '59.98', '24.10']);
+    const high = salesRow('15/10/2024', '102', 'ST001', ['1', '400', '100']);
+    const low = salesRow('15/10/2024', '103', 'ST001', ['10', '50', '20']);
+
+    expect(detectAnomalies([HEADER, usual, high, low], options).map(warning => warning.row)).toEqual([3, 4]);
+  });
+
+  it('skips rows that fail to parse', () => {
+    expect(detectAnomalies([HEADER, salesRow('31/04/2024', '101', 'ST001', ['1', '10', '40'])], OCTOBER))
+      .toEqual([]);
+  });
+});
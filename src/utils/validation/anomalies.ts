@@ -0,0 +1,115 @@
+import { ValidationError } from './types';
+import { parseSalesRow } from '../excel/parsing';
+import { getSupplierMetrics, getTransactionType } from '../../services/sales';
+import { getSupplier, getSupplierName, isSupplierActive } from '../../data/suppliers';
+
+// Typical unit price per supplier, taken from recently imported metrics
+export interface UnitPriceRange {
+  min: number;
+  max: number;
+}
+
+export type UnitPriceRanges = Record<number, UnitPriceRange>;
+
+export interface AnomalyOptions {
+  unitPriceRanges?: UnitPriceRanges;
+  // Rows dated outside this period are flagged; defaults to the last EXPECTED_REPORTING_DAYS
+  reportingPeriod?: { start: Date; end: Date };
+}
+
+// Imports normally cover the current or previous month
+export const EXPECTED_REPORTING_DAYS = 62;
+
+// A unit price this many times outside the historical range is flagged
+const UNIT_PRICE_TOLERANCE = 3;
+
+const startOfDay = (date: Date): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const getDefaultReportingPeriod = () => {
+  const end = startOfDay(new Date());
+  const start = new Date(end);
+  start.setDate(start.getDate() - EXPECTED_REPORTING_DAYS);
+  return { start, end };
+};
+
+const formatAmount = (value: number): string => `$${value.toFixed(2)}`;
+
+/**
+ * Flags rows that are well-formed but probably wrong. Rows that fail to parse
+ * are skipped here, since they are already reported as errors.
+ */
+export const detectAnomalies = (data: any[], options: AnomalyOptions = {}): ValidationError[] => {
+  const warnings: ValidationError[] = [];
+  const period = options.reportingPeriod || getDefaultReportingPeriod();
+  const today = startOfDay(new Date());
+  const seen = new Map<string, number>();
+
+  data.slice(1).forEach((cells: any[], index: number) => {
+    const rowNumber = index + 2;
+    if (!cells || cells.every(cell => cell === undefined || cell === null || cell === '')) return;
+
+    let row;
+    try {
+      row = parseSalesRow(cells, rowNumber);
+    } catch {
+      return;
+    }
+
+    const warn = (message: string, column?: string, value?: any) =>
+      warnings.push({ row: rowNumber, column, message, value });
+
+    const day = row.date.toLocaleDateString('en-NZ');
+    // A day's returns are listed on a row of their own next to its sales
+    const isReturn = getSupplierMetrics(row).some(supplier => getTransactionType(supplier) === 'return');
+    const key = [day, row.branchNumber, row.staffCode, isReturn ? 'return' : 'sale'].join('|');
+    const firstRow = seen.get(key);
+    if (firstRow) {
+      warn(`Duplicate of row ${firstRow} (same date, branch, staff code and sale or return)`);
+    } else {
+      seen.set(key, rowNumber);
+    }
+
+    if (row.date > today) {
+      warn(`Date ${day} is in the future`, 'Date', day);
+    } else if (row.date < period.start || row.date > period.end) {
+      warn(`Date ${day} is outside the expected reporting period`, 'Date', day);
+    }
+
+    getSupplierMetrics(row).forEach(supplier => {
+      const name = getSupplierName(supplier.id);
+      const details = getSupplier(supplier.id);
+      const hasValues = supplier.quantity !== 0 || supplier.salesAmount !== 0 || supplier.marginAmount !== 0;
+
+      if (details && hasValues && !isSupplierActive(details, row.date)) {
+        warn(`${name} has values on ${day} but is not active on that date`, name);
+      }
+
+      if (supplier.marginAmount > supplier.salesAmount && supplier.marginAmount > 0) {
+        warn(
+          `${name} margin ${formatAmount(supplier.marginAmount)} is greater than sales ${formatAmount(supplier.salesAmount)}`,
+          name
+        );
+      }
+
+      if (supplier.salesAmount !== 0 && supplier.quantity === 0) {
+        warn(`${name} has sales of ${formatAmount(supplier.salesAmount)} but zero quantity`, name);
+      }
+
+      const range = options.unitPriceRanges?.[supplier.id];
+      if (range && supplier.quantity > 0 && supplier.salesAmount > 0) {
+        const unitPrice = supplier.salesAmount / supplier.quantity;
+        if (unitPrice > range.max * UNIT_PRICE_TOLERANCE || unitPrice < range.min / UNIT_PRICE_TOLERANCE) {
+          warn(
+            `${name} unit price ${formatAmount(unitPrice)} is far outside the usual ` +
+            `${formatAmount(range.min)}–${formatAmount(range.max)}`,
+            name,
+            unitPrice
+          );
+        }
+      }
+    });
+  });
+
+  return warnings;
+};
@@ -1,104 +1,67 @@
 import { ColumnDefinition } from './types';
+import { Supplier, SupplierMeasure } from '../../types';
+import { getSuppliers } from '../../data/suppliers';
 import { isValidDate, isValidNumber, isValidBranchNumber, isValidStaffCode } from './validators';
 
-export const COLUMN_DEFINITIONS: ColumnDefinition[] = [
+// Columns every import has, ahead of the supplier columns
+export const BASE_COLUMN_DEFINITIONS: ColumnDefinition[] = [
   {
+    field: 'date',
     name: 'Date',
+    aliases: ['Transaction Date', 'Sale Date', 'Trans Date'],
     type: 'date',
     required: true,
     validate: isValidDate,
     format: 'YYYY-MM-DD'
   },
   {
+    field: 'branchNumber',
     name: 'Branch Number',
+    aliases: ['Branch', 'Branch No', 'Store Number', 'Store No'],
     type: 'string',
     required: true,
     validate: isValidBranchNumber
   },
   {
+    field: 'staffCode',
     name: 'Staff Code',
+    aliases: ['Staff', 'Salesperson Code', 'Employee Code'],
     type: 'string',
     required: true,
     validate: isValidStaffCode
-  },
-  {
-    name: 'Cellnet Quantity',
-    type: 'number',
-    required: false,
-    validate: (value) => isValidNumber(value, true) // true for integers only
-  },
-  {
-    name: 'Cellnet Sales',
-    type: 'number',
-    required: false,
-    validate: isValidNumber
-  },
-  {
-    name: 'Cellnet Margin',
-    type: 'number',
-    required: false,
-    validate: isValidNumber
-  },
-  {
-    name: 'Likewize Acc Quantity',
-    type: 'number',
-    required: false,
-    validate: (value) => isValidNumber(value, true)
-  },
-  {
-    name: 'Likewize Acc Sales',
-    type: 'number',
-    required: false,
-    validate: isValidNumber
-  },
-  {
-    name: 'Likewize Acc Margin',
-    type: 'number',
-    required: false,
-    validate: isValidNumber
-  },
-  {
-    name: 'Pacificomm Quantity',
-    type: 'number',
-    required: false,
-    validate: (value) => isValidNumber(value, true)
-  },
-  {
-    name: 'Pacificomm Sales',
-    type: 'number',
-    required: false,
-    validate: isValidNumber
-  },
-  {
-    name: 'Pacificomm Margin',
-    type: 'number',
-    required: false,
-    validate: isValidNumber
-  },
-  {
-    name: 'Studiotech Quantity',
-    type: 'number',
-    required: false,
-    validate: (value) => isValidNumber(value, true)
-  },
-  {
-    name: 'Studiotech Sales',
-    type: 'number',
-    required: false,
-    validate: isValidNumber
-  },
-  {
-    name: 'Studiotech Margin',
-    type: 'number',
-    required: false,
-    validate: isValidNumber
-  },
-  {
-    name: 'Likewize Device Quantity',
+  }
+];
+
+const MEASURE_SUFFIXES: Record<SupplierMeasure, string> = {
+  quantity: 'Quantity',
+  sales: 'Sales',
+  margin: 'Margin'
+};
+
+// Quantity, sales and margin columns for one supplier, e.g. "Cellnet Quantity"
+export const getSupplierColumns = (supplier: Supplier): ColumnDefinition[] =>
+  supplier.importColumns.map(measure => ({
+    field: `${supplier.importKey}${MEASURE_SUFFIXES[measure]}`,
+    name: `${supplier.name} ${MEASURE_SUFFIXES[measure]}`,
+    aliases: supplier.importAliases?.[measure] || [],
     type: 'number',
     required: false,
-    validate: (value) => isValidNumber(value, true)
-  }
+    validate: measure === 'quantity'
+      ? (value) => isValidNumber(value, true) // true for integers only
+      : isValidNumber,
+    optionalColumn: supplier.optionalImportColumns?.includes(measure),
+    supplierId: supplier.id,
+    measure
+  }));
+
+/**
+ * The canonical import layout: date, branch and staff code followed by each
+ * supplier's columns in catalogue order.
+ */
+export const getColumnDefinitions = (suppliers: Supplier[] = getSuppliers()): ColumnDefinition[] => [
+  ...BASE_COLUMN_DEFINITIONS,
+  ...suppliers.flatMap(getSupplierColumns)
 ];
 
-export const EXPECTED_HEADERS = COLUMN_DEFINITIONS.map(col => col.name);
\ No newline at end of file
+export const getExpectedHeaders = (suppliers: Supplier[] = getSuppliers()): string[] =>
+  getColumnDefinitions(suppliers).map(col => col.name);
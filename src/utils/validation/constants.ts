@@ -14,5 +14,5 @@ export const ERROR_MESSAGES = {
   INVALID_STAFF_CODE: 'Staff code must contain only letters, numbers, and hyphens',
   REQUIRED_FIELD: 'This field is required',
   INVALID_LENGTH: (field: string, max: number) => `${field} must be ${max} characters or less`,
-  INVALID_DATE_FORMAT: 'Date must be in dd/mm/yyyy format'
+  INVALID_DATE_FORMAT: 'Date must be in dd/mm/yyyy or yyyy-mm-dd format, or an Excel date'
 } as const;
\ No newline at end of file
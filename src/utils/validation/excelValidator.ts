@@ -1,11 +1,17 @@
 import { ValidationError } from './types';
 import { validateHeaders } from './headerValidator';
 import { validateRow } from './rowValidator';
+import { detectAnomalies, AnomalyOptions } from './anomalies';
 import { logOperation } from '../../services/firebase/logging';
 
-export const validateExcelData = (data: any[]) => {
+/**
+ * Validates canonical sheet rows. Errors block the import; warnings flag rows
+ * that parse but look wrong, and only need to be acknowledged.
+ */
+export const validateExcelData = (data: any[], options: AnomalyOptions = {}) => {
   try {
     let errors: ValidationError[] = [];
+    const warnings: ValidationError[] = [];
 
     // Basic data validation
     if (!data || !Array.isArray(data) || data.length < 2) {
@@ -14,7 +20,8 @@ export const validateExcelData = (data: any[]) => {
         errors: [{
           row: 0,
           message: 'Invalid or empty Excel file'
-        }]
+        }],
+        warnings
       };
     }
 
@@ -23,7 +30,8 @@ export const validateExcelData = (data: any[]) => {
     if (headerErrors.length > 0) {
       return {
         isValid: false,
-        errors: headerErrors
+        errors: headerErrors,
+        warnings
       };
     }
 
@@ -38,14 +46,17 @@ export const validateExcelData = (data: any[]) => {
       errors = [...errors, ...rowErrors];
     }
 
+    warnings.push(...detectAnomalies(data, options));
+
     const result = {
       isValid: errors.length === 0,
-      errors
+      errors,
+      warnings
     };
 
     logOperation('validateExcelData', 
       result.isValid ? 'success' : 'error',
-      { errorCount: errors.length }
+      { errorCount: errors.length, warningCount: warnings.length }
     );
 
     return result;
@@ -56,7 +67,8 @@ export const validateExcelData = (data: any[]) => {
       errors: [{
         row: 0,
         message: 'Failed to validate Excel data: ' + (error as Error).message
-      }]
+      }],
+      warnings: []
     };
   }
 };
\ No newline at end of file
@@ -1,8 +1,9 @@
 import { ValidationError } from './types';
-import { EXPECTED_HEADERS } from './columnDefinitions';
+import { getExpectedHeaders } from './columnDefinitions';
 
 export const validateHeaders = (headers: any[]): ValidationError[] => {
   const errors: ValidationError[] = [];
+  const EXPECTED_HEADERS = getExpectedHeaders();
 
   if (!headers || !Array.isArray(headers)) {
     errors.push({
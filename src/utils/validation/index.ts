@@ -5,6 +5,7 @@ export * from './emailValidator';
 export * from './headerValidator';
 export * from './rowValidator';
 export * from './excelValidator';
+export * from './anomalies';
 export * from './columnDefinitions';
 
 // Re-export commonly used validators
@@ -0,0 +1,111 @@
+import { ValidationError } from './types';
+import { ImportMasterData } from '../../services/masterData';
+
+const MAX_SUGGESTIONS = 3;
+const MAX_SUGGESTION_DISTANCE = 2;
+
+export interface UnknownReference {
+  field: 'branchNumber' | 'staffCode';
+  value: string;
+  rows: { row: number; sheet?: string }[];
+  suggestions: string[];
+  // Branch the value first appeared with, used when creating a placeholder team member
+  branchNumber?: string;
+}
+
+interface ReferenceSheet {
+  label?: string;
+  // Canonical column order: date, branch number, staff code, ...
+  data: any[];
+}
+
+const normalize = (value: string): string => value.trim().toLowerCase();
+
+const editDistance = (a: string, b: string): number => {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+};
+
+export const suggestMatches = (value: string, candidates: string[]): string[] =>
+  candidates
+    .map(candidate => ({ candidate, distance: editDistance(normalize(value), normalize(candidate)) }))
+    .filter(match => match.distance <= MAX_SUGGESTION_DISTANCE)
+    .sort((a, b) => a.distance - b.distance || a.candidate.localeCompare(b.candidate))
+    .slice(0, MAX_SUGGESTIONS)
+    .map(match => match.candidate);
+
+/**
+ * Finds branch numbers and staff codes in the sheets that do not match any
+ * store or team member, with the closest known values as suggestions.
+ */
+export const findUnknownReferences = (
+  sheets: ReferenceSheet[],
+  masterData: ImportMasterData
+): UnknownReference[] => {
+  const branchNumbers = masterData.stores.map(store => store.branchNumber);
+  const known = {
+    branchNumber: new Set(branchNumbers.map(normalize)),
+    staffCode: new Set(masterData.staffCodes.map(normalize))
+  };
+  const candidates = { branchNumber: branchNumbers, staffCode: masterData.staffCodes };
+  const unknown = new Map<string, UnknownReference>();
+
+  const check = (field: UnknownReference['field'], value: string, row: number, sheet?: string, branchNumber?: string) => {
+    if (!value || known[field].has(normalize(value))) return;
+
+    const key = `${field}:${value}`;
+    const reference = unknown.get(key) || {
+      field,
+      value,
+      rows: [],
+      suggestions: suggestMatches(value, candidates[field]),
+      branchNumber
+    };
+    reference.rows.push({ row, sheet });
+    unknown.set(key, reference);
+  };
+
+  sheets.forEach(sheet => {
+    sheet.data.slice(1).forEach((row: any[], index: number) => {
+      if (!row) return;
+      const branchNumber = String(row[1] ?? '').trim();
+      const staffCode = String(row[2] ?? '').trim();
+      check('branchNumber', branchNumber, index + 2, sheet.label);
+      check('staffCode', staffCode, index + 2, sheet.label, branchNumber);
+    });
+  });
+
+  return [...unknown.values()];
+};
+
+export const describeUnknownReference = (reference: UnknownReference): string => {
+  const label = reference.field === 'branchNumber' ? 'branch number' : 'staff code';
+  const hint = reference.suggestions.length
+    ? `. Did you mean ${reference.suggestions.join(' or ')}?`
+    : '';
+  return `Unknown ${label} "${reference.value}"${hint}`;
+};
+
+export const unknownReferenceErrors = (references: UnknownReference[]): ValidationError[] =>
+  references.flatMap(reference =>
+    reference.rows.map(({ row, sheet }) => ({
+      row,
+      sheet,
+      column: reference.field === 'branchNumber' ? 'Branch Number' : 'Staff Code',
+      message: describeUnknownReference(reference),
+      value: reference.value
+    }))
+  );
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { validateRow } from './rowValidator';
+import { getColumnDefinitions } from './columnDefinitions';
+import { DEFAULT_SUPPLIERS } from '../../data/suppliers';
+import { SALE_ROW, salesRow } from '../excel/__fixtures__/salesRows';
+
+const COLUMNS = getColumnDefinitions(DEFAULT_SUPPLIERS);
+
+describe('validateRow', () => {
+  it('accepts a good row and skips blank ones', () => {
+    expect(validateRow(SALE_ROW, 2, COLUMNS)).toEqual([]);
+    expect(validateRow(salesRow('', '', ''), 3, COLUMNS)).toEqual([]);
+  });
+
+  it("reports each bad cell with its validator's message", () => {
+    const row = salesRow('31/04/2024', 'B!@#', 'ST001', ['abc', '10', '4'], ['1.5', '29.99', '12']);
+
+    expect(validateRow(row, 5, COLUMNS)).toEqual([
+      {
+        row: 5,
+        column: 'Date',
+        message: 'Date: Date must be in dd/mm/yyyy or yyyy-mm-dd format, or an Excel date',
+        value: '31/04/2024'
+      },
+      {
+        row: 5,
+        column: 'Branch Number',
+        message: 'Branch Number: Branch number must contain only letters, numbers, and hyphens',
+        value: 'B!@#'
+      },
+      {
+        row: 5,
+        column: 'Cellnet Quantity',
+        message: 'Cellnet Quantity: Must be a valid number (can be negative)',
+        value: 'abc'
+      },
+      {
+        row: 5,
+        column: 'Likewize Acc Quantity',
+        message: 'Likewize Acc Quantity: Must be a whole number (can be negative)',
+        value: '1.5'
+      }
+    ]);
+  });
+
+  it('reports missing required cells', () => {
+    expect(validateRow(salesRow('15/10/2024', '101', '', ['1', '10', '4']), 2, COLUMNS)).toEqual([
+      { row: 2, column: 'Staff Code', message: 'Staff Code is required' }
+    ]);
+  });
+});
@@ -1,7 +1,11 @@
-import { ValidationError } from './types';
-import { COLUMN_DEFINITIONS } from './columnDefinitions';
+import { ValidationError, ColumnDefinition } from './types';
+import { getColumnDefinitions } from './columnDefinitions';
 
-export const validateRow = (row: any[], rowNum: number): ValidationError[] => {
+export const validateRow = (
+  row: any[],
+  rowNum: number,
+  columns: ColumnDefinition[] = getColumnDefinitions()
+): ValidationError[] => {
   const errors: ValidationError[] = [];
 
   // Skip empty rows
@@ -10,7 +14,7 @@ export const validateRow = (row: any[], rowNum: number): ValidationError[] => {
   }
 
   // Validate each cell according to column definition
-  COLUMN_DEFINITIONS.forEach((colDef, index) => {
+  columns.forEach((colDef, index) => {
     const value = row[index];
     
     // Check required fields
@@ -25,9 +29,12 @@ export const validateRow = (row: any[], rowNum: number): ValidationError[] => {
 
     // Validate value if present
     if (value !== undefined && value !== null && value !== '') {
-      if (colDef.validate && !colDef.validate(value)) {
+      const result = colDef.validate(value);
+      if (!result.isValid) {
         let message = `Invalid ${colDef.name}`;
-        if (colDef.format) {
+        if (result.error) {
+          message = `${colDef.name}: ${result.error}`;
+        } else if (colDef.format) {
           message += `. Expected format: ${colDef.format}`;
         }
         errors.push({
@@ -1,5 +1,9 @@
+import type { SupplierMeasure } from '../../types';
+
 export interface ValidationError {
   row: number;
+  // Set when a workbook with several sheets is validated
+  sheet?: string;
   column?: string;
   message: string;
   value?: any;
@@ -16,9 +20,18 @@ export interface ColumnValidationResult {
 }
 
 export interface ColumnDefinition {
+  // Base fields are named after SalesDataRow; supplier fields are importKey + measure
+  field: string;
   name: string;
+  // Other header names the POS export has used for this column
+  aliases?: string[];
   type: 'date' | 'string' | 'number';
   required: boolean;
   validate: (value: any) => ValidationResult;
   format?: string;
+  // The file may leave this column out entirely
+  optionalColumn?: boolean;
+  // Set on supplier columns
+  supplierId?: number;
+  measure?: SupplierMeasure;
 }
\ No newline at end of file
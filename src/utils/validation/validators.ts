@@ -1,21 +1,25 @@
 import { ValidationResult } from './types';
-import { parseDateString } from '../dateUtils/parsers';
+import { DATE_FORMATS, parseImportDate } from '../dateUtils/parsers';
 import { 
   MAX_DECIMAL_PLACES,
   MAX_BRANCH_NUMBER_LENGTH,
   MAX_STAFF_CODE_LENGTH,
   VALID_CODE_PATTERN,
-  DATE_FORMAT_PATTERN,
   ERROR_MESSAGES 
 } from './constants';
 
+// Number cells are read with thousands separators ignored, so "1,234" is 1234.
+// The import function in functions/src/imports/parser.ts reads them the same way.
+export const readNumber = (value: any): number =>
+  Number(String(value).replace(/,/g, '').trim());
+
 export const isValidNumber = (value: any, requireInteger: boolean = false): ValidationResult => {
   // Allow empty values
   if (value === undefined || value === null || value === '') {
     return { isValid: true };
   }
 
-  const num = Number(value);
+  const num = readNumber(value);
   
   // Allow negative numbers
   if (isNaN(num) || !isFinite(num)) {
@@ -53,35 +57,15 @@ export const isValidDate = (value: any): ValidationResult => {
     };
   }
 
-  const strValue = value.toString().trim();
-
-  // Check format first (dd/mm/yyyy)
-  if (!DATE_FORMAT_PATTERN.test(strValue)) {
+  // Accept every format parseSalesRow accepts, so valid rows always parse
+  if (!parseImportDate(value, DATE_FORMATS)) {
     return {
       isValid: false,
       error: ERROR_MESSAGES.INVALID_DATE_FORMAT
     };
   }
 
-  // Parse the date
-  const date = parseDateString(strValue);
-  if (!date) {
-    return {
-      isValid: false,
-      error: ERROR_MESSAGES.INVALID_DATE
-    };
-  }
-
-  // Check if date is in the future
-  const today = new Date(2024, 11, 11); // December 11, 2024
-  today.setHours(23, 59, 59, 999);
-  if (date > today) {
-    return {
-      isValid: false,
-      error: ERROR_MESSAGES.FUTURE_DATE
-    };
-  }
-
+  // Future dates are flagged as warnings by detectAnomalies, against today's date
   return { isValid: true };
 };
 